@@ -15,9 +15,7 @@ import {
   ReferenceLine,
   ReferenceArea,
 } from "recharts";
-import Papa from "papaparse";
 import JSZip from "jszip";
-import { toPng } from "html-to-image";
 import {
   Upload,
   FileText,
@@ -29,6 +27,16 @@ import {
   Activity,
   FileDown,
   Wand2,
+  ShieldCheck,
+  FileCog,
+  Scale,
+  GitCompare,
+  BookOpen,
+  Grid3x3,
+  TrendingUp,
+  ChartScatter,
+  Cloud,
+  Flame,
 } from "lucide-react";
 
 import {
@@ -53,228 +61,66 @@ import {
   TabsTrigger,
   TabsContent,
   NativeSelect,
-  cn,
 } from "./components/ui";
-
-const EP_RE = /ep(\d+)/i;
-
-function safeNumber(x: any, fallback = 0) {
-  const n = typeof x === "number" ? x : Number(x);
-  return Number.isFinite(n) ? n : fallback;
-}
-
-function fmtNum(x: any, digits = 1) {
-  const n = safeNumber(x, NaN);
-  if (!Number.isFinite(n)) return "—";
-  return n.toFixed(digits);
-}
-
-function parseEpisodeFromName(name: string): string | null {
-  const m = name.match(EP_RE);
-  if (m?.[1]) return m[1];
-  // fallback: 以分隔符包围的两到三位集号（避免 BV 号/时间戳误判）
-  const m2 = name.match(/(?:^|[-_])(\d{2,3})(?:[-_])/);
-  return m2?.[1] ?? null;
-}
-
-type TableMap = Record<string, any[]>;
-
-type Store = {
-  episodes: string[];
-  episodeStats?: any[];
-  basicStatsByEp: Record<string, any>;
-  tablesByEp: Record<string, TableMap>;
-  loadedFiles: { name: string; size: number; type: string }[];
-};
-
-type DistKind =
-  | "emo_danmaku"
-  | "emo_comment_root"
-  | "emo_comment_reply"
-  | "func_danmaku"
-  | "func_comment_all"
-  | "func_comment_root"
-  | "func_comment_reply";
-
-const TABLE_KEYS = {
-  DANMU_EMO: "danmaku_emo_dist",
-  COM_ROOT_EMO: "comment_root_emo_dist",
-  COM_REPLY_EMO: "comment_reply_emo_dist",
-  DANMU_FUNC: "danmaku_func_dist",
-  COM_ALL_FUNC: "comment_func_dist",
-  COM_ROOT_FUNC: "comment_root_func_dist",
-  COM_REPLY_FUNC: "comment_reply_func_dist",
-  DANMU_MIN_EMO: "danmaku_minute_emo_curve",
-  DANMU_MIN_FUNC: "danmaku_minute_func_curve",
-  BURST_2S: "danmaku_burst_2s",
-  TOP_TERMS_DANMU: "top_terms_danmaku",
-  TOP_TERMS_COMMENT: "top_terms_comment",
-  DANMU_MODEL_EMO: "danmaku_model_emo_dist",
-  COM_ROOT_MODEL_EMO: "comment_root_model_emo_dist",
-  COM_REPLY_MODEL_EMO: "comment_reply_model_emo_dist",
-  MODEL_USAGE: "model_usage",
-  CLEANING_REPORT: "cleaning_report",
-} as const;
-
-function detectTableKey(filename: string): { key: string; ep?: string } | null {
-  const lower = filename.toLowerCase();
-  const ep = parseEpisodeFromName(lower) ?? undefined;
-
-  if (lower.includes("episode_stats") && lower.endsWith(".csv")) return { key: "episode_stats" };
-  if (lower.includes("danmaku_basic_stats") && lower.endsWith(".json")) return { key: "danmaku_basic_stats", ep };
-
-  if (lower.includes("danmaku_emo_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.DANMU_EMO, ep };
-  if (lower.includes("comment_root_emo_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_ROOT_EMO, ep };
-  if (lower.includes("comment_reply_emo_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_REPLY_EMO, ep };
-  if (lower.includes("danmaku_model_emo_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.DANMU_MODEL_EMO, ep };
-  if (lower.includes("comment_root_model_emo_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_ROOT_MODEL_EMO, ep };
-  if (lower.includes("comment_reply_model_emo_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_REPLY_MODEL_EMO, ep };
-  if (lower.includes("model_usage") && lower.endsWith(".csv")) return { key: TABLE_KEYS.MODEL_USAGE, ep };
-  if (lower.includes("danmaku_func_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.DANMU_FUNC, ep };
-  if (lower.includes("comment_func_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_ALL_FUNC, ep };
-  if (lower.includes("comment_root_func_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_ROOT_FUNC, ep };
-  if (lower.includes("comment_reply_func_dist") && lower.endsWith(".csv")) return { key: TABLE_KEYS.COM_REPLY_FUNC, ep };
-  if (lower.includes("danmaku_minute_emo_curve") && lower.endsWith(".csv")) return { key: TABLE_KEYS.DANMU_MIN_EMO, ep };
-  if (lower.includes("danmaku_minute_func_curve") && lower.endsWith(".csv")) return { key: TABLE_KEYS.DANMU_MIN_FUNC, ep };
-  if (lower.includes("danmaku_burst_2s") && lower.endsWith(".csv")) return { key: TABLE_KEYS.BURST_2S, ep };
-  if (lower.includes("top_terms_danmaku") && lower.endsWith(".csv")) return { key: TABLE_KEYS.TOP_TERMS_DANMU, ep };
-  if (lower.includes("top_terms_comment") && lower.endsWith(".csv")) return { key: TABLE_KEYS.TOP_TERMS_COMMENT, ep };
-  if (lower.includes("cleaning_report") && lower.endsWith(".csv")) return { key: TABLE_KEYS.CLEANING_REPORT, ep };
-
-  return null;
-}
-
-function parseCsv(text: string): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    Papa.parse(text, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      complete: (res) => resolve((res.data as any[]) ?? []),
-      error: (err: unknown) => reject(err),
-    });
-  });
-}
+import { EmptyState, EpisodeChips, SectionHeader, StatCard } from "./components/common";
+import { SessionPanel } from "./components/SessionPanel";
+import { IngestReportPanel } from "./components/IngestReportPanel";
+import { DataQualityPanel } from "./components/DataQualityPanel";
+import { AgreementPanel } from "./components/AgreementPanel";
+import { DistTestCard } from "./components/DistTestCard";
+import { DivergencePanel } from "./components/DivergencePanel";
+import { CorrelationPanel } from "./components/CorrelationPanel";
+import { SeasonPanel } from "./components/SeasonPanel";
+import { ClusterPanel } from "./components/ClusterPanel";
+import { TermExplorerPanel } from "./components/TermExplorerPanel";
+import { TermDictionaryPanel } from "./components/TermDictionaryPanel";
+import { BurstClusterPanel } from "./components/BurstClusterPanel";
+import { BurstRugChart } from "./components/BurstRugChart";
+import { TableViewerPanel } from "./components/TableViewerPanel";
+import { FileMappingPanel } from "./components/FileMappingPanel";
+import { LexiconPanel } from "./components/LexiconPanel";
+import { DrillDownPanel } from "./components/DrillDownPanel";
+import { ScenePanel } from "./components/ScenePanel";
+import { ChangePointPanel } from "./components/ChangePointPanel";
+import type { Store, TableMap } from "./lib/types";
+import { TABLE_KEYS, safeNumber } from "./lib/tables";
+import { EMO_COLOR_MAP, EMO_ORDER, colorForKey, stableColorFromKey } from "./lib/colors";
+import { downloadBlob, downloadText, exportNodeAsPng, exportNodeAsPngBlob } from "./lib/export";
+import { fmtNum, niceKey, toPercent } from "./lib/format";
+import { type DistKind, DIST_KINDS, DIST_KIND_OPTIONS, MODEL_EMO_ORDER, distRows } from "./lib/dists";
+import { distTestMarkdown, runDistTest } from "./lib/distTest";
+import type { PAdjustMethod } from "./lib/stats";
+import type { IngestReportEntry } from "./lib/schema";
+import { IngestCancelled, applyPatches, mergeEpisodes } from "./lib/ingest";
+import { type IngestJob, startIngest } from "./lib/ingestClient";
+import { type FileMapping, DEFAULT_FILE_MAPPING, upgradeFileMapping } from "./lib/fileMapping";
+import { usePersistentState } from "./lib/settings";
+import { CURVE_TOTAL_KEY } from "./lib/raw";
+import { type DrillOrigin, type DrillWindow, canDrillDown } from "./lib/drilldown";
+import { type AlignContext, type AlignMode, type AnchorKey, type EpisodeAnchors, ALIGN_MODE_OPTIONS, ANCHOR_KEYS, ANCHOR_LABEL, alignContext, alignCurve, alignedWindow, anchorsToRows, episodeAnchors, fmtAligned, fromAligned } from "./lib/align";
+import { type TermDictionary, DEFAULT_TERM_DICT, categoryColor, tagTerm } from "./lib/termDict";
+import { tableSourceId } from "./lib/tableView";
+import { BURST_DENSITY_KEY, burstDensityByMinute, burstItems } from "./lib/burstCluster";
+import { type ChangePointOptions, DEFAULT_CHANGEPOINT_OPTIONS, detectCurve } from "./lib/changepoint";
+import { type CurveSmooth, type CurveScale, type CurveTransform, CURVE_SCALE_OPTIONS, CURVE_SMOOTH_OPTIONS, DEFAULT_CURVE_TRANSFORM, fmtCurveValue, isIdentityTransform, transformCurve, transformFileTag, transformLabel } from "./lib/curveTransform";
+import { type Scene, episodeScenes, fmtOverlaps, overlappingScenes, sceneColor, scenesFromRows, snapScenesToMinutes } from "./lib/scenes";
+import { compareEpisodeIds, episodeFileTag, episodeLabel, episodeStatsId, groupEpisodes } from "./lib/episodes";
+import {
+  type SessionMeta,
+  listSessions,
+  loadSession,
+  saveSession,
+  renameSession,
+  duplicateSession,
+  deleteSession,
+  getLastSessionId,
+  setLastSessionId,
+} from "./lib/sessions";
 
 function clampTopN<T>(arr: T[], n: number) {
   return arr.slice(0, Math.max(0, Math.min(arr.length, n)));
 }
 
-function toPercent(n: number) {
-  if (!Number.isFinite(n)) return "0%";
-  return `${(n * 100).toFixed(1)}%`;
-}
-
-function niceKey(k: string) {
-  return k.replace(/_/g, " ").replace(/\b(emo|func|ep)\b/gi, (m: string) => m.toUpperCase());
-}
-
-function downloadText(filename: string, text: string, mime = "text/plain;charset=utf-8") {
-  const blob = new Blob([text], { type: mime });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  a.remove();
-  setTimeout(() => URL.revokeObjectURL(url), 1000);
-}
-
-function downloadBlob(filename: string, blob: Blob) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  a.remove();
-  setTimeout(() => URL.revokeObjectURL(url), 1000);
-}
-
-// ---------- colors ----------
-const EMO_ORDER = ["touching", "laugh", "praise", "neg", "self_mock", "other"] as const;
-const EMO_COLOR_MAP: Record<string, string> = {
-  touching: "#2563eb",
-  laugh: "#16a34a",
-  praise: "#ea580c",
-  neg: "#dc2626",
-  self_mock: "#7c3aed",
-  other: "#0891b2",
-  pos: "#0ea5e9",
-  neu: "#64748b",
-};
-
-function hslToHex(h: number, s: number, l: number) {
-  s /= 100;
-  l /= 100;
-  const c = (1 - Math.abs(2 * l - 1)) * s;
-  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
-  const m = l - c / 2;
-  let r = 0, g = 0, b = 0;
-  if (0 <= h && h < 60) [r, g, b] = [c, x, 0];
-  else if (60 <= h && h < 120) [r, g, b] = [x, c, 0];
-  else if (120 <= h && h < 180) [r, g, b] = [0, c, x];
-  else if (180 <= h && h < 240) [r, g, b] = [0, x, c];
-  else if (240 <= h && h < 300) [r, g, b] = [x, 0, c];
-  else[r, g, b] = [c, 0, x];
-  const toHex = (v: number) => Math.round((v + m) * 255).toString(16).padStart(2, "0");
-  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-}
-
-function fnv1aHash32(str: string) {
-  let h = 2166136261;
-  for (let i = 0; i < str.length; i++) {
-    h ^= str.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-}
-
-function stableColorFromKey(key: string) {
-  const h = fnv1aHash32(key) % 360;
-  const l = (fnv1aHash32(key + "_l") % 2) === 0 ? 45 : 58;
-  return hslToHex(h, 82, l);
-}
-
-function colorForKey(key: string, mode: "emo" | "func") {
-  if (mode === "emo" && EMO_COLOR_MAP[key]) return EMO_COLOR_MAP[key];
-  if (mode === "func") return stableColorFromKey(key);
-  return "#334155";
-}
-
-// ---------- export ----------
-async function exportNodeAsPng(node: HTMLElement, filename: string) {
-  // 导出稳定性：避免外链字体导致 canvas 污染 / 加载失败
-  await new Promise((r) => setTimeout(r, 150));
-  const fontStack =
-    'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans SC", "Noto Sans CJK SC", Arial, sans-serif';
-  const dataUrl = await toPng(node, {
-    cacheBust: true,
-    pixelRatio: 2,
-    backgroundColor: "#ffffff",
-    useCORS: true,
-    style: { fontFamily: fontStack },
-  });
-  const a = document.createElement("a");
-  a.href = dataUrl;
-  a.download = filename;
-  a.click();
-}
-
-async function exportNodeAsPngBlob(node: HTMLElement) {
-  await new Promise((r) => setTimeout(r, 150));
-  const fontStack =
-    'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans SC", "Noto Sans CJK SC", Arial, sans-serif';
-  const dataUrl = await toPng(node, {
-    cacheBust: true,
-    pixelRatio: 2,
-    backgroundColor: "#ffffff",
-    useCORS: true,
-    style: { fontFamily: fontStack },
-  });
-  const res = await fetch(dataUrl);
-  return await res.blob();
-}
-
 // ---------- analytics helpers ----------
 function topKIntervals(curveRows: any[], seriesKey: string, windowSize: number, k: number) {
   if (!curveRows.length) return [];
@@ -339,74 +185,22 @@ function fmtTopList(items: Array<{ k: string; v: number }>, kind: "ratio" | "cnt
   return items.map((x) => (kind === "ratio" ? `${x.k}(${toPercent(x.v)})` : `${x.k}(${x.v})`)).join("、");
 }
 
-// ---------- UI helpers ----------
-function StatCard({ title, value, hint }: { title: string; value: React.ReactNode; hint?: React.ReactNode }) {
-  return (
-    <Card>
-      <CardHeader className="pb-2">
-        <CardDescription>{title}</CardDescription>
-        <CardTitle className="text-2xl">{value}</CardTitle>
-      </CardHeader>
-      {hint ? <CardContent className="pt-0 text-sm text-slate-500">{hint}</CardContent> : null}
-    </Card>
-  );
-}
-
-function EmptyState({ title, desc }: { title: string; desc: string }) {
-  return (
-    <Alert>
-      <div className="flex items-start gap-2">
-        <Sparkles className="h-4 w-4 mt-0.5" />
-        <div>
-          <AlertTitle>{title}</AlertTitle>
-          <AlertDescription>{desc}</AlertDescription>
-        </div>
-      </div>
-    </Alert>
-  );
-}
-
-function ChipCheckbox({ checked, label, onChange }: { checked: boolean; label: string; onChange: (v: boolean) => void }) {
-  return (
-    <button
-      type="button"
-      onClick={() => onChange(!checked)}
-      className={cn(
-        "inline-flex items-center rounded-full border px-3 py-1.5 text-sm transition",
-        checked ? "bg-slate-900 text-white border-slate-900" : "bg-white text-slate-700 border-slate-200 hover:bg-slate-50"
-      )}
-      aria-pressed={checked}
-    >
-      {label}
-    </button>
-  );
-}
-
-function SectionHeader({ title, desc, onExport }: { title: string; desc?: string; onExport?: () => Promise<void> }) {
-  return (
-    <div className="flex items-start justify-between gap-3">
-      <div>
-        <CardTitle>{title}</CardTitle>
-        {desc ? <CardDescription>{desc}</CardDescription> : null}
-      </div>
-      {onExport ? (
-        <Button variant="secondary" onClick={onExport}>
-          <Download className="h-4 w-4" />
-          PNG
-        </Button>
-      ) : null}
-    </div>
-  );
-}
-
-export default function FanrenDashboard() {
-  const [store, setStore] = useState<Store>({
+function emptyStore(): Store {
+  return {
     episodes: [],
     episodeStats: undefined,
     basicStatsByEp: {},
     tablesByEp: {},
     loadedFiles: [],
-  });
+  };
+}
+
+function defaultSessionName() {
+  return `会话 ${new Date().toLocaleString("zh-CN", { hour12: false })}`;
+}
+
+export default function FanrenDashboard() {
+  const [store, setStore] = useState<Store>(emptyStore);
 
   const [activeEp, setActiveEp] = useState<string | null>(null);
 
@@ -416,12 +210,25 @@ export default function FanrenDashboard() {
   const [compareSeries, setCompareSeries] = useState<string>("touching");
   const [markPeak, setMarkPeak] = useState<boolean>(true);
   const [markIntervals, setMarkIntervals] = useState<boolean>(true);
+  const [markScenes, setMarkScenes] = useState<boolean>(true);
+  const [alignMode, setAlignMode] = useState<AlignMode>("minute");
+  const [anchorKey, setAnchorKey] = useState<AnchorKey>("op_end");
+  const [curveTransform, setCurveTransform] = useState<CurveTransform>(DEFAULT_CURVE_TRANSFORM);
+  const [markChanges, setMarkChanges] = useState<boolean>(false);
+  const [changeOptions, setChangeOptions] = useState<ChangePointOptions>(DEFAULT_CHANGEPOINT_OPTIONS);
+  const [changeFocus, setChangeFocus] = useState<string>("");
+  const [markBursts, setMarkBursts] = useState<boolean>(true);
+  const [showBurstDensity, setShowBurstDensity] = useState<boolean>(false);
   const [intervalWindow, setIntervalWindow] = useState<number>(3);
   const [intervalTopK, setIntervalTopK] = useState<number>(3);
+  const [drill, setDrill] = useState<DrillWindow | null>(null);
+  const [viewerTable, setViewerTable] = useState<string>("");
+  const tableViewerRef = useRef<HTMLDivElement | null>(null);
 
   const [distCompareEps, setDistCompareEps] = useState<string[]>([]);
   const [distKind, setDistKind] = useState<DistKind>("emo_danmaku");
   const [distStackTopN, setDistStackTopN] = useState<number>(6);
+  const [distTestMethod, setDistTestMethod] = useState<PAdjustMethod>("holm");
 
   const [reportText, setReportText] = useState<string>("");
   const [reportTitle, setReportTitle] = useState<string>("");
@@ -430,113 +237,184 @@ export default function FanrenDashboard() {
   const [topNFunc, setTopNFunc] = useState<number>(12);
   const [searchBurst, setSearchBurst] = useState<string>("");
   const [searchTerms, setSearchTerms] = useState<string>("");
+  const [termDict, setTermDict] = usePersistentState<TermDictionary>("termDict", DEFAULT_TERM_DICT);
 
   const [loading, setLoading] = useState<{ progress: number; label: string } | null>(null);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [ingestReport, setIngestReport] = useState<IngestReportEntry[]>([]);
+  const ingestJobRef = useRef<IngestJob | null>(null);
+  const ingestSeqRef = useRef(0);
+  const [fileMapping, setFileMapping] = usePersistentState<FileMapping>("fileMapping", DEFAULT_FILE_MAPPING, upgradeFileMapping);
+  const [showMapping, setShowMapping] = useState<boolean>(false);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionBusy, setSessionBusy] = useState<boolean>(false);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  // 仅在上传新数据后自动保存；恢复会话本身不应触发写回
+  const sessionDirtyRef = useRef<boolean>(false);
+
   const emoChartRef = useRef<HTMLDivElement | null>(null);
   const funcChartRef = useRef<HTMLDivElement | null>(null);
   const curveChartRef = useRef<HTMLDivElement | null>(null);
   const distCompareRef = useRef<HTMLDivElement | null>(null);
 
-  const mergeEpisodes = useCallback((tablesByEp: Record<string, TableMap>, basicStatsByEp: Record<string, any>, episodeStats?: any[]) => {
-    const eps = new Set<string>();
-    Object.keys(tablesByEp).forEach((ep) => eps.add(ep));
-    Object.keys(basicStatsByEp).forEach((ep) => eps.add(ep));
-    (episodeStats ?? []).forEach((r) => {
-      const ep = String((r as any).episode_id ?? (r as any).episode ?? "");
-      if (ep) eps.add(ep);
+  const ingestFiles = useCallback(async (files: FileList | File[]) => {
+    const list = Array.from(files);
+    if (!list.length) return;
+    setIngestReport([]);
+
+    // 新的导入先取消还在跑的上一次；旧任务的进度和收尾不再影响当前任务
+    ingestJobRef.current?.cancel();
+    const seq = ++ingestSeqRef.current;
+    const isCurrent = () => ingestSeqRef.current === seq;
+
+    const meta = list.map((f) => ({ name: f.name, size: f.size, type: f.type || "" }));
+    setLoading({ progress: 0, label: "准备解析…" });
+    const job = startIngest(list, fileMapping, (p) => {
+      if (isCurrent()) setLoading(p);
     });
-    return Array.from(eps).sort((a, b) => safeNumber(a) - safeNumber(b));
-  }, []);
+    ingestJobRef.current = job;
 
-  const ingestFileText = useCallback(
-    async (name: string, text: string) => {
-      const detected = detectTableKey(name);
-      if (!detected) return;
-
-      if (detected.key === "episode_stats") {
-        const rows = await parseCsv(text);
-        setStore((prev) => {
-          const eps = mergeEpisodes(prev.tablesByEp, prev.basicStatsByEp, rows);
-          return { ...prev, episodeStats: rows, episodes: eps };
-        });
-        return;
+    try {
+      const { patches, report } = await job.result;
+      // 主线程退回模式下，取消只在文件之间生效，被取代的任务仍可能跑完
+      if (!isCurrent()) return;
+      sessionDirtyRef.current = true;
+      setStore((prev) => applyPatches({ ...prev, loadedFiles: [...prev.loadedFiles, ...meta] }, patches));
+      setIngestReport(report);
+    } catch (err: any) {
+      if (!(err instanceof IngestCancelled)) {
+        const msg = err?.message ? String(err.message) : "解析失败。";
+        setIngestReport(list.map((f) => ({ name: f.name, status: "rejected", reasons: [msg] })));
       }
-
-      if (detected.key === "danmaku_basic_stats") {
-        const ep = detected.ep;
-        if (!ep) return;
-        const obj = JSON.parse(text);
-        setStore((prev) => {
-          const basicStatsByEp = { ...prev.basicStatsByEp, [ep]: obj };
-          const episodes = mergeEpisodes(prev.tablesByEp, basicStatsByEp, prev.episodeStats);
-          return { ...prev, basicStatsByEp, episodes };
-        });
-        return;
+    } finally {
+      if (isCurrent()) {
+        ingestJobRef.current = null;
+        setLoading(null);
       }
+    }
+  }, [fileMapping]);
 
-      const ep = detected.ep;
-      if (!ep) return;
+  const cancelIngest = useCallback(() => ingestJobRef.current?.cancel(), []);
 
-      const rows = await parseCsv(text);
-      setStore((prev) => {
-        const cur = prev.tablesByEp[ep] ?? {};
-        const nextTablesByEp = { ...prev.tablesByEp, [ep]: { ...cur, [detected.key]: rows } };
-        const episodes = mergeEpisodes(nextTablesByEp, prev.basicStatsByEp, prev.episodeStats);
-        return { ...prev, tablesByEp: nextTablesByEp, episodes };
-      });
-    },
-    [mergeEpisodes]
+  const restoreStore = useCallback((snap: Store) => {
+    const base = { ...emptyStore(), ...snap };
+    const episodes = mergeEpisodes(base.tablesByEp, base.basicStatsByEp, base.episodeStats);
+    setStore({ ...base, episodes });
+    setActiveEp(null);
+    setCompareEps([]);
+    setDistCompareEps([]);
+  }, []);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err: any) {
+      setSessionError(err?.message ? String(err.message) : "读取会话列表失败。");
+    }
+  }, []);
+
+  const runSessionOp = useCallback(async (op: () => Promise<void>, fallbackMsg: string) => {
+    setSessionBusy(true);
+    setSessionError(null);
+    try {
+      await op();
+    } catch (err: any) {
+      setSessionError(err?.message ? String(err.message) : fallbackMsg);
+    } finally {
+      setSessionBusy(false);
+    }
+  }, []);
+
+  const onRestoreSession = useCallback(
+    (id: string) =>
+      runSessionOp(async () => {
+        const rec = await loadSession(id);
+        if (!rec) throw new Error("会话不存在或已被删除。");
+        sessionDirtyRef.current = false;
+        restoreStore(rec.store);
+        setSessionId(id);
+        setLastSessionId(id);
+      }, "恢复会话失败。"),
+    [runSessionOp, restoreStore]
   );
 
-  const ingestFiles = useCallback(
-    async (files: FileList | File[]) => {
-      const list = Array.from(files);
-      if (!list.length) return;
-      setLoadError(null);
+  const onRenameSession = useCallback(
+    (id: string, name: string) =>
+      runSessionOp(async () => {
+        await renameSession(id, name);
+        await refreshSessions();
+      }, "重命名会话失败。"),
+    [runSessionOp, refreshSessions]
+  );
 
-      const meta = list.map((f) => ({ name: f.name, size: f.size, type: f.type || "" }));
-      setStore((prev) => ({ ...prev, loadedFiles: [...prev.loadedFiles, ...meta] }));
+  const onDuplicateSession = useCallback(
+    (id: string) =>
+      runSessionOp(async () => {
+        const src = sessions.find((x) => x.id === id);
+        await duplicateSession(id, `${src?.name ?? defaultSessionName()} 副本`);
+        await refreshSessions();
+      }, "复制会话失败。"),
+    [runSessionOp, refreshSessions, sessions]
+  );
 
-      const zipFiles = list.filter((f) => f.name.toLowerCase().endsWith(".zip"));
-      const normalFiles = list.filter((f) => !f.name.toLowerCase().endsWith(".zip"));
+  const onDeleteSession = useCallback(
+    (id: string) =>
+      runSessionOp(async () => {
+        await deleteSession(id);
+        if (id === sessionId) setSessionId(null);
+        await refreshSessions();
+      }, "删除会话失败。"),
+    [runSessionOp, refreshSessions, sessionId]
+  );
 
+  const onNewSession = useCallback(() => {
+    sessionDirtyRef.current = false;
+    restoreStore(emptyStore());
+    setSessionId(null);
+    setLastSessionId(null);
+    setIngestReport([]);
+  }, [restoreStore]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    (async () => {
       try {
-        for (let zi = 0; zi < zipFiles.length; zi++) {
-          const zf = zipFiles[zi];
-          setLoading({ progress: 5, label: `解压 ${zf.name}` });
-          const buf = await zf.arrayBuffer();
-          const zip = await JSZip.loadAsync(buf);
-          const entries = Object.values(zip.files).filter((e) => !e.dir);
-
-          for (let i = 0; i < entries.length; i++) {
-            const e = entries[i];
-            const nm = e.name.split("/").pop() || e.name;
-            const low = nm.toLowerCase();
-            if (!(low.endsWith(".csv") || low.endsWith(".json"))) continue;
-            setLoading({ progress: Math.round((i / Math.max(1, entries.length)) * 90) + 5, label: `解析 ${nm}` });
-            const t = await e.async("string");
-            await ingestFileText(nm, t);
-          }
-        }
+        const list = await listSessions();
+        if (cancelled) return;
+        setSessions(list);
+        const last = getLastSessionId();
+        if (!last || !list.some((x) => x.id === last)) return;
+        const rec = await loadSession(last);
+        if (cancelled || !rec) return;
+        restoreStore(rec.store);
+        setSessionId(last);
+      } catch (err: any) {
+        if (!cancelled) setSessionError(err?.message ? String(err.message) : "读取已保存的会话失败。");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreStore]);
 
-        for (let i = 0; i < normalFiles.length; i++) {
-          const f = normalFiles[i];
-          setLoading({ progress: Math.round((i / Math.max(1, normalFiles.length)) * 80) + 10, label: `解析 ${f.name}` });
-          const t = await f.text();
-          await ingestFileText(f.name, t);
-        }
+  React.useEffect(() => {
+    if (!sessionDirtyRef.current || loading || !store.episodes.length) return;
+    const timer = setTimeout(async () => {
+      sessionDirtyRef.current = false;
+      try {
+        const name = sessions.find((x) => x.id === sessionId)?.name ?? defaultSessionName();
+        const meta = await saveSession(sessionId, name, store);
+        setSessionId(meta.id);
+        setLastSessionId(meta.id);
+        await refreshSessions();
       } catch (err: any) {
-        const msg = err?.message ? String(err.message) : "文件解析失败，请检查 CSV/JSON 格式。";
-        setLoadError(msg);
-      } finally {
-        setLoading(null);
+        setSessionError(err?.message ? String(err.message) : "保存会话失败（可能超出浏览器存储配额）。");
       }
-    },
-    [ingestFileText]
-  );
+    }, 600);
+    return () => clearTimeout(timer);
+  }, [store, loading, sessionId, sessions, refreshSessions]);
 
   const onPickFiles = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -571,7 +449,7 @@ export default function FanrenDashboard() {
 
   const epStats = useMemo(() => {
     if (!activeEp) return null;
-    const byStats = store.episodeStats?.find((r) => String((r as any).episode_id) === String(activeEp)) ?? null;
+    const byStats = store.episodeStats?.find((r) => episodeStatsId(r) === activeEp) ?? null;
     const basic = store.basicStatsByEp[activeEp] ?? null;
     return { byStats, basic };
   }, [activeEp, store.episodeStats, store.basicStatsByEp]);
@@ -629,29 +507,40 @@ export default function FanrenDashboard() {
     [tables]
   );
 
-  const modelUsage = useMemo(() => (tables[TABLE_KEYS.MODEL_USAGE] ?? []) as any[], [tables]);
+  const comReplyModelEmo = useMemo(
+    () =>
+      (tables[TABLE_KEYS.COM_REPLY_MODEL_EMO] ?? []).map((r) => ({
+        label: String((r as any).model_emo ?? (r as any).emo ?? (r as any).label ?? "neu"),
+        ratio: safeNumber((r as any).ratio),
+        cnt: safeNumber((r as any).cnt),
+      })),
+    [tables]
+  );
 
+  const modelUsage = useMemo(() => (tables[TABLE_KEYS.MODEL_USAGE] ?? []) as any[], [tables]);
 
   const polBars = useMemo(() => {
     const map: Record<string, any> = {};
-    for (const r of danmuModelEmo) {
-      const k = String((r as any).label ?? "neu");
-      map[k] = map[k] ?? { label: k };
-      map[k].danmaku = safeNumber((r as any).ratio);
-      map[k].danmaku_cnt = safeNumber((r as any).cnt);
-    }
-    for (const r of comRootModelEmo) {
-      const k = String((r as any).label ?? "neu");
-      map[k] = map[k] ?? { label: k };
-      map[k].comment = safeNumber((r as any).ratio);
-      map[k].comment_cnt = safeNumber((r as any).cnt);
+    const sources: Array<[string, typeof danmuModelEmo]> = [
+      ["danmaku", danmuModelEmo],
+      ["root", comRootModelEmo],
+      ["reply", comReplyModelEmo],
+    ];
+    for (const [src, rows] of sources) {
+      for (const r of rows) {
+        const k = String((r as any).label ?? "neu");
+        map[k] = map[k] ?? { label: k };
+        map[k][src] = safeNumber((r as any).ratio);
+        map[k][`${src}_cnt`] = safeNumber((r as any).cnt);
+      }
     }
-    const order = ["pos", "neu", "neg"];
+    const order: string[] = [...MODEL_EMO_ORDER];
     return order.filter((k) => map[k]).map((k) => map[k]).concat(Object.values(map).filter((v: any) => !order.includes(String(v.label))));
-  }, [danmuModelEmo, comRootModelEmo]);
+  }, [danmuModelEmo, comRootModelEmo, comReplyModelEmo]);
 
   const usageDanmu = useMemo(() => modelUsage.find((r: any) => String(r.dataset) === "danmaku") ?? null, [modelUsage]);
   const usageRoot = useMemo(() => modelUsage.find((r: any) => String(r.dataset) === "comment_root") ?? null, [modelUsage]);
+  const usageReply = useMemo(() => modelUsage.find((r: any) => String(r.dataset) === "comment_reply") ?? null, [modelUsage]);
 
   const danmuFunc = useMemo(
     () => (tables[TABLE_KEYS.DANMU_FUNC] ?? []).map((r) => ({ ...r, ratio: safeNumber((r as any).ratio), cnt: safeNumber((r as any).cnt) })),
@@ -665,15 +554,43 @@ export default function FanrenDashboard() {
     return clampTopN(rows, topNFunc);
   }, [danmuFunc, topNFunc]);
 
-  const curveData = useMemo(() => {
+  /** per1000 的分母：优先 episode_stats，其次 basic_stats；都没有时 transformCurve 用曲线总条数 */
+  const danmuTotalOf = useCallback(
+    (ep: string | null) => {
+      if (!ep) return undefined;
+      const byStats = store.episodeStats?.find((r) => episodeStatsId(r) === ep);
+      const v = safeNumber(byStats?.danmu_total ?? store.basicStatsByEp[ep]?.danmu_total, NaN);
+      return Number.isFinite(v) ? v : undefined;
+    },
+    [store.episodeStats, store.basicStatsByEp]
+  );
+
+  const curveRaw = useMemo(() => {
     const key = curveMode === "emo" ? TABLE_KEYS.DANMU_MIN_EMO : TABLE_KEYS.DANMU_MIN_FUNC;
     const rows = (tables[key] ?? []).map((r) => ({ ...r, minute: safeNumber((r as any).minute) }));
     return rows.sort((a, b) => (a as any).minute - (b as any).minute);
   }, [tables, curveMode]);
 
+  // 峰值、Top 区间与导出都基于变换后的曲线
+  const curveData = useMemo(() => transformCurve(curveRaw, curveTransform, danmuTotalOf(activeEp)), [curveRaw, curveTransform, danmuTotalOf, activeEp]);
+
+  const burstEvents = useMemo(() => burstItems(tables), [tables]);
+  // 刷屏密度只叠加在图上（右侧独立 Y 轴，不参与曲线变换、区间和变点计算）
+  const curveChartData = useMemo(() => {
+    if (!showBurstDensity || !burstEvents.length) return curveData as any[];
+    const density = burstDensityByMinute(burstEvents);
+    return (curveData as any[]).map((r) => ({ ...r, [BURST_DENSITY_KEY]: density.get(Number(r.minute)) ?? 0 }));
+  }, [curveData, showBurstDensity, burstEvents]);
+  const curveMinuteDomain = useMemo((): [number, number] => {
+    const ms = (curveData as any[]).map((r) => Number(r.minute));
+    return ms.length ? [ms[0], ms[ms.length - 1]] : [0, 0];
+  }, [curveData]);
+  const showBurstRug = markBursts && burstEvents.length > 0;
+  const showBurstAxis = showBurstDensity && burstEvents.length > 0;
+
   const curveSeriesKeys = useMemo(() => {
-    if (!curveData.length) return [] as string[];
-    const sample = curveData[0] as any;
+    if (!curveRaw.length) return [] as string[];
+    const sample = curveRaw[0] as any;
     const keys = Object.keys(sample).filter((k) => !["episode_id", "minute"].includes(k));
     if (curveMode === "emo") {
       const order = new Map<string, number>(EMO_ORDER.map((k, i) => [k, i]));
@@ -681,47 +598,74 @@ export default function FanrenDashboard() {
     }
     const sums: Record<string, number> = {};
     for (const k of keys) sums[k] = 0;
-    for (const row of curveData as any[]) for (const k of keys) sums[k] += safeNumber(row[k]);
+    for (const row of curveRaw as any[]) for (const k of keys) sums[k] += safeNumber(row[k]);
     return keys.sort((a, b) => (sums[b] ?? 0) - (sums[a] ?? 0));
-  }, [curveData, curveMode]);
+  }, [curveRaw, curveMode]);
 
   const [intervalSeriesKey, setIntervalSeriesKey] = useState<string>("touching");
   React.useEffect(() => {
     const first = curveSeriesKeys[0] ?? (curveMode === "emo" ? "touching" : "");
     if (!first) return;
+    if (curveMode === "emo" && curveSeriesKeys.length === 1 && first === CURVE_TOTAL_KEY) {
+      setIntervalSeriesKey(CURVE_TOTAL_KEY);
+      return;
+    }
     setIntervalSeriesKey((prev) => (curveMode === "emo" ? (EMO_ORDER.includes(prev as any) ? prev : "touching") : curveSeriesKeys.includes(prev) ? prev : first));
   }, [curveMode, curveSeriesKeys]);
 
+  const sceneBands = useMemo(
+    () => (markScenes ? snapScenesToMinutes(episodeScenes(tables), (curveData as any[]).map((r) => r.minute)) : []),
+    [markScenes, tables, curveData]
+  );
+
+  // 只在单集视图里检测；曲线上只画 Top 区间维度（或面板里选定维度）的标记，表格列出全部
+  const detection = useMemo(
+    () => (markChanges && !compareMode && curveData.length ? detectCurve(curveData as any[], curveSeriesKeys.slice(0, 10), changeOptions) : null),
+    [markChanges, compareMode, curveData, curveSeriesKeys, changeOptions]
+  );
+  const changeFocusKey = curveSeriesKeys.includes(changeFocus) ? changeFocus : "";
+  const changeMarkKey = changeFocusKey || intervalSeriesKey;
+
+  const updateScenes = useCallback((ep: string, scenes: Scene[]) => {
+    sessionDirtyRef.current = true;
+    setStore((prev) => applyPatches(prev, [{ kind: "table", ep, key: TABLE_KEYS.SCENES, rows: scenes }]));
+  }, []);
+
   const intervalsSingle = useMemo(() => {
     if (!markIntervals || !curveData.length || !intervalSeriesKey) return [];
     return topKIntervals(curveData as any[], intervalSeriesKey, intervalWindow, intervalTopK);
   }, [markIntervals, curveData, intervalSeriesKey, intervalWindow, intervalTopK]);
 
+  const compareAlign = useMemo(() => {
+    const key = curveMode === "emo" ? TABLE_KEYS.DANMU_MIN_EMO : TABLE_KEYS.DANMU_MIN_FUNC;
+    const out: Record<string, AlignContext> = {};
+    for (const ep of compareEps) out[ep] = alignContext(store.tablesByEp[ep]?.[key] ?? [], alignMode, episodeAnchors(store.tablesByEp[ep]), anchorKey);
+    return out;
+  }, [compareEps, store.tablesByEp, curveMode, alignMode, anchorKey]);
+
+  // 横轴为对齐坐标（仍放在 minute 列）；分钟 ↔ 对齐坐标的换算见 lib/align.ts
   const compareCurveCombined = useMemo(() => {
     if (!compareMode || !compareEps.length) return [];
     const key = curveMode === "emo" ? TABLE_KEYS.DANMU_MIN_EMO : TABLE_KEYS.DANMU_MIN_FUNC;
 
-    const byEp: Record<string, any[]> = {};
     const minuteSet = new Set<number>();
-    for (const ep of compareEps) {
-      const rows = (store.tablesByEp[ep]?.[key] ?? []).map((r) => ({ ...r, minute: safeNumber((r as any).minute) }));
-      byEp[ep] = rows;
-      rows.forEach((r) => minuteSet.add(safeNumber((r as any).minute)));
-    }
-
-    const minutes = Array.from(minuteSet).sort((a, b) => a - b);
     const lookup: Record<string, Record<number, number>> = {};
     for (const ep of compareEps) {
       lookup[ep] = {};
-      for (const r of byEp[ep] ?? []) lookup[ep][safeNumber((r as any).minute)] = safeNumber((r as any)[compareSeries]);
+      const rows = transformCurve(store.tablesByEp[ep]?.[key] ?? [], curveTransform, danmuTotalOf(ep));
+      for (const p of alignCurve(rows, compareSeries, compareAlign[ep])) {
+        lookup[ep][p.x] = p.v;
+        minuteSet.add(p.x);
+      }
     }
 
+    const minutes = Array.from(minuteSet).sort((a, b) => a - b);
     return minutes.map((m) => {
       const row: any = { minute: m };
       for (const ep of compareEps) row[`ep${ep}`] = lookup[ep]?.[m] ?? 0;
       return row;
     });
-  }, [compareMode, compareEps, store.tablesByEp, curveMode, compareSeries]);
+  }, [compareMode, compareEps, store.tablesByEp, curveMode, compareSeries, compareAlign, curveTransform, danmuTotalOf]);
 
   const compareColors = useMemo(() => {
     const m: Record<string, string> = {};
@@ -753,68 +697,64 @@ export default function FanrenDashboard() {
     const out: Record<string, any[]> = {};
     for (const ep of compareEps) {
       const epKey = `ep${ep}`;
-      out[epKey] = topKIntervals(compareCurveCombined as any[], epKey, intervalWindow, intervalTopK);
+      out[epKey] = topKIntervals(compareCurveCombined as any[], epKey, alignedWindow(intervalWindow, alignMode, Object.values(compareAlign)), intervalTopK);
     }
     return out;
-  }, [compareMode, markIntervals, compareCurveCombined, compareEps, intervalWindow, intervalTopK]);
+  }, [compareMode, markIntervals, compareCurveCombined, compareEps, intervalWindow, intervalTopK, alignMode, compareAlign]);
+
+  const updateAnchors = useCallback((ep: string, anchors: EpisodeAnchors) => {
+    sessionDirtyRef.current = true;
+    setStore((prev) => applyPatches(prev, [{ kind: "table", ep, key: TABLE_KEYS.ANCHORS, rows: anchorsToRows(anchors) }]));
+  }, []);
+
+  const drillable = useCallback((ep: string | null | undefined): ep is string => !!ep && canDrillDown(store.tablesByEp[ep]), [store.tablesByEp]);
+  const openDrill = (ep: string | null | undefined, start: number, end: number, origin: DrillOrigin) => {
+    if (drillable(ep) && Number.isFinite(start) && Number.isFinite(end)) setDrill({ ep, start, end, origin });
+  };
+  // 参考元素的点击不再冒泡到图表本身（否则会被当成单分钟点击覆盖）；ReferenceArea 直接收到原始事件
+  const drillHandler = (ep: string | null | undefined, start: number, end: number, origin: DrillOrigin) => (e: any) => {
+    e?.stopPropagation?.();
+    openDrill(ep, start, end, origin);
+  };
+  // ReferenceDot 的事件经 recharts 的 adaptEventHandlers 以 (props, event) 调用，事件在第二个参数
+  const dotDrillHandler = (ep: string | null | undefined, start: number, end: number, origin: DrillOrigin) => (_props: any, e?: any) => drillHandler(ep, start, end, origin)(e);
+  const compareDrillEp = activeEp && compareEps.includes(activeEp) ? activeEp : compareEps[0];
+  const toEpMinute = (ep: string, x: number) => (compareAlign[ep] ? fromAligned(x, compareAlign[ep]) : x);
+  const compareDrillHandler = (ep: string, x1: number, x2: number, origin: DrillOrigin) => drillHandler(ep, toEpMinute(ep, x1), toEpMinute(ep, x2), origin);
+  const compareDotDrillHandler = (ep: string, x1: number, x2: number, origin: DrillOrigin) => dotDrillHandler(ep, toEpMinute(ep, x1), toEpMinute(ep, x2), origin);
+  const fmtX = (x: number) => fmtAligned(x, alignMode);
+  const fmtY = (v: any) => fmtCurveValue(Number(v), curveTransform.scale);
+  // 变换后的曲线在 Y 轴上写明口径，导出的 PNG 脱离界面也能读懂
+  const curveYAxisLabel = isIdentityTransform(curveTransform) ? undefined : { value: transformLabel(curveTransform), angle: -90, position: "insideLeft" as const, fontSize: 11, fill: "#64748b", dy: 60 };
 
   const distCompareData = useMemo(() => {
     if (!distCompareEps.length) return { rows: [], keys: [] as string[], label: "", colors: {} as Record<string, string> };
 
-    const isEmo = distKind.startsWith("emo_");
+    const meta = DIST_KINDS[distKind];
+    const tableKey = meta.tableKey;
 
-    if (isEmo) {
-      const tableKey =
-        distKind === "emo_danmaku"
-          ? TABLE_KEYS.DANMU_EMO
-          : distKind === "emo_comment_root"
-            ? TABLE_KEYS.COM_ROOT_EMO
-            : TABLE_KEYS.COM_REPLY_EMO;
-      const keys = [...EMO_ORDER];
+    const hasAny = distCompareEps.some((ep) => (store.tablesByEp[ep]?.[tableKey]?.length ?? 0) > 0);
+    if (!hasAny) return { rows: [], keys: [], label: "", colors: {} as Record<string, string> };
 
-      const hasAny = distCompareEps.some((ep) => (store.tablesByEp[ep]?.[tableKey]?.length ?? 0) > 0);
-      if (!hasAny) return { rows: [], keys: [], label: "", colors: {} as Record<string, string> };
+    if (meta.family !== "func") {
+      const keys: string[] = meta.family === "emo" ? [...EMO_ORDER] : [...MODEL_EMO_ORDER];
 
       const rows = distCompareEps.map((ep) => {
-        const dist = store.tablesByEp[ep]?.[tableKey] ?? [];
         const m: Record<string, number> = {};
-        for (const r of dist as any[]) {
-          const emo = String(r.emo ?? r.label ?? "other");
-          m[emo] = safeNumber(r.ratio);
-        }
-        const row: any = { episode: `第${ep}集`, ep };
+        for (const r of distRows(store.tablesByEp[ep]?.[tableKey], meta.family)) m[r.label] = r.ratio;
+        const row: any = { episode: episodeLabel(ep), ep };
         for (const k of keys) row[k] = m[k] ?? 0;
         return row;
       });
 
-      const label =
-        distKind === "emo_danmaku"
-          ? "弹幕情绪分布（堆叠）"
-          : distKind === "emo_comment_root"
-            ? "根评论情绪分布（堆叠）"
-            : "回复评论情绪分布（堆叠）";
-      return { rows, keys, label, colors: EMO_COLOR_MAP };
+      return { rows, keys, label: meta.label, colors: EMO_COLOR_MAP };
     }
 
-    const funcTableKey =
-      distKind === "func_danmaku"
-        ? TABLE_KEYS.DANMU_FUNC
-        : distKind === "func_comment_all"
-          ? TABLE_KEYS.COM_ALL_FUNC
-          : distKind === "func_comment_root"
-            ? TABLE_KEYS.COM_ROOT_FUNC
-            : TABLE_KEYS.COM_REPLY_FUNC;
-
-    const hasAny = distCompareEps.some((ep) => (store.tablesByEp[ep]?.[funcTableKey]?.length ?? 0) > 0);
-    if (!hasAny) return { rows: [], keys: [], label: "", colors: {} as Record<string, string> };
-
     const funcMean: Record<string, number[]> = {};
     for (const ep of distCompareEps) {
-      const dist = store.tablesByEp[ep]?.[funcTableKey] ?? [];
-      for (const r of dist as any[]) {
-        const func = String(r.func ?? r.label ?? "other");
-        funcMean[func] = funcMean[func] ?? [];
-        funcMean[func].push(safeNumber(r.ratio));
+      for (const r of distRows(store.tablesByEp[ep]?.[tableKey], "func")) {
+        funcMean[r.label] = funcMean[r.label] ?? [];
+        funcMean[r.label].push(r.ratio);
       }
     }
     const funcScores = Object.entries(funcMean).map(([k, arr]) => [k, arr.reduce((a, b) => a + b, 0) / Math.max(1, arr.length)] as const);
@@ -825,66 +765,30 @@ export default function FanrenDashboard() {
     keys.forEach((k) => (colors[k] = k === "other" ? "#94a3b8" : stableColorFromKey("func_" + k)));
 
     const rows = distCompareEps.map((ep) => {
-      const dist = store.tablesByEp[ep]?.[funcTableKey] ?? [];
       const m: Record<string, number> = {};
-      for (const r of dist as any[]) {
-        const func = String(r.func ?? r.label ?? "other");
-        m[func] = safeNumber(r.ratio);
-      }
-      const row: any = { episode: `第${ep}集`, ep };
+      for (const r of distRows(store.tablesByEp[ep]?.[tableKey], "func")) m[r.label] = r.ratio;
+      const row: any = { episode: episodeLabel(ep), ep };
       for (const k of topKeys) row[k] = m[k] ?? 0;
       const sumTop = topKeys.reduce((s, k) => s + (row[k] ?? 0), 0);
       row["other"] = Math.max(0, 1 - sumTop);
       return row;
     });
 
-    const label =
-      distKind === "func_danmaku"
-        ? "弹幕功能分布（TopN + other）"
-        : distKind === "func_comment_all"
-          ? "评论功能分布（总体）"
-          : distKind === "func_comment_root"
-            ? "评论功能分布（根评）"
-            : "评论功能分布（回复）";
-    return { rows, keys, label, colors };
+    return { rows, keys, label: meta.label, colors };
   }, [distCompareEps, distKind, store.tablesByEp, distStackTopN]);
 
   const distCompareMissing = useMemo(() => {
     if (!distCompareEps.length) return { missingEps: [] as string[], filePattern: "" };
-
-    const filePattern =
-      distKind === "emo_danmaku"
-        ? "danmaku_emo_dist_ep{ep}.csv"
-        : distKind === "emo_comment_root"
-          ? "comment_root_emo_dist_ep{ep}.csv"
-          : distKind === "emo_comment_reply"
-            ? "comment_reply_emo_dist_ep{ep}.csv"
-            : distKind === "func_danmaku"
-              ? "danmaku_func_dist_ep{ep}.csv"
-              : distKind === "func_comment_all"
-                ? "comment_func_dist_ep{ep}.csv"
-                : distKind === "func_comment_root"
-                  ? "comment_root_func_dist_ep{ep}.csv"
-                  : "comment_reply_func_dist_ep{ep}.csv";
-
-    const tableKey = distKind.startsWith("emo_")
-      ? distKind === "emo_danmaku"
-        ? TABLE_KEYS.DANMU_EMO
-        : distKind === "emo_comment_root"
-          ? TABLE_KEYS.COM_ROOT_EMO
-          : TABLE_KEYS.COM_REPLY_EMO
-      : distKind === "func_danmaku"
-        ? TABLE_KEYS.DANMU_FUNC
-        : distKind === "func_comment_all"
-          ? TABLE_KEYS.COM_ALL_FUNC
-          : distKind === "func_comment_root"
-            ? TABLE_KEYS.COM_ROOT_FUNC
-            : TABLE_KEYS.COM_REPLY_FUNC;
-
+    const { filePattern, tableKey } = DIST_KINDS[distKind];
     const missingEps = distCompareEps.filter((ep) => (store.tablesByEp[ep]?.[tableKey]?.length ?? 0) === 0);
     return { missingEps, filePattern };
   }, [distCompareEps, distKind, store.tablesByEp]);
 
+  const distTest = useMemo(() => {
+    if (distCompareEps.length < 2 || distCompareData.keys.length < 2) return null;
+    return runDistTest(distCompareEps, store.tablesByEp, distKind, distCompareData.keys, distTestMethod);
+  }, [distCompareEps, store.tablesByEp, distKind, distCompareData.keys, distTestMethod]);
+
   const burstRows = useMemo(() => {
     const rows = (tables[TABLE_KEYS.BURST_2S] ?? []).map((r) => ({
       sec_bin: safeNumber((r as any).sec_bin),
@@ -914,7 +818,11 @@ export default function FanrenDashboard() {
 
   const ready = store.episodes.length > 0;
 
-  const epOptions = useMemo(() => store.episodes.map((ep) => ({ label: `第 ${ep} 集`, value: ep })), [store.episodes]);
+  const epOptions = useMemo(() => {
+    const groups = groupEpisodes(store.episodes);
+    if (groups.length <= 1) return store.episodes.map((ep) => ({ label: episodeLabel(ep), value: ep }));
+    return groups.flatMap((g) => g.eps.map((ep) => ({ label: episodeLabel(ep, true), value: ep, group: g.label })));
+  }, [store.episodes]);
 
   const uploadSummary = useMemo(() => {
     if (!store.loadedFiles.length) return null;
@@ -924,32 +832,40 @@ export default function FanrenDashboard() {
     return { count: store.loadedFiles.length, sizeLabel };
   }, [store.loadedFiles]);
 
+  // 原始弹幕没有情绪标签时，情绪曲线只有 total 一列
+  const emoSeriesOptions = useMemo(
+    () => [...EMO_ORDER, ...(curveSeriesKeys.includes(CURVE_TOTAL_KEY) ? [CURVE_TOTAL_KEY] : [])].map((k) => ({ label: k, value: k })),
+    [curveSeriesKeys]
+  );
+
   const compareSeriesOptions = useMemo(() => {
-    if (curveMode === "emo") return EMO_ORDER.map((k) => ({ label: k, value: k }));
+    if (curveMode === "emo") return emoSeriesOptions;
     const keys = curveSeriesKeys.length ? curveSeriesKeys : ["ritual_call", "viewing_status", "emo_like", "emo_touching", "other"];
     return keys.slice(0, 50).map((k) => ({ label: k, value: k }));
-  }, [curveMode, curveSeriesKeys]);
+  }, [curveMode, curveSeriesKeys, emoSeriesOptions]);
 
   const intervalSeriesOptions = useMemo(() => {
-    if (curveMode === "emo") return EMO_ORDER.map((k) => ({ label: k, value: k }));
+    if (curveMode === "emo") return emoSeriesOptions;
     return (curveSeriesKeys.length ? curveSeriesKeys : ["ritual_call", "viewing_status", "other"]).slice(0, 40).map((k) => ({ label: k, value: k }));
-  }, [curveMode, curveSeriesKeys]);
+  }, [curveMode, curveSeriesKeys, emoSeriesOptions]);
 
   const toggleCompareEp = useCallback(
-    (ep: string) => setCompareEps((prev) => (prev.includes(ep) ? prev.filter((x) => x !== ep) : [...prev, ep].sort((a, b) => safeNumber(a) - safeNumber(b)))),
+    (ep: string) => setCompareEps((prev) => (prev.includes(ep) ? prev.filter((x) => x !== ep) : [...prev, ep].sort(compareEpisodeIds))),
     []
   );
   const toggleDistEp = useCallback(
-    (ep: string) => setDistCompareEps((prev) => (prev.includes(ep) ? prev.filter((x) => x !== ep) : [...prev, ep].sort((a, b) => safeNumber(a) - safeNumber(b)))),
+    (ep: string) => setDistCompareEps((prev) => (prev.includes(ep) ? prev.filter((x) => x !== ep) : [...prev, ep].sort(compareEpisodeIds))),
     []
   );
+  const selectEps = (eps: string[], checked: boolean) => (prev: string[]) =>
+    checked ? Array.from(new Set([...prev, ...eps])).sort(compareEpisodeIds) : prev.filter((x) => !eps.includes(x));
 
   const generateReportMarkdown = useCallback(() => {
-    const ep = activeEp ?? "—";
+    const epName = activeEp ? episodeLabel(activeEp) : "第—集";
     const danmuTotal = (epStats as any)?.byStats?.danmu_total ?? (epStats as any)?.basic?.danmu_total ?? "—";
     const density = (epStats as any)?.byStats?.minute_avg_density ?? (epStats as any)?.basic?.minute_avg_density ?? "—";
-    const rootCnt = (epStats as any)?.byStats?.root_cnt ?? "—";
-    const replyCnt = (epStats as any)?.byStats?.reply_cnt ?? "—";
+    const rootCnt = (epStats as any)?.byStats?.root_cnt ?? (epStats as any)?.basic?.root_cnt ?? "—";
+    const replyCnt = (epStats as any)?.byStats?.reply_cnt ?? (epStats as any)?.basic?.reply_cnt ?? "—";
 
     const topDanmuEmo = fmtTopList(pickTopDist(danmuEmo as any[], "emo", "ratio", 3), "ratio");
     const topRootEmo = fmtTopList(pickTopDist(comRootEmo as any[], "emo", "ratio", 3), "ratio");
@@ -957,7 +873,9 @@ export default function FanrenDashboard() {
 
     const peak = curveData.length && intervalSeriesKey ? computePeak(curveData as any[], intervalSeriesKey) : null;
     const ints = intervalsSingle as any[];
+    const scenes = episodeScenes(tables);
 
+    const alignLabel = alignMode === "anchor" ? `相对${ANCHOR_LABEL[anchorKey]}的分钟` : ALIGN_MODE_OPTIONS.find((o) => o.value === alignMode)?.label ?? alignMode;
     const cmpSummary =
       compareMode && (compareCurveCombined as any[]).length
         ? compareEps
@@ -965,23 +883,47 @@ export default function FanrenDashboard() {
             const epKey = `ep${epx}`;
             const p = (comparePeaks as any[]).find((x) => x.epKey === epKey);
             const topInts = (intervalsCompare as any)[epKey] ?? [];
-            const intStr = topInts.slice(0, 3).map((it: any) => `${it.start}–${it.end}m`).join("、");
-            return `- 第${epx}集：峰值@${p?.minute ?? "—"}m；Top区间：${intStr || "—"}`;
+            const intStr = topInts.slice(0, 3).map((it: any) => `${fmtX(it.start)}–${fmtX(it.end)}`).join("、");
+            const line = `- ${episodeLabel(epx)}：峰值@${p ? fmtX(p.minute) : "—"}；Top区间：${intStr || "—"}`;
+            const sc = episodeScenes(store.tablesByEp[epx]);
+            if (!sc.length) return line;
+            const at = (x: number) => toEpMinute(epx, x);
+            const peakScenes = p ? `\n  - 峰值所在段落：${fmtOverlaps(overlappingScenes(sc, at(p.minute), at(p.minute)))}` : "";
+            const intScenes = topInts.slice(0, 3).map((it: any) => `\n  - ${fmtX(it.start)}–${fmtX(it.end)}：${fmtOverlaps(overlappingScenes(sc, at(it.start), at(it.end)))}`).join("");
+            return line + peakScenes + intScenes;
           })
           .join("\n")
         : "";
 
-    const caption1 = `图1 展示第${ep}集弹幕与根评论的情绪分布对比：弹幕Top情绪为 ${topDanmuEmo}；根评论Top情绪为 ${topRootEmo}。`;
-    const caption2 = `图2 展示第${ep}集弹幕功能分布（Top${topNFunc}）：Top功能为 ${topFunc}。`;
+    const caption1 = `图1 展示${epName}弹幕与根评论的情绪分布对比：弹幕Top情绪为 ${topDanmuEmo}；根评论Top情绪为 ${topRootEmo}。`;
+    const caption2 = `图2 展示${epName}弹幕功能分布（Top${topNFunc}）：Top功能为 ${topFunc}。`;
+    const curveNote = isIdentityTransform(curveTransform) ? "" : `（曲线口径：${transformLabel(curveTransform)}）`;
     const caption3 = compareMode
-      ? `图3 展示多集 minute 曲线对比（维度=${compareSeries}）：各集峰值与高峰区间可据图与下表归纳。`
-      : `图3 展示第${ep}集 minute 曲线（维度=${curveMode}）；在 ${intervalSeriesKey} 维度下的峰值为 @${peak?.minute ?? "—"}m，Top区间为：${(ints || []).slice(0, 3).map((it: any) => `${it.start}–${it.end}m`).join("、") || "—"
+      ? `图3 展示多集 minute 曲线对比（维度=${compareSeries}）${curveNote}：各集峰值与高峰区间可据图与下表归纳。`
+      : `图3 展示${epName} minute 曲线（维度=${curveMode}）${curveNote}；在 ${intervalSeriesKey} 维度下的峰值为 @${peak?.minute ?? "—"}m，Top区间为：${(ints || []).slice(0, 3).map((it: any) => `${it.start}–${it.end}m`).join("、") || "—"
       }。`;
+    const sceneSummary =
+      !compareMode && scenes.length
+        ? [
+          peak ? `- 峰值 @${peak.minute}m：${fmtOverlaps(overlappingScenes(scenes, peak.minute, peak.minute))}` : "",
+          ...(ints || []).map((it: any, i: number) => `- Top区间 ${i + 1}（${it.start}–${it.end}m）：${fmtOverlaps(overlappingScenes(scenes, it.start, it.end))}`),
+        ]
+          .filter(Boolean)
+          .join("\n")
+        : "";
+    const fmtV = (v: number) => fmtCurveValue(v, curveTransform.scale);
+    const changeSummary =
+      !compareMode && detection && (detection.changes.length || detection.anomalies.length)
+        ? [
+          ...detection.changes.slice(0, 8).map((c) => `- 变点 ${c.series} @${c.minute}m：${fmtV(c.before)} → ${fmtV(c.after)}（${c.direction === "up" ? "上升" : "下降"} ${fmtV(Math.abs(c.delta))}）`),
+          ...detection.anomalies.slice(0, 8).map((a) => `- 异常 ${a.series} @${a.minute}m：${fmtV(a.value)}（预期 ${fmtV(a.expected)}，${a.direction === "up" ? "偏高" : "偏低"}，z=${a.z.toFixed(1)}）`),
+        ].join("\n")
+        : "";
     const caption4 = `图4 展示多集分布对比（${distKind}，堆叠）：用于论证“不同剧情功能集 → 情绪/互动结构差异”。`;
 
     return `# 论文图注与快速结论（自动生成）
 
-## 数据概况（第${ep}集）
+## 数据概况（${epName}）
 - 弹幕总数：${danmuTotal}
 - 每分钟平均弹幕密度：${density}
 - 根评论数：${rootCnt}
@@ -994,20 +936,24 @@ export default function FanrenDashboard() {
 - ${caption4}
 
 ## 快速结论句式（可改写）
-- 第${ep}集中，弹幕更偏向“即时情绪/仪式性互动”（Top功能：${topFunc}），根评论更偏向“解释/评价/叙述式表达”（情绪Top：${topRootEmo}）。
-- 时间轴上，${intervalSeriesKey} 在 ${peak?.minute ?? "—"} 分钟附近出现峰值，并在 Top 区间内集中爆发，可对应剧情高能段落进行质性补充。
+- ${epName}中，弹幕更偏向“即时情绪/仪式性互动”（Top功能：${topFunc}），根评论更偏向“解释/评价/叙述式表达”（情绪Top：${topRootEmo}）。
+- 时间轴上，${intervalSeriesKey} 在 ${peak?.minute ?? "—"} 分钟附近出现峰值，并在 Top 区间内集中爆发，${sceneSummary ? "对应剧情段落见下方“剧情段落对照”" : "可对应剧情高能段落进行质性补充"}。
 
-${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
+${sceneSummary ? `## 剧情段落对照（${epName}）\n${sceneSummary}\n` : ""}
+${changeSummary ? `## 变点与异常（${epName}，${curveMode}）\n${changeSummary}\n` : ""}
+${compareMode ? `## 多集对比要点（${compareSeries}，横轴=${alignLabel}）\n${cmpSummary}` : ""}
+
+${distTest ? distTestMarkdown(distTest) : ""}
 
 ## 导出说明
 - 图像：使用界面 PNG 按钮或“一键导出图包”
 - 图包：包含主要图 + 本报告（md）
 `;
-  }, [activeEp, epStats, danmuEmo, comRootEmo, danmuFunc, curveData, intervalSeriesKey, intervalsSingle, compareMode, compareCurveCombined, compareEps, comparePeaks, intervalsCompare, compareSeries, curveMode, distKind, topNFunc]);
+  }, [activeEp, epStats, danmuEmo, comRootEmo, danmuFunc, curveData, intervalSeriesKey, intervalsSingle, compareMode, compareCurveCombined, compareEps, comparePeaks, intervalsCompare, compareSeries, curveMode, distKind, topNFunc, distTest, tables, store.tablesByEp, alignMode, anchorKey, compareAlign, curveTransform, detection]);
 
   const exportPack = useCallback(async () => {
     const zip = new JSZip();
-    const ep = activeEp ?? "unknown";
+    const ep = activeEp ? episodeFileTag(activeEp) : "unknown";
     try {
       if (emoChartRef.current) zip.file(`ep${ep}/fig_emo_dist.png`, await exportNodeAsPngBlob(emoChartRef.current));
     } catch (_err) {
@@ -1020,7 +966,8 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
     }
     try {
       if (curveChartRef.current) {
-        const name = compareMode ? `compare_${curveMode}_${compareSeries}.png` : `ep${ep}_curve_${curveMode}.png`;
+        const tag = transformFileTag(curveTransform);
+        const name = compareMode ? `compare_${curveMode}_${compareSeries}${tag}.png` : `ep${ep}_curve_${curveMode}${tag}.png`;
         zip.file(`figs/${name}`, await exportNodeAsPngBlob(curveChartRef.current));
       }
     } catch (_err) {
@@ -1035,11 +982,11 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
     zip.file(`report_${Date.now()}.md`, md);
     const blob = await zip.generateAsync({ type: "blob" });
     downloadBlob(`fanren_fig_pack_${Date.now()}.zip`, blob);
-  }, [activeEp, compareMode, curveMode, compareSeries, distKind, generateReportMarkdown]);
+  }, [activeEp, compareMode, curveMode, compareSeries, distKind, generateReportMarkdown, curveTransform]);
 
   const buildReport = useCallback(() => {
     const md = generateReportMarkdown();
-    setReportTitle(`report_ep${activeEp ?? "unknown"}_${Date.now()}.md`);
+    setReportTitle(`report_ep${activeEp ? episodeFileTag(activeEp) : "unknown"}_${Date.now()}.md`);
     setReportText(md);
   }, [generateReportMarkdown, activeEp]);
 
@@ -1062,11 +1009,15 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                   </div>
                 </div>
                 <div className="flex flex-wrap items-center gap-2">
-                  <input ref={inputRef} className="hidden" type="file" multiple accept=".zip,.csv,.json" onChange={onPickFiles} />
+                  <input ref={inputRef} className="hidden" type="file" multiple accept=".zip,.csv,.json,.xml" onChange={onPickFiles} />
                   <Button onClick={() => inputRef.current?.click()}>
                     <Upload className="h-4 w-4" />
                     上传文件/Zip
                   </Button>
+                  <Button variant="secondary" onClick={() => setShowMapping((v) => !v)}>
+                    <FileCog className="h-4 w-4" />
+                    文件映射
+                  </Button>
                   <Button variant="secondary" onClick={exportPack} disabled={!ready}>
                     <FileDown className="h-4 w-4" />
                     一键导出图包
@@ -1077,7 +1028,8 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                 <Badge variant="default">自动图注</Badge>
                 <Badge>多集对比</Badge>
                 <Badge>PNG 导出</Badge>
-                {uploadSummary ? <Badge>已加载 {uploadSummary.count} 个文件 · {uploadSummary.sizeLabel}</Badge> : <Badge>支持 CSV / JSON / ZIP</Badge>}
+                {sessionId ? <Badge>会话：{sessions.find((x) => x.id === sessionId)?.name ?? "—"}</Badge> : null}
+                {uploadSummary ? <Badge>已加载 {uploadSummary.count} 个文件 · {uploadSummary.sizeLabel}</Badge> : <Badge>支持 CSV / JSON / XML / ZIP</Badge>}
               </div>
             </CardHeader>
             <CardContent className="pt-0">
@@ -1085,22 +1037,51 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                 <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
                   <div className="flex items-center justify-between gap-4">
                     <div className="text-sm text-slate-500">{loading.label}</div>
-                    <div className="w-40">
-                      <Progress value={loading.progress} />
+                    <div className="flex items-center gap-2">
+                      <div className="w-40">
+                        <Progress value={loading.progress} />
+                      </div>
+                      <Button variant="secondary" className="px-2 py-1 text-xs" onClick={cancelIngest}>
+                        取消
+                      </Button>
                     </div>
                   </div>
                 </div>
               ) : null}
-              {loadError ? (
+              {ingestReport.length ? (
+                <div className="mt-3">
+                  <IngestReportPanel entries={ingestReport} onDismiss={() => setIngestReport([])} />
+                </div>
+              ) : null}
+              {sessionError ? (
                 <Alert className="mt-3">
-                  <AlertTitle>文件解析失败</AlertTitle>
-                  <AlertDescription>{loadError}</AlertDescription>
+                  <AlertTitle>会话存储出错</AlertTitle>
+                  <AlertDescription>{sessionError}</AlertDescription>
                 </Alert>
               ) : null}
 
+              <div className="mt-3">
+                <SessionPanel
+                  sessions={sessions}
+                  currentId={sessionId}
+                  busy={sessionBusy || !!loading}
+                  onRestore={onRestoreSession}
+                  onRename={onRenameSession}
+                  onDuplicate={onDuplicateSession}
+                  onDelete={onDeleteSession}
+                  onNew={onNewSession}
+                />
+              </div>
+
+              {showMapping ? (
+                <div className="mt-3">
+                  <FileMappingPanel mapping={fileMapping} onChange={setFileMapping} onIngest={ingestFiles} busy={!!loading} />
+                </div>
+              ) : null}
+
               {ready ? null : (
                 <div className="mt-4">
-                  <EmptyState title="还没有数据" desc="请上传 outputs 的 zip（推荐）或 outputs/tables 下的 csv/json 文件。" />
+                  <EmptyState title="还没有数据" desc="请上传 outputs 的 zip（推荐）或 outputs/tables 下的 csv/json 文件；也可以直接上传 B 站弹幕 XML 与评论 JSON/CSV，由浏览器现场聚合。" />
                 </div>
               )}
             </CardContent>
@@ -1139,17 +1120,26 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
 
                 <div className="mt-4 grid grid-cols-1 lg:grid-cols-3 gap-3">
                   <div className="lg:col-span-2">
-                    <div className="flex items-center justify-between gap-3">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
                       <div className="flex items-center gap-2">
                         <Switch checked={compareMode} onCheckedChange={setCompareMode} />
                         <Label>对比模式（多集曲线）</Label>
                       </div>
 
                       {compareMode ? (
-                        <div className="flex items-center gap-2">
-                          <Label className="whitespace-nowrap">对比维度</Label>
-                          <NativeSelect value={compareSeries} onChange={setCompareSeries} options={compareSeriesOptions} className="w-56" />
-                        </div>
+                        <>
+                          <div className="flex items-center gap-2">
+                            <Label className="whitespace-nowrap">对比维度</Label>
+                            <NativeSelect value={compareSeries} onChange={setCompareSeries} options={compareSeriesOptions} className="w-56" />
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Label className="whitespace-nowrap">横轴对齐</Label>
+                            <NativeSelect value={alignMode} onChange={(v) => setAlignMode(v as AlignMode)} options={ALIGN_MODE_OPTIONS} className="w-44" />
+                            {alignMode === "anchor" ? (
+                              <NativeSelect value={anchorKey} onChange={(v) => setAnchorKey(v as AnchorKey)} options={ANCHOR_KEYS.map((k) => ({ label: ANCHOR_LABEL[k], value: k }))} className="w-32" />
+                            ) : null}
+                          </div>
+                        </>
                       ) : (
                         <div className="flex items-center gap-2">
                           <Label className="whitespace-nowrap">Top区间维度</Label>
@@ -1159,9 +1149,33 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                     </div>
 
                     <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
-                      <div className="flex items-center gap-2 rounded-xl border border-slate-200 bg-white p-3">
-                        <Switch checked={markPeak} onCheckedChange={setMarkPeak} />
-                        <Label>标注峰值</Label>
+                      <div className="flex flex-col justify-center gap-3 rounded-xl border border-slate-200 bg-white p-3">
+                        <div className="flex items-center gap-2">
+                          <Switch checked={markPeak} onCheckedChange={setMarkPeak} />
+                          <Label>标注峰值</Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Switch checked={markScenes} onCheckedChange={setMarkScenes} />
+                          <Label>标注剧情段落</Label>
+                        </div>
+                        {!compareMode ? (
+                          <div className="flex items-center gap-2">
+                            <Switch checked={markChanges} onCheckedChange={setMarkChanges} />
+                            <Label>变点 / 异常检测</Label>
+                          </div>
+                        ) : null}
+                        {!compareMode ? (
+                          <div className="flex items-center gap-2">
+                            <Switch checked={markBursts} onCheckedChange={setMarkBursts} />
+                            <Label>刷屏事件轨</Label>
+                          </div>
+                        ) : null}
+                        {!compareMode ? (
+                          <div className="flex items-center gap-2">
+                            <Switch checked={showBurstDensity} onCheckedChange={setShowBurstDensity} />
+                            <Label>刷屏密度曲线</Label>
+                          </div>
+                        ) : null}
                       </div>
                       <div className="flex items-center gap-2 rounded-xl border border-slate-200 bg-white p-3">
                         <Switch checked={markIntervals} onCheckedChange={setMarkIntervals} />
@@ -1181,23 +1195,86 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                       </div>
                     </div>
 
+                    <div className="mt-3 flex flex-wrap items-center gap-3 rounded-xl border border-slate-200 bg-white p-3">
+                      <Label className="whitespace-nowrap">曲线变换</Label>
+                      <NativeSelect
+                        value={curveTransform.scale}
+                        onChange={(v) => setCurveTransform((prev) => ({ ...prev, scale: v as CurveScale }))}
+                        options={CURVE_SCALE_OPTIONS}
+                        className="w-56"
+                      />
+                      <NativeSelect
+                        value={curveTransform.smooth}
+                        onChange={(v) => setCurveTransform((prev) => ({ ...prev, smooth: v as CurveSmooth }))}
+                        options={CURVE_SMOOTH_OPTIONS}
+                        className="w-44"
+                      />
+                      {curveTransform.smooth === "ma" ? (
+                        <div className="flex items-center gap-2">
+                          <Label className="whitespace-nowrap">窗口</Label>
+                          <Input
+                            type="number"
+                            min={2}
+                            max={15}
+                            value={curveTransform.window}
+                            onChange={(e) => setCurveTransform((prev) => ({ ...prev, window: Math.max(2, Math.min(15, Number(e.target.value) || 3)) }))}
+                            className="w-20"
+                          />
+                        </div>
+                      ) : null}
+                      {curveTransform.smooth === "ewma" ? (
+                        <div className="flex items-center gap-2">
+                          <Label className="whitespace-nowrap">α</Label>
+                          <Input
+                            type="number"
+                            min={0.05}
+                            max={1}
+                            step={0.05}
+                            value={curveTransform.alpha}
+                            onChange={(e) => setCurveTransform((prev) => ({ ...prev, alpha: Math.max(0.05, Math.min(1, Number(e.target.value) || 0.4)) }))}
+                            className="w-20"
+                          />
+                        </div>
+                      ) : null}
+                      <span className="text-xs text-slate-500">峰值、Top 区间与 PNG 导出均使用变换后的曲线。</span>
+                    </div>
+
                     {compareMode ? (
                       <div className="mt-3 rounded-xl border border-slate-200 bg-white p-3">
                         <div className="text-sm font-medium mb-2">选择参与曲线对比的集数</div>
-                        <div className="flex flex-wrap gap-2">
-                          {store.episodes.map((ep) => (
-                            <ChipCheckbox key={ep} checked={compareEps.includes(ep)} label={`第${ep}集`} onChange={() => toggleCompareEp(ep)} />
-                          ))}
-                        </div>
+                        <EpisodeChips episodes={store.episodes} selected={compareEps} onToggle={toggleCompareEp} onSelectMany={(eps, on) => setCompareEps(selectEps(eps, on))} anchor={activeEp} onSetSelected={setCompareEps} />
                         <div className="mt-2 text-xs text-slate-500">建议选 2–4 集：开篇设定集 / 日常铺垫集 / 高能剧情集（例如结婴）。</div>
+                        {alignMode === "anchor" && compareEps.length ? (
+                          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {compareEps.map((ep) => {
+                              const anchors = episodeAnchors(store.tablesByEp[ep]);
+                              return (
+                                <div key={ep} className="flex items-center gap-2 text-sm">
+                                  <span className="w-28 shrink-0 truncate">{episodeLabel(ep)}</span>
+                                  {ANCHOR_KEYS.map((k) => (
+                                    <Input
+                                      key={k}
+                                      type="number"
+                                      min={0}
+                                      placeholder={ANCHOR_LABEL[k]}
+                                      title={`${ANCHOR_LABEL[k]}（分钟）`}
+                                      value={anchors[k] ?? ""}
+                                      onChange={(e) => updateAnchors(ep, { ...anchors, [k]: e.target.value === "" ? undefined : Math.max(0, Number(e.target.value) || 0) })}
+                                    />
+                                  ))}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        ) : null}
                       </div>
                     ) : null}
                   </div>
 
                   <div className="grid grid-cols-2 gap-3 lg:grid-cols-2">
                     <StatCard title="弹幕条数" value={(epStats as any)?.byStats?.danmu_total ?? (epStats as any)?.basic?.danmu_total ?? "—"} hint={<span>每分钟平均密度：{fmtNum((epStats as any)?.byStats?.minute_avg_density ?? (epStats as any)?.basic?.minute_avg_density, 1)}</span>} />
-                    <StatCard title="根评论数" value={(epStats as any)?.byStats?.root_cnt ?? "—"} hint={<span>（parent=0）</span>} />
-                    <StatCard title="回复数" value={(epStats as any)?.byStats?.reply_cnt ?? "—"} hint={<span>（parent!=0）</span>} />
+                    <StatCard title="根评论数" value={(epStats as any)?.byStats?.root_cnt ?? (epStats as any)?.basic?.root_cnt ?? "—"} hint={<span>（parent=0）</span>} />
+                    <StatCard title="回复数" value={(epStats as any)?.byStats?.reply_cnt ?? (epStats as any)?.basic?.reply_cnt ?? "—"} hint={<span>（parent!=0）</span>} />
                     {/* <StatCard title="写作助手" value={<span className="text-base">图注/结论</span>} hint={<span>见「图注&导出」</span>} /> */}
                   </div>
                 </div>
@@ -1206,11 +1283,20 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
             </Card>
 
             <Tabs defaultValue="charts" className="mt-4">
-              <TabsList>
+              <TabsList className="flex-wrap">
                 <TabsTrigger value="charts"><BarChart3 className="h-4 w-4" />单集图表</TabsTrigger>
+                <TabsTrigger value="season"><TrendingUp className="h-4 w-4" />全季概览</TabsTrigger>
+                <TabsTrigger value="cluster"><ChartScatter className="h-4 w-4" />分集聚类</TabsTrigger>
                 <TabsTrigger value="compare"><Layers className="h-4 w-4" />多集分布对比</TabsTrigger>
                 <TabsTrigger value="curves"><Activity className="h-4 w-4" />时间曲线</TabsTrigger>
+                <TabsTrigger value="correlation"><Grid3x3 className="h-4 w-4" />相关与滞后</TabsTrigger>
+                <TabsTrigger value="terms"><Cloud className="h-4 w-4" />词项探索</TabsTrigger>
+                <TabsTrigger value="bursts"><Flame className="h-4 w-4" />刷屏梗</TabsTrigger>
                 <TabsTrigger value="tables"><TableIcon className="h-4 w-4" />表格</TabsTrigger>
+                <TabsTrigger value="divergence"><GitCompare className="h-4 w-4" />来源差异</TabsTrigger>
+                <TabsTrigger value="agreement"><Scale className="h-4 w-4" />词典vs模型</TabsTrigger>
+                <TabsTrigger value="lexicon"><BookOpen className="h-4 w-4" />词典打标</TabsTrigger>
+                <TabsTrigger value="quality"><ShieldCheck className="h-4 w-4" />数据质量</TabsTrigger>
                 <TabsTrigger value="report"><Wand2 className="h-4 w-4" />图注&导出</TabsTrigger>
               </TabsList>
 
@@ -1223,7 +1309,7 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                         desc="ratio 为占比；悬停查看 cnt 与占比。"
                         onExport={async () => {
                           if (!emoChartRef.current || !activeEp) return;
-                          await exportNodeAsPng(emoChartRef.current, `ep${activeEp}_emo_dist.png`);
+                          await exportNodeAsPng(emoChartRef.current, `ep${episodeFileTag(activeEp)}_emo_dist.png`);
                         }}
                       />
                     </CardHeader>
@@ -1258,12 +1344,14 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                     <CardHeader className="pb-2">
                       <CardTitle className="text-base flex items-center gap-2">
                         <Sparkles className="h-4 w-4" />
-                        模型极性分布（model_emo，仅统计 model_used=True）
+                        模型极性分布（弹幕 / 根评 / 回复，仅统计 model_used=True）
                       </CardTitle>
                       <CardDescription className="text-xs">
                         {usageDanmu ? `弹幕：${Math.round(safeNumber(usageDanmu.ratio) * 100)}% 调用覆盖` : "弹幕：未上传 model_usage 表"}
                         {" · "}
                         {usageRoot ? `根评：${Math.round(safeNumber(usageRoot.ratio) * 100)}% 调用覆盖` : "根评：未上传 model_usage 表"}
+                        {" · "}
+                        {usageReply ? `回复：${Math.round(safeNumber(usageReply.ratio) * 100)}% 调用覆盖` : "回复：model_usage 中无 comment_reply 行"}
                       </CardDescription>
                     </CardHeader>
                     <CardContent>
@@ -1274,14 +1362,20 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                               <CartesianGrid strokeDasharray="3 3" />
                               <XAxis dataKey="label" tick={{ fontSize: 12 }} />
                               <YAxis tickFormatter={(v) => `${Math.round((v as number) * 100)}%`} />
-                              <Tooltip formatter={(v: any) => `${Math.round((v as number) * 1000) / 10}%`} />
+                              <Tooltip
+                                formatter={(v: any, name: any, props: any) => {
+                                  const src = String(props?.dataKey ?? "");
+                                  return [`${Math.round((v as number) * 1000) / 10}%（cnt=${props?.payload?.[`${src}_cnt`] ?? 0}）`, name];
+                                }}
+                              />
                               <Legend />
                               <Bar dataKey="danmaku" name="弹幕" fill={colorForKey("pos", "emo")} />
-                              <Bar dataKey="comment" name="根评论" fill={colorForKey("neg", "emo")} />
+                              <Bar dataKey="root" name="根评论" fill={colorForKey("neg", "emo")} />
+                              <Bar dataKey="reply" name="回复" fill={colorForKey("self_mock", "emo")} />
                             </BarChart>
                           </ResponsiveContainer>
                         ) : (
-                          <EmptyState title="暂无数据" desc="请上传 tables/ 下的 danmaku_model_emo_dist_ep*.csv、comment_root_model_emo_dist_ep*.csv" />
+                          <EmptyState title="暂无数据" desc="请上传 tables/ 下的 danmaku_model_emo_dist_ep*.csv、comment_root_model_emo_dist_ep*.csv、comment_reply_model_emo_dist_ep*.csv" />
                         )}
                       </div>
                       <div className="mt-3 text-xs text-slate-600">
@@ -1298,7 +1392,7 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                         desc="颜色为稳定映射：同一功能在不同图/不同集颜色一致。"
                         onExport={async () => {
                           if (!funcChartRef.current || !activeEp) return;
-                          await exportNodeAsPng(funcChartRef.current, `ep${activeEp}_func_dist.png`);
+                          await exportNodeAsPng(funcChartRef.current, `ep${episodeFileTag(activeEp)}_func_dist.png`);
                         }}
                       />
                     </CardHeader>
@@ -1328,6 +1422,21 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                 </div>
               </TabsContent>
 
+              <TabsContent value="season" className="mt-4">
+                <SeasonPanel
+                  activeEp={activeEp}
+                  episodes={store.episodes}
+                  episodeStats={store.episodeStats}
+                  basicStatsByEp={store.basicStatsByEp}
+                  tablesByEp={store.tablesByEp}
+                  onPickEpisode={setActiveEp}
+                />
+              </TabsContent>
+
+              <TabsContent value="cluster" className="mt-4">
+                <ClusterPanel activeEp={activeEp} episodes={store.episodes} tablesByEp={store.tablesByEp} onPickEpisode={setActiveEp} />
+              </TabsContent>
+
               <TabsContent value="compare" className="mt-4">
                 <Card>
                   <CardHeader>
@@ -1347,15 +1456,7 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                         <NativeSelect
                           value={distKind}
                           onChange={(v) => setDistKind(v as any)}
-                          options={[
-                            { label: "弹幕情绪分布（堆叠）", value: "emo_danmaku" },
-                            { label: "根评论情绪分布（堆叠）", value: "emo_comment_root" },
-                            { label: "回复评论情绪分布（堆叠）", value: "emo_comment_reply" },
-                            { label: "弹幕功能分布（TopN+other）", value: "func_danmaku" },
-                            { label: "评论功能分布（总体）", value: "func_comment_all" },
-                            { label: "评论功能分布（根评）", value: "func_comment_root" },
-                            { label: "评论功能分布（回复）", value: "func_comment_reply" },
-                          ]}
+                          options={DIST_KIND_OPTIONS}
                           className="mt-2"
                         />
                         {distKind.startsWith("func_") ? (
@@ -1371,18 +1472,14 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
 
                       <div className="lg:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
                         <div className="text-sm font-medium mb-2">选择参与分布对比的集数</div>
-                        <div className="flex flex-wrap gap-2">
-                          {store.episodes.map((ep) => (
-                            <ChipCheckbox key={ep} checked={distCompareEps.includes(ep)} label={`第${ep}集`} onChange={() => toggleDistEp(ep)} />
-                          ))}
-                        </div>
+                        <EpisodeChips episodes={store.episodes} selected={distCompareEps} onToggle={toggleDistEp} onSelectMany={(eps, on) => setDistCompareEps(selectEps(eps, on))} anchor={activeEp} onSetSelected={setDistCompareEps} />
                         <div className="mt-2 text-xs text-slate-500">建议：开篇/设定集 + 铺垫集 + 高能集（形成结构差异）。</div>
 
                         {distCompareMissing.missingEps.length ? (
                           <Alert className="mt-3">
                             <AlertTitle>部分集数缺少所需表</AlertTitle>
                             <AlertDescription>
-                              当前对比类型需要 <code>{distCompareMissing.filePattern}</code>。缺失集：{distCompareMissing.missingEps.map((e) => `第${e}集`).join("、")}。
+                              当前对比类型需要 <code>{distCompareMissing.filePattern}</code>。缺失集：{distCompareMissing.missingEps.map((e) => episodeLabel(e)).join("、")}。
                               （旧 zip 上传也不会报错，但该集将无法参与此对比）
                             </AlertDescription>
                           </Alert>
@@ -1405,11 +1502,13 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                           </BarChart>
                         </ResponsiveContainer>
                       ) : (
-                        <EmptyState title="缺少多集分布数据" desc="请上传所选集数的 dist 表（danmaku_emo_dist / comment_root_emo_dist / comment_reply_emo_dist / *_func_dist）。" />
+                        <EmptyState title="缺少多集分布数据" desc="请上传所选集数的 dist 表（danmaku_emo_dist / comment_root_emo_dist / comment_reply_emo_dist / *_model_emo_dist / *_func_dist）。" />
                       )}
                     </div>
                   </CardContent>
                 </Card>
+
+                {distCompareEps.length >= 2 ? <DistTestCard test={distTest} method={distTestMethod} onMethodChange={setDistTestMethod} /> : null}
               </TabsContent>
 
               <TabsContent value="curves" className="mt-4">
@@ -1417,10 +1516,11 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                   <CardHeader>
                     <SectionHeader
                       title={`弹幕时间曲线（minute × ${curveMode}）${compareMode ? ` · 多集对比（${compareSeries}）` : ""}`}
-                      desc="Top区间：按窗口自动找 TopK 非重叠高峰区间，并用阴影标注。"
+                      desc={`Top区间：按窗口自动找 TopK 非重叠高峰区间，并用阴影标注。${drillable(compareMode ? compareDrillEp : activeEp) ? "点击任一分钟、峰值或阴影区间可查看该时间窗内的弹幕。" : ""}`}
                       onExport={async () => {
                         if (!curveChartRef.current) return;
-                        const name = compareMode ? `compare_${curveMode}_${compareSeries}.png` : `ep${activeEp}_curve_${curveMode}.png`;
+                        const tag = transformFileTag(curveTransform);
+                        const name = compareMode ? `compare_${curveMode}_${compareSeries}${tag}.png` : `ep${episodeFileTag(activeEp ?? "unknown")}_curve_${curveMode}${tag}.png`;
                         await exportNodeAsPng(curveChartRef.current, name);
                       }}
                     />
@@ -1431,28 +1531,48 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                       {compareMode ? (
                         (compareCurveCombined as any[]).length ? (
                           <ResponsiveContainer width="100%" height="100%">
-                            <RLineChart data={compareCurveCombined as any[]} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                            <RLineChart
+                              data={compareCurveCombined as any[]}
+                              margin={{ top: 10, right: 12, left: 0, bottom: 10 }}
+                              onClick={(e: any) => {
+                                if (e?.activeLabel == null || !compareDrillEp) return;
+                                const m = toEpMinute(compareDrillEp, Number(e.activeLabel));
+                                openDrill(compareDrillEp, m, m, "minute");
+                              }}
+                              style={drillable(compareDrillEp) ? { cursor: "pointer" } : undefined}
+                            >
                               <CartesianGrid strokeDasharray="3 3" />
-                              <XAxis dataKey="minute" tick={{ fontSize: 12 }} />
-                              <YAxis />
-                              <Tooltip />
+                              <XAxis dataKey="minute" tick={{ fontSize: 12 }} tickFormatter={(v) => fmtX(Number(v))} />
+                              <YAxis tickFormatter={fmtY} label={curveYAxisLabel} />
+                              <Tooltip labelFormatter={(v) => fmtX(Number(v))} formatter={(v: any) => fmtY(v)} />
                               <Legend />
                               {markIntervals
                                 ? compareEps.flatMap((ep) => {
                                   const epKey = `ep${ep}`;
                                   const ints = (intervalsCompare as any)[epKey] ?? [];
-                                  return ints.map((it: any, idx: number) => <ReferenceArea key={`${epKey}-${idx}`} x1={it.start} x2={it.end} fill={compareColors[epKey]} fillOpacity={0.08} strokeOpacity={0} />);
+                                  return ints.map((it: any, idx: number) => (
+                                    <ReferenceArea key={`${epKey}-${idx}`} x1={it.start} x2={it.end} fill={compareColors[epKey]} fillOpacity={0.08} strokeOpacity={0} onClick={compareDrillHandler(ep, it.start, it.end, "interval")} />
+                                  ));
                                 })
                                 : null}
 
                               {compareEps.map((ep) => {
                                 const epKey = `ep${ep}`;
-                                return <Line key={epKey} type="monotone" dataKey={epKey} name={`第${ep}集`} dot={false} strokeWidth={2.5} stroke={compareColors[epKey]} activeDot={{ r: 4 }} />;
+                                return <Line key={epKey} type="monotone" dataKey={epKey} name={episodeLabel(ep)} dot={false} strokeWidth={2.5} stroke={compareColors[epKey]} activeDot={{ r: 4 }} />;
                               })}
 
                               {markPeak ? (
                                 (comparePeaks as any[]).map((p) => (
-                                  <ReferenceDot key={p.epKey} x={p.minute} y={p.value} r={4} fill={compareColors[p.epKey]} stroke="white" label={{ value: `峰值@${p.minute}m`, position: "top", fontSize: 12 }} />
+                                  <ReferenceDot
+                                    key={p.epKey}
+                                    x={p.minute}
+                                    y={p.value}
+                                    r={4}
+                                    fill={compareColors[p.epKey]}
+                                    stroke="white"
+                                    label={{ value: `峰值@${fmtX(p.minute)}`, position: "top", fontSize: 12 }}
+                                    onClick={compareDotDrillHandler(p.epKey.slice(2), p.minute, p.minute, "peak")}
+                                  />
                                 ))
                               ) : null}
                             </RLineChart>
@@ -1461,32 +1581,93 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                           <EmptyState title="缺少对比曲线表" desc="请确保对比集数都上传了 danmaku_minute_*_curve_ep*.csv（或 zip）。" />
                         )
                       ) : (curveData as any[]).length ? (
-                        <ResponsiveContainer width="100%" height="100%">
-                          <RLineChart data={curveData as any[]} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
-                            <CartesianGrid strokeDasharray="3 3" />
-                            <XAxis dataKey="minute" tick={{ fontSize: 12 }} />
-                            <YAxis />
-                            <Tooltip />
-                            <Legend />
-
-                            {markIntervals && (intervalsSingle as any[]).length ? (intervalsSingle as any[]).map((it, idx) => <ReferenceArea key={idx} x1={it.start} x2={it.end} fill={colorForKey(intervalSeriesKey, curveMode)} fillOpacity={0.10} strokeOpacity={0} />) : null}
-
-                            {curveSeriesKeys.slice(0, 10).map((k) => (
-                              <Line key={k} type="monotone" dataKey={k} dot={false} strokeWidth={2.5} stroke={colorForKey(k, curveMode)} activeDot={{ r: 4 }} />
-                            ))}
-
-                            {markPeak && intervalSeriesKey ? (() => {
-                              const peak = computePeak(curveData as any[], intervalSeriesKey);
-                              if (!peak) return null;
-                              return (
-                                <>
-                                  <ReferenceLine x={peak.minute} stroke="#94a3b8" strokeDasharray="4 4" />
-                                  <ReferenceDot x={peak.minute} y={peak.value} r={4} fill={colorForKey(intervalSeriesKey, curveMode)} stroke="white" label={{ value: `峰值@${peak.minute}m`, position: "top", fontSize: 12 }} />
-                                </>
-                              );
-                            })() : null}
-                          </RLineChart>
-                        </ResponsiveContainer>
+                        <>
+                          <div className={showBurstRug ? "h-[416px]" : "h-full"}>
+                            <ResponsiveContainer width="100%" height="100%">
+                              <RLineChart
+                                data={curveChartData}
+                                margin={{ top: 10, right: 12, left: 0, bottom: 10 }}
+                                onClick={(e: any) => e?.activeLabel != null && openDrill(activeEp, Number(e.activeLabel), Number(e.activeLabel), "minute")}
+                                style={drillable(activeEp) ? { cursor: "pointer" } : undefined}
+                              >
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="minute" tick={{ fontSize: 12 }} />
+                                <YAxis tickFormatter={fmtY} label={curveYAxisLabel} />
+                                {showBurstAxis ? <YAxis yAxisId="burst" orientation="right" allowDecimals={false} /> : null}
+                                <Tooltip formatter={(v: any, _name: any, item: any) => (item?.dataKey === BURST_DENSITY_KEY ? String(v) : fmtY(v))} />
+                                <Legend />
+
+                                {sceneBands.map(({ scene, x1, x2 }, idx) => (
+                                  <ReferenceArea
+                                    key={`scene-${idx}`}
+                                    x1={x1}
+                                    x2={x2}
+                                    fill={sceneColor(scene.tag)}
+                                    fillOpacity={0.06}
+                                    stroke={sceneColor(scene.tag)}
+                                    strokeOpacity={0.3}
+                                    strokeDasharray="3 3"
+                                    label={{ value: scene.tag ? `${scene.label}·${scene.tag}` : scene.label, position: "insideTopLeft", fontSize: 11, fill: sceneColor(scene.tag) }}
+                                  />
+                                ))}
+
+                                {markIntervals && (intervalsSingle as any[]).length ? (intervalsSingle as any[]).map((it, idx) => (
+                                  <ReferenceArea key={idx} x1={it.start} x2={it.end} fill={colorForKey(intervalSeriesKey, curveMode)} fillOpacity={0.10} strokeOpacity={0} onClick={drillHandler(activeEp, it.start, it.end, "interval")} />
+                                )) : null}
+
+                                {curveSeriesKeys.slice(0, 10).map((k) => (
+                                  <Line key={k} type="monotone" dataKey={k} dot={false} strokeWidth={2.5} stroke={colorForKey(k, curveMode)} activeDot={{ r: 4 }} />
+                                ))}
+
+                                {markPeak && intervalSeriesKey ? (() => {
+                                  const peak = computePeak(curveData as any[], intervalSeriesKey);
+                                  if (!peak) return null;
+                                  return (
+                                    <>
+                                      <ReferenceLine x={peak.minute} stroke="#94a3b8" strokeDasharray="4 4" />
+                                      <ReferenceDot
+                                        x={peak.minute}
+                                        y={peak.value}
+                                        r={4}
+                                        fill={colorForKey(intervalSeriesKey, curveMode)}
+                                        stroke="white"
+                                        label={{ value: `峰值@${peak.minute}m`, position: "top", fontSize: 12 }}
+                                        onClick={dotDrillHandler(activeEp, peak.minute, peak.minute, "peak")}
+                                      />
+                                    </>
+                                  );
+                                })() : null}
+
+                                {detection?.changes.filter((c) => c.series === changeMarkKey).map((c, idx) => (
+                                  <ReferenceLine
+                                    key={`cp-${idx}`}
+                                    x={c.minute}
+                                    stroke={colorForKey(c.series, curveMode)}
+                                    strokeDasharray="2 3"
+                                    label={{ value: c.direction === "up" ? "▲" : "▼", position: "insideTop", fontSize: 11, fill: colorForKey(c.series, curveMode) }}
+                                  />
+                                ))}
+                                {detection?.anomalies.filter((a) => a.series === changeMarkKey).map((a, idx) => (
+                                  <ReferenceDot key={`an-${idx}`} x={a.minute} y={a.value} r={6} fill="none" stroke="#dc2626" strokeWidth={2} onClick={dotDrillHandler(activeEp, a.minute, a.minute, "minute")} />
+                                ))}
+
+                                {showBurstAxis ? (
+                                  <Line yAxisId="burst" type="stepAfter" dataKey={BURST_DENSITY_KEY} name="刷屏密度（条/分钟）" dot={false} strokeWidth={1.5} stroke="#f97316" strokeDasharray="4 2" />
+                                ) : null}
+                              </RLineChart>
+                            </ResponsiveContainer>
+                          </div>
+                          {showBurstRug ? (
+                            <div className="h-[64px]">
+                              <BurstRugChart
+                                items={burstEvents}
+                                domain={curveMinuteDomain}
+                                rightInset={showBurstAxis ? 60 : 0}
+                                onPickMinute={drillable(activeEp) ? (m) => openDrill(activeEp, m, m, "minute") : undefined}
+                              />
+                            </div>
+                          ) : null}
+                        </>
                       ) : (
                         <EmptyState title="缺少 minute 曲线表" desc={`请上传 danmaku_minute_${curveMode}_curve_ep*.csv（或 zip）。`} />
                       )}
@@ -1498,7 +1679,11 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                         {(intervalsSingle as any[]).length ? (
                           <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
                             {(intervalsSingle as any[]).map((it, i) => (
-                              <div key={i} className="rounded-xl border border-slate-200 p-3">
+                              <div
+                                key={i}
+                                className={drillable(activeEp) ? "rounded-xl border border-slate-200 p-3 cursor-pointer hover:bg-slate-50" : "rounded-xl border border-slate-200 p-3"}
+                                onClick={() => openDrill(activeEp, it.start, it.end, "interval")}
+                              >
                                 <div className="text-sm font-semibold">区间 {i + 1}: {it.start}m–{it.end}m</div>
                                 <div className="text-xs text-slate-500 mt-1">强度：{it.score.toFixed(2)}</div>
                               </div>
@@ -1518,9 +1703,10 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                             const ints = (intervalsCompare as any)[epKey] ?? [];
                             return (
                               <div key={ep} className="rounded-xl border border-slate-200 p-3">
-                                <div className="text-sm font-semibold">第{ep}集</div>
-                                <div className="text-xs text-slate-500 mt-1">峰值：@{p?.minute ?? "—"}m</div>
-                                <div className="text-xs text-slate-500 mt-1">Top区间：{ints.slice(0, 3).map((it: any) => `${it.start}–${it.end}m`).join("、") || "—"}</div>
+                                <div className="text-sm font-semibold">{episodeLabel(ep)}</div>
+                                <div className="text-xs text-slate-500 mt-1">峰值：@{p ? fmtX(p.minute) : "—"}</div>
+                                <div className="text-xs text-slate-500 mt-1">Top区间：{ints.slice(0, 3).map((it: any) => `${fmtX(it.start)}–${fmtX(it.end)}`).join("、") || "—"}</div>
+                                {compareAlign[ep]?.anchorMissing ? <div className="text-xs text-amber-600 mt-1">未设置{ANCHOR_LABEL[anchorKey]}，按 0 分钟对齐</div> : null}
                               </div>
                             );
                           })}
@@ -1529,6 +1715,47 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                     )}
                   </CardContent>
                 </Card>
+
+                {detection ? (
+                  <div className="mt-4">
+                    <ChangePointPanel
+                      detection={detection}
+                      mode={curveMode}
+                      focus={changeFocusKey}
+                      focusOptions={[{ label: "全部维度", value: "" }, ...curveSeriesKeys.slice(0, 10).map((k) => ({ label: k, value: k }))]}
+                      onFocus={setChangeFocus}
+                      options={changeOptions}
+                      onOptions={setChangeOptions}
+                      fmtValue={fmtY}
+                      onPickMinute={drillable(activeEp) ? (m) => openDrill(activeEp, m, m, "minute") : undefined}
+                      exportName={`ep${episodeFileTag(activeEp ?? "unknown")}_changepoints_${curveMode}${transformFileTag(curveTransform)}.csv`}
+                    />
+                  </div>
+                ) : null}
+
+                {!compareMode ? (
+                  <div className="mt-4">
+                    <ScenePanel ep={activeEp} scenes={scenesFromRows(tables[TABLE_KEYS.SCENES])} onChange={updateScenes} />
+                  </div>
+                ) : null}
+              </TabsContent>
+
+              <TabsContent value="correlation" className="mt-4">
+                <CorrelationPanel activeEp={activeEp} episodes={store.episodes} tablesByEp={store.tablesByEp} />
+              </TabsContent>
+
+              <TabsContent value="terms" className="mt-4">
+                <TermExplorerPanel activeEp={activeEp} episodes={store.episodes} tablesByEp={store.tablesByEp} />
+              </TabsContent>
+
+              <TabsContent value="bursts" className="mt-4">
+                <BurstClusterPanel
+                  activeEp={activeEp}
+                  episodes={store.episodes}
+                  tablesByEp={store.tablesByEp}
+                  onPickEpisode={setActiveEp}
+                  onOpenMinute={drillable(activeEp) ? (ep, m) => openDrill(ep, m, m, "minute") : undefined}
+                />
               </TabsContent>
 
               <TabsContent value="tables" className="mt-4">
@@ -1566,7 +1793,7 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                   <Card>
                     <CardHeader>
                       <CardTitle>高频词粗看（支撑 3.2.1 词表来源）</CardTitle>
-                      <CardDescription>弹幕/评论切换 + 搜索；用于归纳情绪词/身份词/仪式词。</CardDescription>
+                      <CardDescription>弹幕/评论切换 + 搜索；用于归纳情绪词/身份词/仪式词，右侧下拉可直接归入编码表类别。</CardDescription>
                     </CardHeader>
                     <CardContent>
                       <div className="flex items-center justify-between gap-3 mb-3">
@@ -1582,8 +1809,19 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                           <div className="space-y-2">
                             {filteredTerms.map((r, idx) => (
                               <div key={idx} className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 p-3">
-                                <div className="text-sm font-medium">{r.term}</div>
-                                <Badge>{r.cnt}</Badge>
+                                <div className="flex items-center gap-2 min-w-0">
+                                  <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ background: termDict.terms[r.term] ? categoryColor(termDict.terms[r.term]) : "#e2e8f0" }} />
+                                  <div className="text-sm font-medium truncate">{r.term}</div>
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                  <NativeSelect
+                                    value={termDict.terms[r.term] ?? ""}
+                                    onChange={(v) => setTermDict((prev) => tagTerm(prev, r.term, v))}
+                                    options={[{ label: "未归类", value: "" }, ...termDict.categories.map((c) => ({ label: c.label || c.id, value: c.id }))]}
+                                    className="w-28"
+                                  />
+                                  <Badge>{r.cnt}</Badge>
+                                </div>
                               </div>
                             ))}
                           </div>
@@ -1595,16 +1833,28 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                   </Card>
                 </div>
 
+                <div className="mt-4">
+                  <TermDictionaryPanel episodes={store.episodes} tablesByEp={store.tablesByEp} dict={termDict} onChange={setTermDict} />
+                </div>
+
                 <Card className="mt-4">
                   <CardHeader>
                     <CardTitle>本集已识别的表</CardTitle>
-                    <CardDescription>用于排查缺哪个文件导致某些图表为空。</CardDescription>
+                    <CardDescription>用于排查缺哪个文件导致某些图表为空；点击表名可在下方查看器中打开。</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="flex flex-wrap gap-2">
                       {Object.keys(tables).length ? (
                         Object.keys(tables).map((k) => (
-                          <Badge key={k}>
+                          <Badge
+                            key={k}
+                            className="cursor-pointer hover:bg-slate-200"
+                            onClick={() => {
+                              if (!activeEp) return;
+                              setViewerTable(tableSourceId(activeEp, k));
+                              tableViewerRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+                            }}
+                          >
                             <FileText className="h-3 w-3 mr-1" />
                             {niceKey(k)} ({(tables as any)[k]?.length ?? 0})
                           </Badge>
@@ -1615,6 +1865,31 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
                     </div>
                   </CardContent>
                 </Card>
+
+                <div ref={tableViewerRef}>
+                  <TableViewerPanel store={store} sourceId={viewerTable || (activeEp ? tableSourceId(activeEp, Object.keys(tables)[0] ?? "") : "")} onSourceId={setViewerTable} />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="divergence" className="mt-4">
+                <DivergencePanel activeEp={activeEp} episodes={store.episodes} tablesByEp={store.tablesByEp} />
+              </TabsContent>
+
+              <TabsContent value="agreement" className="mt-4">
+                <AgreementPanel episodes={store.episodes} tablesByEp={store.tablesByEp} onPickEpisode={setActiveEp} />
+              </TabsContent>
+
+              <TabsContent value="lexicon" className="mt-4">
+                <LexiconPanel
+                  episodes={store.episodes}
+                  tablesByEp={store.tablesByEp}
+                  activeEp={activeEp}
+                  onApply={(patches) => setStore((prev) => applyPatches(prev, patches))}
+                />
+              </TabsContent>
+
+              <TabsContent value="quality" className="mt-4">
+                <DataQualityPanel activeEp={activeEp} episodes={store.episodes} tablesByEp={store.tablesByEp} />
               </TabsContent>
 
               <TabsContent value="report" className="mt-4">
@@ -1659,6 +1934,10 @@ ${compareMode ? `## 多集对比要点（${compareSeries})\n${cmpSummary}` : ""}
           </motion.div>
         ) : null}
       </div>
+
+      {drill ? (
+        <DrillDownPanel key={`${drill.ep}-${drill.start}-${drill.end}`} win={drill} tables={store.tablesByEp[drill.ep]} mode={curveMode} onClose={() => setDrill(null)} />
+      ) : null}
     </div>
   );
 }
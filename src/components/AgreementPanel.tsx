@@ -0,0 +1,208 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, CartesianGrid, LineChart as RLineChart, Line, ReferenceLine } from "recharts";
+import { Download, RotateCcw } from "lucide-react";
+
+import { Badge, Button, Card, CardContent, CardHeader, Input, Label, NativeSelect } from "./ui";
+import { ChipCheckbox, EmptyState, SectionHeader } from "./common";
+import {
+  type AgreementRow,
+  type Polarity,
+  type PolarityMapping,
+  AGREEMENT_SOURCES,
+  DEFAULT_POLARITY_MAPPING,
+  computeAgreement,
+  mappingIsDefault,
+} from "../lib/agreement";
+import { EMO_ORDER, stableColorFromKey } from "../lib/colors";
+import { type DistSource, MODEL_EMO_ORDER, SOURCE_LABEL } from "../lib/dists";
+import { episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import { toPercent } from "../lib/format";
+import { usePersistentState } from "../lib/settings";
+import type { TableMap } from "../lib/types";
+
+const POLARITY_OPTIONS = MODEL_EMO_ORDER.map((k) => ({ label: k, value: k }));
+
+function fmtMix(m: Record<Polarity, number>) {
+  return MODEL_EMO_ORDER.map((k) => `${k} ${toPercent(m[k])}`).join(" / ");
+}
+
+export function AgreementPanel({ episodes, tablesByEp, onPickEpisode }: { episodes: string[]; tablesByEp: Record<string, TableMap>; onPickEpisode?: (ep: string) => void }) {
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const [mapping, setMapping] = usePersistentState<PolarityMapping>("agreement.mapping", DEFAULT_POLARITY_MAPPING);
+  const [threshold, setThreshold] = usePersistentState<number>("agreement.threshold", 0.15);
+  const [sources, setSources] = useState<DistSource[]>(AGREEMENT_SOURCES.map((s) => s.source));
+
+  const rows = useMemo(() => computeAgreement(episodes, tablesByEp, mapping, threshold), [episodes, tablesByEp, mapping, threshold]);
+  const visible = useMemo(() => rows.filter((r) => sources.includes(r.source)), [rows, sources]);
+
+  const trend = useMemo(() => {
+    const byEp = new Map<string, Record<string, any>>();
+    for (const r of visible) {
+      const row = byEp.get(r.ep) ?? { episode: episodeLabel(r.ep), ep: r.ep };
+      row[r.source] = r.tvd;
+      byEp.set(r.ep, row);
+    }
+    return episodes.filter((ep) => byEp.has(ep)).map((ep) => byEp.get(ep)!);
+  }, [visible, episodes]);
+
+  const flagged = useMemo(() => visible.filter((r) => r.flagged), [visible]);
+
+  const toggleSource = (s: DistSource) => setSources((prev) => (prev.includes(s) ? prev.filter((x) => x !== s) : [...prev, s]));
+
+  const exportCsv = () => {
+    const out = visible.map((r: AgreementRow) => ({
+      episode: r.ep,
+      source: r.source,
+      ...Object.fromEntries(MODEL_EMO_ORDER.map((k) => [`implied_${k}`, r.implied[k].toFixed(4)])),
+      ...Object.fromEntries(MODEL_EMO_ORDER.map((k) => [`model_${k}`, r.model[k].toFixed(4)])),
+      tvd: r.tvd.toFixed(4),
+      flagged: r.flagged,
+    }));
+    downloadCsv(`lexicon_model_agreement_${Date.now()}.csv`, out);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="词典 emo vs 模型极性 一致性"
+            desc="把 emo 类别映射到 pos/neu/neg，计算“词典推断的极性构成”与 model_emo 构成的总变差距离（TVD），超过阈值的集数会被标出。"
+            onExport={async () => {
+              if (!chartRef.current) return;
+              await exportNodeAsPng(chartRef.current, "agreement_tvd.png");
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+            <div className="lg:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium">emo → 极性 映射</div>
+                <Button variant="secondary" className="px-3 py-1.5" disabled={mappingIsDefault(mapping)} onClick={() => setMapping(DEFAULT_POLARITY_MAPPING)}>
+                  <RotateCcw className="h-4 w-4" />
+                  恢复默认
+                </Button>
+              </div>
+              <div className="mt-3 grid grid-cols-2 md:grid-cols-3 gap-3">
+                {EMO_ORDER.map((k) => (
+                  <div key={k}>
+                    <Label>{k}</Label>
+                    <NativeSelect
+                      className="mt-1"
+                      value={mapping[k] ?? "neu"}
+                      onChange={(v) => setMapping((prev) => ({ ...prev, [k]: v as Polarity }))}
+                      options={POLARITY_OPTIONS}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-slate-500">映射保存在浏览器中；论文方法部分应写明所用映射。</div>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <Label>偏离阈值（TVD）</Label>
+                <span className="text-xs text-slate-500">{threshold.toFixed(2)}</span>
+              </div>
+              <Input
+                type="number"
+                min={0.01}
+                max={1}
+                step={0.01}
+                value={threshold}
+                onChange={(e) => setThreshold(Math.max(0.01, Math.min(1, Number(e.target.value) || 0.15)))}
+                className="mt-2"
+              />
+              <div className="mt-3 text-sm font-medium">来源</div>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {AGREEMENT_SOURCES.map((s) => (
+                  <ChipCheckbox key={s.source} checked={sources.includes(s.source)} label={SOURCE_LABEL[s.source]} onChange={() => toggleSource(s.source)} />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div ref={chartRef} className="h-[340px]">
+            {trend.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <RLineChart data={trend} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="episode" tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, "auto"]} tickFormatter={(v) => (v as number).toFixed(2)} />
+                  <Tooltip formatter={(v: any, name: any) => [(v as number).toFixed(3), SOURCE_LABEL[name as DistSource] ?? name]} />
+                  <Legend formatter={(v: any) => SOURCE_LABEL[v as DistSource] ?? v} />
+                  <ReferenceLine y={threshold} stroke="#dc2626" strokeDasharray="4 4" label={{ value: `阈值 ${threshold.toFixed(2)}`, position: "insideTopRight", fontSize: 12 }} />
+                  {sources.map((s) => (
+                    <Line key={s} type="monotone" dataKey={s} dot={{ r: 3 }} strokeWidth={2.5} stroke={stableColorFromKey("source_" + s)} connectNulls />
+                  ))}
+                </RLineChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="缺少可对照的数据" desc="同一集同一来源需同时有 *_emo_dist 与 *_model_emo_dist 表（如 danmaku_emo_dist_ep*.csv + danmaku_model_emo_dist_ep*.csv）。" />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="text-base font-semibold text-slate-900">逐集对照</div>
+              <div className="text-sm text-slate-500">
+                {flagged.length ? `有 ${flagged.length} 个集数×来源超过阈值：${flagged.map((r) => `${episodeLabel(r.ep)}·${SOURCE_LABEL[r.source]}`).join("、")}` : "所有集数均在阈值内。"}
+              </div>
+            </div>
+            <Button variant="secondary" disabled={!visible.length} onClick={exportCsv}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visible.length ? (
+            <div className="overflow-auto rounded-xl border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">集数</th>
+                    <th className="px-3 py-2 text-left font-medium">来源</th>
+                    <th className="px-3 py-2 text-left font-medium">词典推断</th>
+                    <th className="px-3 py-2 text-left font-medium">模型</th>
+                    <th className="px-3 py-2 text-left font-medium">差值（模型−词典）</th>
+                    <th className="px-3 py-2 text-right font-medium">TVD</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((r) => (
+                    <tr key={`${r.ep}-${r.source}`} className={r.flagged ? "border-t border-slate-100 bg-red-50" : "border-t border-slate-100"}>
+                      <td className="px-3 py-2">
+                        <button type="button" className="underline-offset-2 hover:underline" onClick={() => onPickEpisode?.(r.ep)}>
+                          {episodeLabel(r.ep)}
+                        </button>
+                      </td>
+                      <td className="px-3 py-2">{SOURCE_LABEL[r.source]}</td>
+                      <td className="px-3 py-2 text-xs text-slate-600">{fmtMix(r.implied)}</td>
+                      <td className="px-3 py-2 text-xs text-slate-600">{fmtMix(r.model)}</td>
+                      <td className="px-3 py-2 text-xs text-slate-600">
+                        {MODEL_EMO_ORDER.map((k) => `${k} ${r.diff[k] >= 0 ? "+" : ""}${(r.diff[k] * 100).toFixed(1)}pp`).join(" / ")}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {r.tvd.toFixed(3)}
+                        {r.flagged ? <Badge className="ml-2 border-red-200 bg-red-100 text-red-700">偏离</Badge> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-sm text-slate-500">暂无可对照的集数。</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
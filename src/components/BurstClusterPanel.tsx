@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, CartesianGrid } from "recharts";
+import { Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Input, Label, NativeSelect } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import { type BurstClusterOptions, type PhraseSimilarity, DEFAULT_BURST_CLUSTER_OPTIONS, PHRASE_SIMILARITY_OPTIONS, episodeBurstClusters, trackMemes } from "../lib/burstCluster";
+import { stableColorFromKey } from "../lib/colors";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import { fmtClock } from "../lib/format";
+import { usePersistentState } from "../lib/settings";
+import type { TableMap } from "../lib/types";
+
+// 时间轴上最多画出的簇数（按总次数）
+const TIMELINE_MAX = 12;
+
+const clusterColor = (label: string) => stableColorFromKey("burst_" + label);
+
+export function BurstClusterPanel({
+  activeEp,
+  episodes,
+  tablesByEp,
+  onPickEpisode,
+  onOpenMinute,
+}: {
+  activeEp: string | null;
+  episodes: string[];
+  tablesByEp: Record<string, TableMap>;
+  onPickEpisode?: (ep: string) => void;
+  /** 点击时间轴上的点：打开该分钟的原始弹幕（需要 raw 数据） */
+  onOpenMinute?: (ep: string, minute: number) => void;
+}) {
+  const timelineRef = useRef<HTMLDivElement | null>(null);
+  const memeRef = useRef<HTMLDivElement | null>(null);
+  const [opts, setOpts] = usePersistentState<BurstClusterOptions>("burstCluster.options", DEFAULT_BURST_CLUSTER_OPTIONS);
+  const setOpt = (patch: Partial<BurstClusterOptions>) => setOpts({ ...opts, ...patch });
+  // 全季聚类较重：输入停顿后再按新参数重算
+  const [applied, setApplied] = useState<BurstClusterOptions>(opts);
+  useEffect(() => {
+    const timer = setTimeout(() => setApplied(opts), 300);
+    return () => clearTimeout(timer);
+  }, [opts]);
+
+  const epTag = activeEp ? `ep${episodeFileTag(activeEp)}` : "ep_unknown";
+  const local = useMemo(() => episodeBurstClusters(activeEp ? tablesByEp[activeEp] : undefined, applied), [activeEp, tablesByEp, applied]);
+  const memes = useMemo(() => trackMemes(episodes, tablesByEp, applied), [episodes, tablesByEp, applied]);
+  const memeEps = useMemo(() => episodes.filter((ep) => memes.some((t) => t.byEp[ep])), [episodes, memes]);
+
+  const shown = useMemo(() => local.clusters.slice(0, TIMELINE_MAX), [local]);
+  const timelineData = useMemo(
+    () =>
+      shown.map((c, row) => ({
+        cluster: c,
+        points: local.occurrences.filter((o) => o.cluster === c.id).map((o) => ({ x: o.sec_bin, y: row, cnt: o.cnt, phrase: o.phrase })),
+      })),
+    [local, shown]
+  );
+
+  const exportClustersCsv = () =>
+    downloadCsv(
+      `${epTag}_burst_clusters_${applied.method}.csv`,
+      local.clusters.flatMap((c) =>
+        local.occurrences
+          .filter((o) => o.cluster === c.id)
+          .map((o) => ({ cluster: c.id + 1, cluster_label: c.label, cluster_total: c.total, sec_bin: o.sec_bin, time: fmtClock(o.sec_bin), phrase: o.phrase, cnt: o.cnt }))
+      )
+    );
+
+  const exportMemesCsv = () =>
+    downloadCsv(
+      `burst_memes_${applied.method}.csv`,
+      memes.flatMap((t) =>
+        t.episodes.map((ep) => ({
+          cluster_label: t.cluster.label,
+          variants: t.cluster.variants.map((v) => v.phrase).join(" | "),
+          n_episodes: t.episodes.length,
+          first_episode: t.first?.ep ?? "",
+          first_sec: t.first?.sec ?? "",
+          episode: ep,
+          cnt: t.byEp[ep].cnt,
+          bins: t.byEp[ep].bins,
+          peak: t.byEp[ep].peak,
+          first_sec_in_episode: t.byEp[ep].firstSec,
+        }))
+      )
+    );
+
+  const maxEpCnt = Math.max(1, ...memes.flatMap((t) => Object.values(t.byEp).map((e) => e.cnt)));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`刷屏句聚类（${activeEp ? episodeLabel(activeEp) : "第—集"}）`}
+            desc="把 danmaku_burst_2s 里写法略有不同的刷屏句（标点、重复次数、个别字）归为一簇；时间轴上每行一簇，点大小为该 2 秒内次数。点击点可查看该分钟原始弹幕。"
+            onExport={async () => {
+              if (!timelineRef.current) return;
+              await exportNodeAsPng(timelineRef.current, `${epTag}_burst_clusters_${applied.method}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">相似度</Label>
+              <NativeSelect value={opts.method} onChange={(v) => setOpt({ method: v as PhraseSimilarity })} options={PHRASE_SIMILARITY_OPTIONS} className="w-44" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">阈值</Label>
+              <Input
+                type="number"
+                min={0.3}
+                max={1}
+                step={0.05}
+                value={opts.threshold}
+                onChange={(e) => setOpt({ threshold: Math.max(0.3, Math.min(1, Number(e.target.value) || DEFAULT_BURST_CLUSTER_OPTIONS.threshold)) })}
+                className="w-20"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">簇总次数 ≥</Label>
+              <Input type="number" min={1} value={opts.minTotal} onChange={(e) => setOpt({ minTotal: Math.max(1, Math.round(Number(e.target.value) || 1)) })} className="w-20" />
+            </div>
+            <Button variant="secondary" disabled={!local.clusters.length} onClick={exportClustersCsv}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+
+          <div ref={timelineRef} className="bg-white" style={{ height: Math.max(220, 60 + shown.length * 30) }}>
+            {shown.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey="x" domain={["dataMin", "dataMax"]} tickFormatter={(v) => fmtClock(Number(v))} tick={{ fontSize: 12 }} />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    domain={[-0.5, shown.length - 0.5]}
+                    ticks={shown.map((_, i) => i)}
+                    reversed
+                    width={140}
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(v) => {
+                      const label = shown[Number(v)]?.label ?? "";
+                      return label.length > 10 ? label.slice(0, 10) + "…" : label;
+                    }}
+                  />
+                  <ZAxis type="number" dataKey="cnt" range={[30, 360]} />
+                  <Tooltip
+                    cursor={{ strokeDasharray: "3 3" }}
+                    content={({ active, payload }: any) => {
+                      const p = active ? payload?.[0]?.payload : null;
+                      if (!p) return null;
+                      return (
+                        <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs shadow">
+                          <div className="font-medium">{p.phrase}</div>
+                          <div className="text-slate-600">
+                            {fmtClock(p.x)} · {p.cnt} 条
+                          </div>
+                        </div>
+                      );
+                    }}
+                  />
+                  {timelineData.map(({ cluster, points }) => (
+                    <Scatter
+                      key={cluster.id}
+                      data={points}
+                      fill={clusterColor(cluster.label)}
+                      fillOpacity={0.75}
+                      style={{ cursor: onOpenMinute ? "pointer" : undefined }}
+                      onClick={(p: any) => activeEp && Number.isFinite(p?.x) && onOpenMinute?.(activeEp, Math.floor(p.x / 60))}
+                    />
+                  ))}
+                </ScatterChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="没有可聚类的刷屏句" desc="需要 ep*_danmaku_burst_2s.csv；也可以调低“簇总次数”。" />
+            )}
+          </div>
+
+          {local.clusters.length ? (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+              {local.clusters.slice(0, 24).map((c) => (
+                <div key={c.id} className="rounded-xl border border-slate-200 p-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="h-3 w-3 shrink-0 rounded-full" style={{ background: clusterColor(c.label) }} />
+                    <span className="font-medium truncate" title={c.label}>
+                      {c.label}
+                    </span>
+                    <span className="ml-auto text-xs text-slate-500 whitespace-nowrap">
+                      {c.variants.length} 种写法 · {c.total} 条
+                    </span>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-1.5 max-h-24 overflow-auto">
+                    {c.variants.map((v) => (
+                      <span key={v.phrase} className="rounded-full border border-slate-200 px-2 py-0.5 text-xs">
+                        {v.phrase} <span className="text-slate-500">×{v.cnt}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="跨集梗追踪（全季）"
+            desc="全季刷屏句统一聚类后，看每个梗出现在哪些集、各集强度（刷屏条数合计）和首次出现位置；按出现集数、总次数排序。点击集号切换到该集。"
+            onExport={async () => {
+              if (!memeRef.current) return;
+              await exportNodeAsPng(memeRef.current, `burst_memes_${applied.method}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <span className="text-sm text-slate-600">
+              共 {memes.length} 个梗，其中 {memes.filter((t) => t.episodes.length > 1).length} 个在多集出现
+            </span>
+            <Button variant="secondary" disabled={!memes.length} onClick={exportMemesCsv}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+          <div ref={memeRef} className="bg-white overflow-auto max-h-[560px]">
+            {memes.length ? (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-slate-500">
+                    <th className="py-2 pr-3">梗（代表句）</th>
+                    <th className="py-2 pr-3 whitespace-nowrap">集数</th>
+                    <th className="py-2 pr-3 whitespace-nowrap">总次数</th>
+                    <th className="py-2 pr-3 whitespace-nowrap">首次出现</th>
+                    {memeEps.map((ep) => (
+                      <th key={ep} className="py-2 px-1 text-center whitespace-nowrap">
+                        <button type="button" className="hover:text-slate-900" onClick={() => onPickEpisode?.(ep)}>
+                          {episodeLabel(ep, true)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {memes.slice(0, 60).map((t) => (
+                    <tr key={t.cluster.id} className="border-t border-slate-100">
+                      <td className="py-1.5 pr-3 max-w-[16rem] truncate" title={t.cluster.variants.map((v) => v.phrase).join(" | ")}>
+                        {t.cluster.label}
+                      </td>
+                      <td className="py-1.5 pr-3">{t.episodes.length}</td>
+                      <td className="py-1.5 pr-3">{t.cluster.total}</td>
+                      <td className="py-1.5 pr-3 whitespace-nowrap">{t.first ? `${episodeLabel(t.first.ep, true)} ${fmtClock(t.first.sec)}` : "—"}</td>
+                      {memeEps.map((ep) => {
+                        const e = t.byEp[ep];
+                        return (
+                          <td key={ep} className="py-1.5 px-1 text-center">
+                            {e ? (
+                              <span
+                                className="inline-block h-5 w-5 rounded"
+                                style={{ background: clusterColor(t.cluster.label), opacity: 0.2 + 0.8 * Math.sqrt(e.cnt / maxEpCnt) }}
+                                title={`${episodeLabel(ep)}：${e.cnt} 条 · ${e.bins} 次刷屏 · 峰值 ${e.peak} · 首次 ${fmtClock(e.firstSec)}`}
+                              />
+                            ) : null}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <EmptyState title="没有可追踪的刷屏句" desc="需要至少一集的 ep*_danmaku_burst_2s.csv。" />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
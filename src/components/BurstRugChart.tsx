@@ -0,0 +1,60 @@
+import React, { useMemo } from "react";
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip } from "recharts";
+
+import type { BurstItem } from "../lib/burstCluster";
+import { fmtClock } from "../lib/format";
+
+/**
+ * 画在 minute 曲线下方的刷屏事件轨：横轴与曲线共用分钟刻度（sec_bin / 60），点大小按 cnt。
+ * 左右留白要与上方 RLineChart 的 Y 轴宽度一致，否则两张图对不齐。
+ */
+export function BurstRugChart({
+  items,
+  domain,
+  rightInset = 0,
+  onPickMinute,
+}: {
+  items: BurstItem[];
+  /** 上方曲线的首末分钟 */
+  domain: [number, number];
+  /** 上方曲线右侧若有第二条 Y 轴，传入其宽度 */
+  rightInset?: number;
+  onPickMinute?: (minute: number) => void;
+}) {
+  const points = useMemo(
+    () => items.map((b) => ({ x: b.sec_bin / 60, y: 0, cnt: b.cnt, sec: b.sec_bin, phrase: b.phrase })).filter((p) => p.x >= domain[0] && p.x <= domain[1]),
+    [items, domain]
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <ScatterChart margin={{ top: 4, right: 12 + rightInset, left: 0, bottom: 0 }}>
+        <XAxis type="number" dataKey="x" domain={domain} allowDataOverflow hide />
+        <YAxis type="number" dataKey="y" domain={[-1, 1]} ticks={[0]} tickFormatter={() => "刷屏"} tick={{ fontSize: 11 }} axisLine={false} tickLine={false} />
+        <ZAxis type="number" dataKey="cnt" range={[16, 260]} />
+        <Tooltip
+          cursor={false}
+          content={({ active, payload }: any) => {
+            const p = active ? payload?.[0]?.payload : null;
+            if (!p) return null;
+            return (
+              <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs shadow">
+                <div className="font-medium">{p.phrase}</div>
+                <div className="text-slate-600">
+                  {fmtClock(p.sec)} · {p.cnt} 条
+                </div>
+              </div>
+            );
+          }}
+        />
+        <Scatter
+          data={points}
+          fill="#f97316"
+          fillOpacity={0.45}
+          style={onPickMinute ? { cursor: "pointer" } : undefined}
+          onClick={(p: any) => Number.isFinite(p?.sec) && onPickMinute?.(Math.floor(p.sec / 60))}
+        />
+      </ScatterChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,164 @@
+import React from "react";
+import { ArrowDownRight, ArrowUpRight, Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Input, Label, NativeSelect, cn } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import type { ChangePointOptions, CurveDetection } from "../lib/changepoint";
+import { colorForKey } from "../lib/colors";
+import { downloadCsv } from "../lib/export";
+
+function Direction({ up }: { up: boolean }) {
+  const Icon = up ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={cn("inline-flex items-center gap-1", up ? "text-emerald-700" : "text-red-600")}>
+      <Icon className="h-4 w-4" />
+      {up ? "上升" : "下降"}
+    </span>
+  );
+}
+
+export function ChangePointPanel({
+  detection,
+  mode,
+  focus,
+  focusOptions,
+  onFocus,
+  options,
+  onOptions,
+  fmtValue,
+  onPickMinute,
+  exportName,
+}: {
+  detection: CurveDetection;
+  mode: "emo" | "func";
+  focus: string;
+  focusOptions: Array<{ label: string; value: string }>;
+  onFocus: (v: string) => void;
+  options: ChangePointOptions;
+  onOptions: (o: ChangePointOptions) => void;
+  fmtValue: (v: number) => string;
+  onPickMinute?: (minute: number) => void;
+  exportName: string;
+}) {
+  const changes = detection.changes.filter((c) => !focus || c.series === focus);
+  const anomalies = detection.anomalies.filter((a) => !focus || a.series === focus);
+
+  const exportCsv = () => {
+    const rows = [
+      ...changes.map((c) => ({ type: "change_point", series: c.series, minute: c.minute, before: c.before.toFixed(4), after: c.after.toFixed(4), delta: c.delta.toFixed(4), z: "", direction: c.direction })),
+      ...anomalies.map((a) => ({ type: "anomaly", series: a.series, minute: a.minute, before: a.expected.toFixed(4), after: a.value.toFixed(4), delta: (a.value - a.expected).toFixed(4), z: a.z.toFixed(2), direction: a.direction })),
+    ];
+    downloadCsv(exportName, rows);
+  };
+
+  const SeriesDot = ({ k }: { k: string }) => <span className="mr-1.5 inline-block h-2.5 w-2.5 rounded-full align-middle" style={{ background: colorForKey(k, mode) }} />;
+  const rowClass = cn("border-t border-slate-100", onPickMinute && "cursor-pointer hover:bg-slate-50");
+
+  return (
+    <Card>
+      <CardHeader>
+        <SectionHeader
+          title="变点与异常分钟"
+          desc="变点：PELT 检测均值突变（段均值前→后）；异常：相对前后 2 分钟滚动中位数的孤立尖峰（稳健 z）。均在当前曲线变换下计算，点击行可下钻到该分钟。"
+        />
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <div className="flex items-center gap-2">
+            <Label className="whitespace-nowrap">维度</Label>
+            <NativeSelect value={focus} onChange={onFocus} options={focusOptions} className="w-40" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="whitespace-nowrap">惩罚系数</Label>
+            <Input type="number" min={0.5} max={20} step={0.5} value={options.penalty} onChange={(e) => onOptions({ ...options, penalty: Math.max(0.5, Math.min(20, Number(e.target.value) || 2)) })} className="w-20" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="whitespace-nowrap">最短段（分钟）</Label>
+            <Input type="number" min={1} max={10} value={options.minSize} onChange={(e) => onOptions({ ...options, minSize: Math.max(1, Math.min(10, Number(e.target.value) || 2)) })} className="w-20" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="whitespace-nowrap">异常阈值 |z|≥</Label>
+            <Input type="number" min={1.5} max={10} step={0.5} value={options.anomalyZ} onChange={(e) => onOptions({ ...options, anomalyZ: Math.max(1.5, Math.min(10, Number(e.target.value) || 3)) })} className="w-20" />
+          </div>
+          <Button variant="secondary" disabled={!changes.length && !anomalies.length} onClick={exportCsv}>
+            <Download className="h-4 w-4" />
+            导出 CSV
+          </Button>
+        </div>
+
+        {changes.length || anomalies.length ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="overflow-auto rounded-xl border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">变点</th>
+                    <th className="px-3 py-2 text-right font-medium">分钟</th>
+                    <th className="px-3 py-2 text-right font-medium">前 → 后</th>
+                    <th className="px-3 py-2 text-left font-medium">方向</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((c, i) => (
+                    <tr key={i} className={rowClass} onClick={() => onPickMinute?.(c.minute)}>
+                      <td className="px-3 py-2">
+                        <SeriesDot k={c.series} />
+                        {c.series}
+                      </td>
+                      <td className="px-3 py-2 text-right">{c.minute}m</td>
+                      <td className="px-3 py-2 text-right">
+                        {fmtValue(c.before)} → {fmtValue(c.after)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Direction up={c.direction === "up"} />
+                      </td>
+                    </tr>
+                  ))}
+                  {!changes.length ? (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-3 text-slate-500">未检测到变点（可调低惩罚系数）。</td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+            <div className="overflow-auto rounded-xl border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">异常</th>
+                    <th className="px-3 py-2 text-right font-medium">分钟</th>
+                    <th className="px-3 py-2 text-right font-medium">值（预期）</th>
+                    <th className="px-3 py-2 text-right font-medium">z</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {anomalies.map((a, i) => (
+                    <tr key={i} className={rowClass} onClick={() => onPickMinute?.(a.minute)}>
+                      <td className="px-3 py-2">
+                        <SeriesDot k={a.series} />
+                        {a.series}
+                      </td>
+                      <td className="px-3 py-2 text-right">{a.minute}m</td>
+                      <td className="px-3 py-2 text-right">
+                        {fmtValue(a.value)}（{fmtValue(a.expected)}）
+                      </td>
+                      <td className={cn("px-3 py-2 text-right", a.z >= 0 ? "text-emerald-700" : "text-red-600")}>{a.z.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                  {!anomalies.length ? (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-3 text-slate-500">没有超过阈值的孤立尖峰。</td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <EmptyState title="未检测到变点或异常" desc="曲线较平稳，或数据点太少；可以调低惩罚系数、缩短最短段或降低异常阈值。" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, Legend, CartesianGrid, LabelList } from "recharts";
+import { Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Input, Label, NativeSelect, cn } from "./ui";
+import { ChipCheckbox, EmptyState, SectionHeader } from "./common";
+import {
+  type ClusterMethod,
+  type DendroNode,
+  type FeatureGroup,
+  CLUSTER_METHOD_OPTIONS,
+  FEATURE_GROUPS,
+  FEATURE_GROUP_LABEL,
+  buildFeatures,
+  cutTree,
+  hierarchical,
+  kmeans,
+  leafOrder,
+  pca2,
+  silhouette,
+} from "../lib/cluster";
+import { stableColorFromKey } from "../lib/colors";
+import { episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import { usePersistentState } from "../lib/settings";
+import type { TableMap } from "../lib/types";
+
+const clusterColor = (c: number) => stableColorFromKey(`cluster_${c}`);
+
+const DENDRO_ROW = 22;
+
+function Dendrogram({
+  root,
+  eps,
+  labels,
+  activeEp,
+  onPick,
+}: {
+  root: DendroNode;
+  eps: string[];
+  labels: number[];
+  activeEp: string | null;
+  onPick?: (ep: string) => void;
+}) {
+  const order = leafOrder(root);
+  const pos = new Map(order.map((leaf, i) => [leaf, i]));
+  const labelW = 120;
+  const plotW = 420;
+  const h = order.length * DENDRO_ROW + 10;
+  const maxH = root.height || 1;
+  const xOf = (height: number) => labelW + (height / maxH) * plotW;
+  const segs: React.ReactNode[] = [];
+  // 返回节点的 (x, y)；横向树：x 为合并高度，y 为叶子行
+  const walk = (node: DendroNode): [number, number] => {
+    if (!node.left || !node.right) return [labelW, (pos.get(node.members[0]) ?? 0) * DENDRO_ROW + DENDRO_ROW / 2 + 5];
+    const [x1, y1] = walk(node.left);
+    const [x2, y2] = walk(node.right);
+    const x = xOf(node.height);
+    segs.push(<path key={node.id} d={`M${x1},${y1} H${x} V${y2} H${x2}`} fill="none" stroke="#64748b" strokeWidth={1.5} />);
+    return [x, (y1 + y2) / 2];
+  };
+  walk(root);
+  return (
+    <svg width={labelW + plotW + 20} height={h} className="text-xs">
+      {segs}
+      {order.map((leaf, i) => (
+        <text
+          key={leaf}
+          x={labelW - 6}
+          y={i * DENDRO_ROW + DENDRO_ROW / 2 + 9}
+          textAnchor="end"
+          fill={clusterColor(labels[leaf])}
+          fontWeight={eps[leaf] === activeEp ? 700 : 400}
+          style={{ cursor: onPick ? "pointer" : undefined }}
+          onClick={() => onPick?.(eps[leaf])}
+        >
+          {episodeLabel(eps[leaf])}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+export function ClusterPanel({ activeEp, episodes, tablesByEp, onPickEpisode }: { activeEp: string | null; episodes: string[]; tablesByEp: Record<string, TableMap>; onPickEpisode?: (ep: string) => void }) {
+  const scatterRef = useRef<HTMLDivElement | null>(null);
+  const dendroRef = useRef<HTMLDivElement | null>(null);
+  const [groups, setGroups] = usePersistentState<FeatureGroup[]>("cluster.groups", ["danmaku_emo", "curve"]);
+  const [method, setMethod] = usePersistentState<ClusterMethod>("cluster.method", "kmeans");
+  const [k, setK] = usePersistentState<number>("cluster.k", 3);
+  const [names, setNames] = useState<Record<number, string>>({});
+
+  const fm = useMemo(() => buildFeatures(episodes, tablesByEp, groups), [episodes, tablesByEp, groups]);
+  const tree = useMemo(() => hierarchical(fm.z), [fm]);
+  const kk = Math.max(1, Math.min(k, fm.eps.length));
+  const labels = useMemo(() => {
+    if (!fm.eps.length || !fm.features.length) return [];
+    if (method === "hierarchical" && tree) return cutTree(tree, kk, fm.eps.length);
+    return kmeans(fm.z, kk);
+  }, [fm, method, tree, kk]);
+  const proj = useMemo(() => pca2(fm.z), [fm]);
+  const sil = useMemo(() => silhouette(fm.z, labels), [fm, labels]);
+
+  const clusters = useMemo(() => {
+    const ids = Array.from(new Set(labels)).sort((a, b) => a - b);
+    return ids.map((c) => {
+      const idx = labels.map((l, i) => (l === c ? i : -1)).filter((i) => i >= 0);
+      const meanZ = fm.features.map((f, j) => ({ f, z: idx.reduce((s, i) => s + fm.z[i][j], 0) / idx.length }));
+      const traits = meanZ.filter((m) => Math.abs(m.z) >= 0.5).sort((a, b) => Math.abs(b.z) - Math.abs(a.z)).slice(0, 4);
+      return { c, eps: idx.map((i) => fm.eps[i]), traits };
+    });
+  }, [labels, fm]);
+
+  const nameOf = (c: number) => names[c]?.trim() || `簇 ${c + 1}`;
+
+  const scatterData = useMemo(
+    () =>
+      clusters.map(({ c }) => ({
+        c,
+        points: fm.eps
+          .map((ep, i) => ({ ep, label: episodeLabel(ep, true), cluster: c, x: proj.coords[i][0], y: proj.coords[i][1] }))
+          .filter((_, i) => labels[i] === c),
+      })),
+    [clusters, fm, proj, labels]
+  );
+
+  const toggleGroup = (g: FeatureGroup) => setGroups((prev) => (prev.includes(g) ? prev.filter((x) => x !== g) : [...prev, g]));
+
+  const exportCsv = () => {
+    downloadCsv(
+      `episode_clusters_${method}_k${kk}.csv`,
+      fm.eps.map((ep, i) => ({
+        episode: ep,
+        cluster: labels[i] + 1,
+        cluster_name: nameOf(labels[i]),
+        pc1: proj.coords[i][0].toFixed(4),
+        pc2: proj.coords[i][1].toFixed(4),
+        ...Object.fromEntries(fm.features.map((f, j) => [f.key, Number.isFinite(fm.raw[i][j]) ? fm.raw[i][j].toFixed(4) : ""])),
+      }))
+    );
+  };
+
+  const ready = fm.eps.length >= 3 && fm.features.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="分集聚类（PCA 投影）"
+            desc="每集的特征：所选来源的类别占比 + 逐分钟总量的形状（峰值位置、峰均比、变异系数、首尾占比、自相关），列标准化后聚类；点击散点或树状图叶子切换当前集。"
+            onExport={async () => {
+              if (!scatterRef.current) return;
+              await exportNodeAsPng(scatterRef.current, `episode_clusters_pca_${method}_k${kk}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+            <div className="lg:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="text-sm font-medium mb-2">特征</div>
+              <div className="flex flex-wrap gap-2">
+                {FEATURE_GROUPS.map((g) => (
+                  <ChipCheckbox key={g} checked={groups.includes(g)} label={FEATURE_GROUP_LABEL[g]} onChange={() => toggleGroup(g)} />
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-slate-500">
+                {fm.eps.length} 集 × {fm.features.length} 个特征
+                {Number.isFinite(sil) ? ` · 轮廓系数 ${sil.toFixed(2)}（越接近 1 分得越开）` : ""}
+                {proj.explained[0] > 0 ? ` · PC1/PC2 解释方差 ${(proj.explained[0] * 100).toFixed(0)}% / ${(proj.explained[1] * 100).toFixed(0)}%` : ""}
+              </div>
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-white p-3 space-y-3">
+              <div>
+                <Label>方法</Label>
+                <NativeSelect value={method} onChange={(v) => setMethod(v as ClusterMethod)} options={CLUSTER_METHOD_OPTIONS} className="mt-2" />
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label>簇数 k</Label>
+                  <Input type="number" min={2} max={8} value={k} onChange={(e) => setK(Math.max(2, Math.min(8, Math.round(Number(e.target.value) || 3))))} className="mt-2" />
+                </div>
+                <Button variant="secondary" disabled={!ready} onClick={exportCsv}>
+                  <Download className="h-4 w-4" />
+                  CSV
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {ready ? (
+            <>
+              <div ref={scatterRef} className="h-[380px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="x" name="PC1" tickFormatter={(v) => (v as number).toFixed(1)} label={{ value: "PC1", position: "insideBottomRight", offset: -4, fontSize: 11 }} />
+                    <YAxis type="number" dataKey="y" name="PC2" tickFormatter={(v) => (v as number).toFixed(1)} label={{ value: "PC2", angle: -90, position: "insideLeft", fontSize: 11 }} />
+                    <ZAxis range={[90, 90]} />
+                    <Tooltip cursor={{ strokeDasharray: "3 3" }} content={({ payload }: any) => {
+                      const p = payload?.[0]?.payload;
+                      if (!p) return null;
+                      return (
+                        <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs shadow-sm">
+                          <div className="font-medium">{episodeLabel(p.ep)}</div>
+                          <div className="text-slate-500">{nameOf(p.cluster)}</div>
+                        </div>
+                      );
+                    }} />
+                    <Legend />
+                    {scatterData.map(({ c, points }) => (
+                      <Scatter
+                        key={c}
+                        name={nameOf(c)}
+                        data={points}
+                        fill={clusterColor(c)}
+                        style={onPickEpisode ? { cursor: "pointer" } : undefined}
+                        onClick={(p: any) => p?.ep && onPickEpisode?.(p.ep)}
+                      >
+                        <LabelList dataKey="label" position="top" fontSize={11} />
+                      </Scatter>
+                    ))}
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                {clusters.map(({ c, eps, traits }) => (
+                  <div key={c} className="rounded-xl border border-slate-200 p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="h-3 w-3 shrink-0 rounded-full" style={{ background: clusterColor(c) }} />
+                      <Input value={names[c] ?? ""} placeholder={`簇 ${c + 1}（如：开篇 / 日常 / 高能）`} onChange={(e) => setNames((prev) => ({ ...prev, [c]: e.target.value }))} />
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                      {eps.map((ep) => (
+                        <button
+                          key={ep}
+                          type="button"
+                          onClick={() => onPickEpisode?.(ep)}
+                          className={cn("rounded-full border px-2 py-0.5 text-xs", ep === activeEp ? "border-slate-900 text-slate-900" : "border-slate-200 text-slate-600 hover:bg-slate-50")}
+                        >
+                          {episodeLabel(ep, true)}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="mt-2 text-xs text-slate-500">
+                      {traits.length ? traits.map((t) => `${t.f.label} ${t.z > 0 ? "偏高" : "偏低"}`).join("，") : "各特征都接近全季平均"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <EmptyState title="数据不足以聚类" desc="至少需要 3 集带有所选特征（分布表或 minute 曲线）；可以勾选更多特征来源。" />
+          )}
+        </CardContent>
+      </Card>
+
+      {ready && tree ? (
+        <Card>
+          <CardHeader>
+            <SectionHeader
+              title="层次聚类树状图（Ward）"
+              desc="横轴为合并距离（标准化特征空间）；叶子颜色为当前方法的簇，点击集名切换当前集。"
+              onExport={async () => {
+                if (!dendroRef.current) return;
+                await exportNodeAsPng(dendroRef.current, "episode_clusters_dendrogram.png");
+              }}
+            />
+          </CardHeader>
+          <CardContent>
+            <div ref={dendroRef} className="overflow-auto bg-white">
+              <Dendrogram root={tree} eps={fm.eps} labels={labels} activeEp={activeEp} onPick={onPickEpisode} />
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, BarChart, Bar, Cell, XAxis, YAxis, Tooltip, CartesianGrid, ReferenceLine } from "recharts";
+import { Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Input, Label, NativeSelect, Switch, cn } from "./ui";
+import { EmptyState, EpisodeChips, SectionHeader } from "./common";
+import {
+  type CurveFamily,
+  type EpisodeSeries,
+  corrColor,
+  corrThreshold,
+  correlationMatrix,
+  crossCorrelation,
+  episodeSeries,
+  fmtLeadLag,
+  leadLagPairs,
+  seriesKeysOf,
+} from "../lib/crosscorr";
+import { compareEpisodeIds, episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import type { TableMap } from "../lib/types";
+
+const FAMILY_OPTIONS = [
+  { label: "情绪 emo 曲线", value: "emo" },
+  { label: "功能 func 曲线", value: "func" },
+];
+
+// func 维度可能很多，热力图只取前若干列
+const MAX_KEYS = 16;
+
+export function CorrelationPanel({ activeEp, episodes, tablesByEp }: { activeEp: string | null; episodes: string[]; tablesByEp: Record<string, TableMap> }) {
+  const heatRef = useRef<HTMLDivElement | null>(null);
+  const ccfRef = useRef<HTMLDivElement | null>(null);
+  const [family, setFamily] = useState<CurveFamily>("emo");
+  const [picked, setPicked] = useState<string[]>([]);
+  const [diff, setDiff] = useState<boolean>(false);
+  const [lag, setLag] = useState<number>(0);
+  const [maxLag, setMaxLag] = useState<number>(5);
+  const [pair, setPair] = useState<{ a: string; b: string } | null>(null);
+
+  const eps = useMemo(() => (picked.length ? picked : activeEp ? [activeEp] : []), [picked, activeEp]);
+  const scopeLabel = eps.length === 1 ? episodeLabel(eps[0]) : `${eps.length} 集合并`;
+  const fileScope = eps.length === 1 ? `ep${episodeFileTag(eps[0])}` : `pooled${eps.length}`;
+
+  const list = useMemo(() => eps.map((ep) => episodeSeries(ep, tablesByEp[ep], family, diff)).filter((s): s is EpisodeSeries => !!s), [eps, tablesByEp, family, diff]);
+  const keys = useMemo(() => seriesKeysOf(list, family).slice(0, MAX_KEYS), [list, family]);
+  const matrix = useMemo(() => correlationMatrix(list, keys, lag), [list, keys, lag]);
+  const pairs = useMemo(() => leadLagPairs(list, keys, maxLag), [list, keys, maxLag]);
+
+  const a = pair && keys.includes(pair.a) ? pair.a : keys[0] ?? "";
+  const b = pair && keys.includes(pair.b) ? pair.b : keys[1] ?? keys[0] ?? "";
+  const ccf = useMemo(() => (a && b ? crossCorrelation(list, a, b, maxLag).filter((c) => Number.isFinite(c.r)) : []), [list, a, b, maxLag]);
+  const ccfThreshold = corrThreshold(ccf.find((c) => c.lag === 0)?.n ?? 0);
+
+  const togglePicked = (ep: string) => setPicked((prev) => (prev.includes(ep) ? prev.filter((x) => x !== ep) : [...prev, ep].sort(compareEpisodeIds)));
+  const selectMany = (list: string[], on: boolean) =>
+    setPicked((prev) => (on ? Array.from(new Set([...prev, ...list])).sort(compareEpisodeIds) : prev.filter((x) => !list.includes(x))));
+
+  const seriesOptions = keys.map((k) => ({ label: k, value: k }));
+  const cellOf = (x: string, y: string) => matrix.find((c) => c.a === x && c.b === y);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`维度相关矩阵（${scopeLabel}）`}
+            desc="Pearson 相关：行维度 t 分钟 vs 列维度 t+滞后 分钟。多集时在每集内标准化后合并；加粗表示 |r| 超过约 95% 显著性阈值 1.96/√n。点击格子在下方查看该对维度的滞后互相关。"
+            onExport={async () => {
+              if (!heatRef.current) return;
+              await exportNodeAsPng(heatRef.current, `${fileScope}_corr_${family}${diff ? "_diff" : ""}_lag${lag}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+            <div className="rounded-xl border border-slate-200 bg-white p-3 space-y-3">
+              <div>
+                <Label>曲线</Label>
+                <NativeSelect value={family} onChange={(v) => setFamily(v as CurveFamily)} options={FAMILY_OPTIONS} className="mt-2" />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={diff} onCheckedChange={setDiff} />
+                <Label>一阶差分（去掉整体热度的共同起伏）</Label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>矩阵滞后（分钟）</Label>
+                  <Input type="number" min={-10} max={10} value={lag} onChange={(e) => setLag(Math.max(-10, Math.min(10, Math.round(Number(e.target.value) || 0))))} className="mt-2" />
+                </div>
+                <div>
+                  <Label>最大滞后 ±</Label>
+                  <Input type="number" min={1} max={10} value={maxLag} onChange={(e) => setMaxLag(Math.max(1, Math.min(10, Math.round(Number(e.target.value) || 5))))} className="mt-2" />
+                </div>
+              </div>
+            </div>
+            <div className="lg:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm font-medium">参与合并的集（不选则为当前集）</div>
+                <Button
+                  variant="secondary"
+                  className="px-3 py-1.5"
+                  disabled={!matrix.length}
+                  onClick={() => downloadCsv(`${fileScope}_corr_${family}${diff ? "_diff" : ""}_lag${lag}.csv`, matrix.map((c) => ({ row: c.a, col: c.b, lag: c.lag, r: Number.isFinite(c.r) ? c.r.toFixed(4) : "", n: c.n })))}
+                >
+                  <Download className="h-4 w-4" />
+                  CSV
+                </Button>
+              </div>
+              <EpisodeChips episodes={episodes} selected={picked} onToggle={togglePicked} onSelectMany={selectMany} anchor={activeEp} onSetSelected={setPicked} />
+            </div>
+          </div>
+
+          {keys.length >= 2 ? (
+            <div ref={heatRef} className="overflow-auto bg-white p-2">
+              <div className="inline-grid gap-px text-xs" style={{ gridTemplateColumns: `auto repeat(${keys.length}, minmax(52px, 1fr))` }}>
+                <div />
+                {keys.map((k) => (
+                  <div key={k} className="px-1 pb-1 text-center font-medium text-slate-600 truncate" title={k}>
+                    {k}
+                  </div>
+                ))}
+                {keys.map((row) => (
+                  <React.Fragment key={row}>
+                    <div className="pr-2 flex items-center justify-end font-medium text-slate-600">{row}</div>
+                    {keys.map((col) => {
+                      const c = cellOf(row, col);
+                      const r = c?.r ?? NaN;
+                      const strong = !!c && c.n > 0 && Math.abs(r) >= corrThreshold(c.n);
+                      return (
+                        <button
+                          key={col}
+                          type="button"
+                          title={c ? `${row} → ${col}（滞后 ${lag}）r=${Number.isFinite(r) ? r.toFixed(3) : "—"}，n=${c.n}` : ""}
+                          onClick={() => row !== col && setPair({ a: row, b: col })}
+                          className={cn("h-10 rounded-sm", strong && "font-semibold", Math.abs(r) > 0.6 ? "text-white" : "text-slate-800")}
+                          style={{ background: corrColor(r) }}
+                        >
+                          {Number.isFinite(r) ? r.toFixed(2) : "—"}
+                        </button>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
+              </div>
+              <div className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+                <span>−1</span>
+                <span className="h-2 w-40 rounded-full" style={{ background: `linear-gradient(to right, ${corrColor(-1)}, ${corrColor(0)}, ${corrColor(1)})` }} />
+                <span>+1</span>
+                <span className="ml-2">{family} 曲线{diff ? "（一阶差分）" : ""}，滞后 {lag} 分钟</span>
+              </div>
+            </div>
+          ) : (
+            <EmptyState title="缺少可计算的曲线" desc={`所选集需要 danmaku_minute_${family}_curve_ep*.csv，且至少包含 2 个维度、3 个分钟点。`} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`滞后互相关（${a || "—"} → ${b || "—"}）`}
+            desc={`滞后 k > 0：${a || "A"} 在 t 分钟、${b || "B"} 在 t+k 分钟，即 ${a || "A"} 领先；虚线为约 95% 显著性阈值。`}
+            onExport={async () => {
+              if (!ccfRef.current) return;
+              await exportNodeAsPng(ccfRef.current, `${fileScope}_ccf_${family}_${a}_${b}${diff ? "_diff" : ""}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">领先维度</Label>
+              <NativeSelect value={a} onChange={(v) => setPair({ a: v, b })} options={seriesOptions} className="w-40" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">跟随维度</Label>
+              <NativeSelect value={b} onChange={(v) => setPair({ a, b: v })} options={seriesOptions} className="w-40" />
+            </div>
+            <Button
+              variant="secondary"
+              disabled={!ccf.length}
+              onClick={() => downloadCsv(`${fileScope}_ccf_${family}_${a}_${b}${diff ? "_diff" : ""}.csv`, ccf.map((c) => ({ lead: a, follow: b, lag: c.lag, r: c.r.toFixed(4), n: c.n })))}
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+          <div ref={ccfRef} className="h-[300px]">
+            {ccf.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={ccf} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="lag" tick={{ fontSize: 12 }} tickFormatter={(v) => `${v > 0 ? "+" : ""}${v}`} />
+                  <YAxis domain={[-1, 1]} tickFormatter={(v) => (v as number).toFixed(1)} />
+                  <Tooltip labelFormatter={(v) => `滞后 ${v} 分钟`} formatter={(v: any, _n: any, props: any) => [`r=${(v as number).toFixed(3)}（n=${props?.payload?.n ?? 0}）`, "相关"]} />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  {Number.isFinite(ccfThreshold) ? <ReferenceLine y={ccfThreshold} stroke="#94a3b8" strokeDasharray="4 4" /> : null}
+                  {Number.isFinite(ccfThreshold) ? <ReferenceLine y={-ccfThreshold} stroke="#94a3b8" strokeDasharray="4 4" /> : null}
+                  <Bar dataKey="r" radius={[4, 4, 4, 4]}>
+                    {ccf.map((c) => (
+                      <Cell key={c.lag} fill={corrColor(c.r)} stroke="#cbd5e1" />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="暂无互相关" desc="请选择两个维度，并确保所选集有对应的 minute 曲线。" />
+            )}
+          </div>
+
+          {pairs.length ? (
+            <div className="mt-4 overflow-auto rounded-xl border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">最强滞后关系（±{maxLag} 分钟内 |r| 最大）</th>
+                    <th className="px-3 py-2 text-right font-medium">r</th>
+                    <th className="px-3 py-2 text-right font-medium">同步 r</th>
+                    <th className="px-3 py-2 text-right font-medium">n</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pairs.slice(0, 12).map((p) => (
+                    <tr key={`${p.a}-${p.b}`} className="border-t border-slate-100 cursor-pointer hover:bg-slate-50" onClick={() => setPair(p.lag >= 0 ? { a: p.a, b: p.b } : { a: p.b, b: p.a })}>
+                      <td className="px-3 py-2">{fmtLeadLag(p)}</td>
+                      <td className={cn("px-3 py-2 text-right", Math.abs(p.r) >= corrThreshold(p.n) && "font-semibold")}>{p.r.toFixed(3)}</td>
+                      <td className="px-3 py-2 text-right text-slate-500">{Number.isFinite(p.r0) ? p.r0.toFixed(3) : "—"}</td>
+                      <td className="px-3 py-2 text-right text-slate-500">{p.n}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useMemo, useRef } from "react";
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid, LineChart as RLineChart, Line } from "recharts";
+
+import { Badge, Card, CardContent, CardHeader } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import { retentionByEpisode, summarizeCleaning } from "../lib/cleaning";
+import { stableColorFromKey } from "../lib/colors";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { exportNodeAsPng } from "../lib/export";
+import { toPercent } from "../lib/format";
+import { TABLE_KEYS } from "../lib/tables";
+import type { TableMap } from "../lib/types";
+
+const DATASET_LABEL: Record<string, string> = {
+  danmaku: "弹幕",
+  comment: "评论",
+  comment_root: "根评论",
+  comment_reply: "回复",
+  all: "全部",
+};
+
+function datasetLabel(d: string) {
+  return DATASET_LABEL[d] ?? d;
+}
+
+export function DataQualityPanel({
+  activeEp,
+  episodes,
+  tablesByEp,
+}: {
+  activeEp: string | null;
+  episodes: string[];
+  tablesByEp: Record<string, TableMap>;
+}) {
+  const stepChartRef = useRef<HTMLDivElement | null>(null);
+  const retentionChartRef = useRef<HTMLDivElement | null>(null);
+
+  const quality = useMemo(() => {
+    if (!activeEp) return [];
+    return summarizeCleaning(tablesByEp[activeEp]?.[TABLE_KEYS.CLEANING_REPORT] ?? []);
+  }, [activeEp, tablesByEp]);
+
+  // 单集：各 dataset 按 step 的剔除量（横向分组柱）
+  const stepBars = useMemo(() => {
+    const map = new Map<string, Record<string, any>>();
+    for (const q of quality) {
+      for (const s of q.steps) {
+        const row = map.get(s.step) ?? { step: s.step };
+        row[q.dataset] = (row[q.dataset] ?? 0) + s.dropped;
+        map.set(s.step, row);
+      }
+    }
+    return Array.from(map.values());
+  }, [quality]);
+
+  const retention = useMemo(() => retentionByEpisode(episodes, tablesByEp), [episodes, tablesByEp]);
+
+  const hasCurrent = quality.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`数据质量（${activeEp ? episodeLabel(activeEp) : "第—集"} · cleaning_report）`}
+            desc="每个清洗步骤剔除的行数、去重数量与过滤原因；先确认保留率，再解读情绪/功能图表。"
+            onExport={async () => {
+              if (!stepChartRef.current || !activeEp) return;
+              await exportNodeAsPng(stepChartRef.current, `ep${episodeFileTag(activeEp)}_cleaning_steps.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          {hasCurrent ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {quality.map((q) => (
+                  <div key={q.dataset} className="rounded-xl border border-slate-200 bg-white p-3">
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm font-semibold">{datasetLabel(q.dataset)}</div>
+                      <Badge variant="default">保留 {q.retention != null ? toPercent(q.retention) : "—"}</Badge>
+                    </div>
+                    <div className="mt-2 text-xs text-slate-500 space-y-1">
+                      <div>原始：{q.raw ?? "—"} → 保留：{q.kept ?? "—"}</div>
+                      <div>去重剔除：{q.dedupDropped}</div>
+                      <div>过滤剔除：{q.filterDropped}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div ref={stepChartRef} className="mt-4 h-[320px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stepBars} layout="vertical" margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" />
+                    <YAxis type="category" dataKey="step" width={150} tick={{ fontSize: 12 }} />
+                    <Tooltip />
+                    <Legend />
+                    {quality.map((q) => (
+                      <Bar key={q.dataset} dataKey={q.dataset} name={datasetLabel(q.dataset)} fill={stableColorFromKey("dataset_" + q.dataset)} radius={[0, 8, 8, 0]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="mt-4 overflow-auto rounded-xl border border-slate-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">数据集</th>
+                      <th className="px-3 py-2 text-left font-medium">步骤</th>
+                      <th className="px-3 py-2 text-right font-medium">清洗前</th>
+                      <th className="px-3 py-2 text-right font-medium">清洗后</th>
+                      <th className="px-3 py-2 text-right font-medium">剔除</th>
+                      <th className="px-3 py-2 text-right font-medium">占原始</th>
+                      <th className="px-3 py-2 text-left font-medium">原因</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {quality.flatMap((q) =>
+                      q.steps.map((s, i) => (
+                        <tr key={`${q.dataset}-${i}`} className="border-t border-slate-100">
+                          <td className="px-3 py-2">{datasetLabel(q.dataset)}</td>
+                          <td className="px-3 py-2">
+                            {s.step}
+                            {s.isDedup ? <Badge className="ml-2">去重</Badge> : null}
+                          </td>
+                          <td className="px-3 py-2 text-right">{s.before ?? "—"}</td>
+                          <td className="px-3 py-2 text-right">{s.after ?? "—"}</td>
+                          <td className="px-3 py-2 text-right">{s.dropped}</td>
+                          <td className="px-3 py-2 text-right">{q.raw ? toPercent(s.dropped / q.raw) : "—"}</td>
+                          <td className="px-3 py-2 text-slate-500">{s.reason || "—"}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <EmptyState title="本集缺少清洗报告" desc="请上传 cleaning_report_ep*.csv（或 zip）。" />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="跨集保留率对比"
+            desc="各集清洗后保留量 / 原始量；保留率明显偏低的集数，其分布结论需要谨慎解读。"
+            onExport={async () => {
+              if (!retentionChartRef.current) return;
+              await exportNodeAsPng(retentionChartRef.current, "compare_retention.png");
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div ref={retentionChartRef} className="h-[320px]">
+            {retention.rows.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <RLineChart data={retention.rows} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="episode" tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, 1]} tickFormatter={(v) => `${Math.round((v as number) * 100)}%`} />
+                  <Tooltip
+                    formatter={(v: any, name: any, props: any) => {
+                      const row = props?.payload ?? {};
+                      const ds = String(props?.dataKey ?? name);
+                      return [`${toPercent(v)}（${row[`${ds}_kept`] ?? "—"}/${row[`${ds}_raw`] ?? "—"}）`, datasetLabel(ds)];
+                    }}
+                  />
+                  <Legend formatter={(v: any) => datasetLabel(String(v))} />
+                  {retention.datasets.map((d) => (
+                    <Line key={d} type="monotone" dataKey={d} dot={{ r: 3 }} strokeWidth={2.5} stroke={stableColorFromKey("dataset_" + d)} connectNulls />
+                  ))}
+                </RLineChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="缺少跨集清洗数据" desc="至少需要一集的 cleaning_report_ep*.csv 才能绘制保留率对比。" />
+            )}
+          </div>
+          <div className="mt-3 text-xs text-slate-500">已载入清洗报告的集数：{retention.rows.length} / {episodes.length}</div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useRef } from "react";
+
+import { Badge, Card, CardContent, CardHeader, Label, NativeSelect, cn } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import { type DistTestResult, RESIDUAL_CUTOFF } from "../lib/distTest";
+import { episodeLabel } from "../lib/episodes";
+import { exportNodeAsPng } from "../lib/export";
+import { type PAdjustMethod, P_ADJUST_LABEL, fmtP } from "../lib/stats";
+
+const METHOD_OPTIONS = (Object.keys(P_ADJUST_LABEL) as PAdjustMethod[]).map((k) => ({ label: P_ADJUST_LABEL[k], value: k }));
+
+/** 残差 → 发散色（蓝=低于期望，红=高于期望），±4 饱和 */
+function residualColor(r: number) {
+  const t = Math.max(-1, Math.min(1, r / 4));
+  const alpha = Math.abs(t) * 0.85;
+  return t >= 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(37, 99, 235, ${alpha})`;
+}
+
+export function DistTestCard({
+  test,
+  method,
+  onMethodChange,
+}: {
+  test: DistTestResult | null;
+  method: PAdjustMethod;
+  onMethodChange: (m: PAdjustMethod) => void;
+}) {
+  const heatmapRef = useRef<HTMLDivElement | null>(null);
+  const o = test?.overall ?? null;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <SectionHeader
+          title="显著性检验（卡方同质性 + 两两比较）"
+          desc="基于各集 dist 表的 cnt 列；热力图为调整标准化残差，|r|>1.96 的格子（p<.05）加粗描边。"
+          onExport={async () => {
+            if (!heatmapRef.current || !test) return;
+            await exportNodeAsPng(heatmapRef.current, `compare_dist_${test.kind}_residuals.png`);
+          }}
+        />
+      </CardHeader>
+      <CardContent>
+        {test && o ? (
+          <>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="default">
+                  χ²({o.df}, N={o.n}) = {o.chi2.toFixed(2)}
+                </Badge>
+                <Badge>{fmtP(o.p)}</Badge>
+                <Badge>Cramér's V = {o.cramersV.toFixed(3)}</Badge>
+                {o.lowExpectedShare > 0.2 ? <Badge className="border-amber-200 bg-amber-50 text-amber-700">{Math.round(o.lowExpectedShare * 100)}% 格子期望频数 &lt; 5</Badge> : null}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label className="whitespace-nowrap">多重比较校正</Label>
+                <NativeSelect value={method} onChange={(v) => onMethodChange(v as PAdjustMethod)} options={METHOD_OPTIONS} className="w-56" />
+              </div>
+            </div>
+
+            <div ref={heatmapRef} className="mt-4 overflow-auto rounded-xl border border-slate-200 bg-white p-3">
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1" />
+                    {o.colIdx.map((j) => (
+                      <th key={j} className="px-2 py-1 font-medium text-slate-600">
+                        {test.matrix.keys[j]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {o.rowIdx.map((i, ri) => (
+                    <tr key={i}>
+                      <td className="px-2 py-1 font-medium text-slate-600 whitespace-nowrap">{episodeLabel(test.matrix.eps[i])}</td>
+                      {o.colIdx.map((j, ci) => {
+                        const r = o.residuals[ri][ci];
+                        const strong = Math.abs(r) > RESIDUAL_CUTOFF;
+                        return (
+                          <td
+                            key={j}
+                            title={`观测 ${test.matrix.counts[i][j]} / 期望 ${o.expected[ri][ci].toFixed(1)}`}
+                            className={cn("min-w-[64px] px-2 py-2 text-center tabular-nums", strong ? "font-semibold ring-2 ring-inset ring-slate-900" : "")}
+                            style={{ backgroundColor: residualColor(r) }}
+                          >
+                            {r.toFixed(2)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-2 text-xs text-slate-500">红=高于期望，蓝=低于期望；悬停查看观测/期望频数。</div>
+            </div>
+
+            {test.pairwise.length ? (
+              <div className="mt-4 overflow-auto rounded-xl border border-slate-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">集数对</th>
+                      <th className="px-3 py-2 text-right font-medium">χ²</th>
+                      <th className="px-3 py-2 text-right font-medium">df</th>
+                      <th className="px-3 py-2 text-right font-medium">原始 p</th>
+                      <th className="px-3 py-2 text-right font-medium">校正 p（{P_ADJUST_LABEL[test.method]}）</th>
+                      <th className="px-3 py-2 text-right font-medium">V</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {test.pairwise.map((p) => (
+                      <tr key={`${p.a}-${p.b}`} className={cn("border-t border-slate-100", p.pAdj < test.alpha ? "bg-emerald-50" : "")}>
+                        <td className="px-3 py-2">
+                          {episodeLabel(p.a)} vs {episodeLabel(p.b)}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">{p.chi2.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{p.df}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{fmtP(p.p)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums font-medium">{fmtP(p.pAdj)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{p.cramersV.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+          </>
+        ) : (
+          <EmptyState title="无法检验" desc="至少需要 2 个所选集数同时具有带 cnt 列的 dist 表。" />
+        )}
+        {test?.matrix.noCount.length ? (
+          <div className="mt-3 text-xs text-slate-500">缺少 cnt 未参与检验：{test.matrix.noCount.map((e) => episodeLabel(e)).join("、")}</div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, BarChart, Bar, Cell, ErrorBar, XAxis, YAxis, Tooltip, Legend, CartesianGrid, LineChart as RLineChart, Line, ReferenceLine } from "recharts";
+import { Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Label, NativeSelect, cn } from "./ui";
+import { ChipCheckbox, EmptyState, SectionHeader } from "./common";
+import { type DistFamily } from "../lib/dists";
+import { type DivergencePairId, DIVERGENCE_PAIRS, categoryDiffs, divergenceByEpisode } from "../lib/divergence";
+import { EMO_ORDER, stableColorFromKey } from "../lib/colors";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import { toPercent } from "../lib/format";
+import type { TableMap } from "../lib/types";
+
+type Metric = "jsd" | "tvd";
+
+const FAMILY_OPTIONS = [
+  { label: "情绪 emo（词典）", value: "emo" },
+  { label: "极性 model_emo（模型）", value: "model" },
+  { label: "功能 func", value: "func" },
+];
+const METRIC_OPTIONS = [
+  { label: "Jensen–Shannon 散度", value: "jsd" },
+  { label: "总变差距离（TVD）", value: "tvd" },
+];
+const PAIR_LABEL = Object.fromEntries(DIVERGENCE_PAIRS.map((p) => [p.id, p.label])) as Record<DivergencePairId, string>;
+
+export function DivergencePanel({ activeEp, episodes, tablesByEp }: { activeEp: string | null; episodes: string[]; tablesByEp: Record<string, TableMap> }) {
+  const trendRef = useRef<HTMLDivElement | null>(null);
+  const diffRef = useRef<HTMLDivElement | null>(null);
+  const [family, setFamily] = useState<DistFamily>("emo");
+  const [metric, setMetric] = useState<Metric>("jsd");
+  const [pairs, setPairs] = useState<DivergencePairId[]>(["danmaku_root"]);
+  const [diffPair, setDiffPair] = useState<DivergencePairId>("danmaku_root");
+
+  const rows = useMemo(() => divergenceByEpisode(episodes, tablesByEp, family), [episodes, tablesByEp, family]);
+
+  const trend = useMemo(() => {
+    const byEp = new Map<string, Record<string, any>>();
+    for (const r of rows) {
+      const row = byEp.get(r.ep) ?? { episode: episodeLabel(r.ep), ep: r.ep };
+      row[r.pair] = r[metric];
+      byEp.set(r.ep, row);
+    }
+    return episodes.filter((ep) => byEp.has(ep)).map((ep) => byEp.get(ep)!);
+  }, [rows, metric, episodes]);
+
+  const diffs = useMemo(() => {
+    if (!activeEp) return [];
+    const pair = DIVERGENCE_PAIRS.find((p) => p.id === diffPair)!;
+    const out = categoryDiffs(tablesByEp[activeEp], family, pair.a, pair.b);
+    const order = new Map<string, number>(EMO_ORDER.map((k, i) => [k, i]));
+    const sorted = family === "emo" ? out.sort((a, b) => (order.get(a.key) ?? 999) - (order.get(b.key) ?? 999)) : out.sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+    return sorted.slice(0, 20).map((d) => ({ ...d, err: d.ci ? [d.diff - d.ci[0], d.ci[1] - d.diff] : [0, 0] }));
+  }, [activeEp, tablesByEp, family, diffPair]);
+
+  const togglePair = (id: DivergencePairId) => setPairs((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+  const exportCsv = () => {
+    downloadCsv(
+      `divergence_${family}_${Date.now()}.csv`,
+      rows.map((r) => ({ episode: r.ep, pair: r.pair, jsd: r.jsd.toFixed(5), tvd: r.tvd.toFixed(5), n_a: r.na, n_b: r.nb }))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="弹幕 / 根评 / 回复 分布差异（逐集趋势）"
+            desc="量化“弹幕更偏即时情绪、根评论更偏解释”的差距：JSD / TVD 越大，两个来源的分布越不同。"
+            onExport={async () => {
+              if (!trendRef.current) return;
+              await exportNodeAsPng(trendRef.current, `divergence_${family}_${metric}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+            <div className="rounded-xl border border-slate-200 bg-white p-3">
+              <Label>分布维度</Label>
+              <NativeSelect value={family} onChange={(v) => setFamily(v as DistFamily)} options={FAMILY_OPTIONS} className="mt-2" />
+              <Label className="mt-3 block">度量</Label>
+              <NativeSelect value={metric} onChange={(v) => setMetric(v as Metric)} options={METRIC_OPTIONS} className="mt-2" />
+            </div>
+            <div className="lg:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-medium mb-2">来源对</div>
+                <Button variant="secondary" className="px-3 py-1.5" disabled={!rows.length} onClick={exportCsv}>
+                  <Download className="h-4 w-4" />
+                  CSV
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {DIVERGENCE_PAIRS.map((p) => (
+                  <ChipCheckbox key={p.id} checked={pairs.includes(p.id)} label={p.label} onChange={() => togglePair(p.id)} />
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-slate-500">JSD 以 2 为底（0–1）；有 cnt 时按 cnt 归一，否则按 ratio 归一。</div>
+            </div>
+          </div>
+
+          <div ref={trendRef} className="h-[340px]">
+            {trend.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <RLineChart data={trend} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="episode" tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, "auto"]} tickFormatter={(v) => (v as number).toFixed(2)} />
+                  <Tooltip formatter={(v: any, name: any) => [(v as number).toFixed(4), PAIR_LABEL[name as DivergencePairId] ?? name]} />
+                  <Legend formatter={(v: any) => PAIR_LABEL[v as DivergencePairId] ?? v} />
+                  {pairs.map((id) => (
+                    <Line key={id} type="monotone" dataKey={id} dot={{ r: 3 }} strokeWidth={2.5} stroke={stableColorFromKey("pair_" + id)} connectNulls />
+                  ))}
+                </RLineChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="缺少可比较的分布表" desc="同一集需要至少两个来源的 dist 表（如 danmaku_emo_dist + comment_root_emo_dist）。" />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`逐类别占比差（${activeEp ? episodeLabel(activeEp) : "第—集"} · 95% CI）`}
+            desc="差值 = 前者 − 后者；误差线为两独立比例差的 Wald 置信区间（需要 cnt 列），不跨 0 的类别加深显示。"
+            onExport={async () => {
+              if (!diffRef.current || !activeEp) return;
+              await exportNodeAsPng(diffRef.current, `ep${episodeFileTag(activeEp)}_divergence_${family}_${diffPair}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2 mb-3">
+            <Label className="whitespace-nowrap">来源对</Label>
+            <NativeSelect value={diffPair} onChange={(v) => setDiffPair(v as DivergencePairId)} options={DIVERGENCE_PAIRS.map((p) => ({ label: p.label, value: p.id }))} className="w-56" />
+          </div>
+          <div ref={diffRef} className="h-[340px]">
+            {diffs.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={diffs} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="key" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(v) => `${((v as number) * 100).toFixed(0)}pp`} />
+                  <Tooltip
+                    formatter={(_v: any, _name: any, props: any) => {
+                      const d = props?.payload;
+                      const ci = d?.ci ? `，95% CI [${(d.ci[0] * 100).toFixed(1)}, ${(d.ci[1] * 100).toFixed(1)}]pp` : "（无 cnt，无法给出 CI）";
+                      return [`${(d.diff * 100).toFixed(1)}pp${ci}`, `${toPercent(d.pa)} vs ${toPercent(d.pb)}`];
+                    }}
+                  />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  <Bar dataKey="diff" radius={[6, 6, 6, 6]}>
+                    {diffs.map((d) => (
+                      <Cell key={d.key} fill={d.significant ? "#0f172a" : "#cbd5e1"} />
+                    ))}
+                    <ErrorBar dataKey="err" width={6} strokeWidth={1.5} stroke="#475569" />
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="本集缺少该来源对的分布表" desc="请确认两个来源的 dist 表都已上传。" />
+            )}
+          </div>
+          {diffs.length ? (
+            <div className="mt-3 flex flex-wrap gap-2 text-xs">
+              {diffs.map((d) => (
+                <span key={d.key} className={cn("rounded-full border px-2.5 py-1", d.significant ? "border-slate-900 text-slate-900" : "border-slate-200 text-slate-500")}>
+                  {d.key} {d.diff >= 0 ? "+" : ""}
+                  {(d.diff * 100).toFixed(1)}pp
+                </span>
+              ))}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
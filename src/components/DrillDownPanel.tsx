@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Download, X } from "lucide-react";
+
+import { Badge, Button, ScrollArea } from "./ui";
+import { ChipCheckbox, EmptyState } from "./common";
+import { type DrillWindow, drillDown, drillWindowLabel } from "../lib/drilldown";
+import { colorForKey } from "../lib/colors";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadCsv } from "../lib/export";
+import { fmtClock } from "../lib/format";
+import type { TableMap } from "../lib/types";
+
+const GROUP_PREVIEW = 30;
+
+export function DrillDownPanel({
+  win,
+  tables,
+  mode,
+  onClose,
+}: {
+  win: DrillWindow;
+  tables: TableMap | undefined;
+  mode: "emo" | "func";
+  onClose: () => void;
+}) {
+  const [field, setField] = useState<"emo" | "func">(mode);
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const result = useMemo(() => drillDown(tables, win, field), [tables, win, field]);
+
+  const exportCsv = () => {
+    const rows = result.groups.flatMap((g) =>
+      g.items.map((d) => ({ episode: win.ep, time: d.time.toFixed(1), content: d.content, emo: d.emo ?? "", func: d.func ?? "", burst: d.burst }))
+    );
+    downloadCsv(`ep${episodeFileTag(win.ep)}_danmaku_${win.start}-${win.end}m.csv`, rows);
+  };
+
+  return (
+    <motion.div
+      initial={{ x: 40, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-md flex-col border-l border-slate-200 bg-white shadow-2xl"
+    >
+      <div className="flex items-start justify-between gap-2 border-b border-slate-200 p-4">
+        <div>
+          <div className="text-sm text-slate-500">{episodeLabel(win.ep)}</div>
+          <div className="text-lg font-semibold">{drillWindowLabel(win)}</div>
+          <div className="mt-1 text-xs text-slate-500">
+            {result.hasRaw ? `${result.total} 条弹幕` : "无原始弹幕"} · {result.bursts.length} 个刷屏句
+          </div>
+        </div>
+        <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-900" aria-label="关闭">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-4 py-3">
+        <div className="flex gap-2">
+          {(["emo", "func"] as const).map((f) => (
+            <ChipCheckbox key={f} checked={field === f} label={`按 ${f} 分组`} onChange={() => setField(f)} />
+          ))}
+        </div>
+        <Button variant="secondary" className="px-3 py-1.5" disabled={!result.total} onClick={exportCsv}>
+          <Download className="h-4 w-4" />
+          CSV
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 px-4 pb-4">
+        {result.bursts.length ? (
+          <div className="mb-4">
+            <div className="text-sm font-medium mb-2">刷屏句（2 秒窗）</div>
+            <div className="space-y-1">
+              {result.bursts.slice(0, 20).map((b, i) => (
+                <div key={i} className="flex items-start justify-between gap-2 rounded-lg bg-amber-50 px-2 py-1.5 text-sm">
+                  <span className="break-all">{b.norm_content}</span>
+                  <span className="shrink-0 text-xs text-amber-700">
+                    {fmtClock(b.sec_bin)} × {b.cnt}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {result.groups.length ? (
+          <div className="space-y-4">
+            {result.groups.map((g) => {
+              const open = expanded.includes(g.label);
+              const shown = open ? g.items : g.items.slice(0, GROUP_PREVIEW);
+              return (
+                <div key={g.label}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ background: colorForKey(g.label, field) }} />
+                    <span className="text-sm font-medium">{g.label}</span>
+                    <Badge>{g.items.length}</Badge>
+                  </div>
+                  <div className="space-y-0.5">
+                    {shown.map((d, i) => (
+                      <div key={i} className="flex gap-2 text-sm">
+                        <span className="w-12 shrink-0 text-xs leading-5 text-slate-400">{fmtClock(d.time)}</span>
+                        <span className={d.burst ? "break-all font-medium text-amber-700" : "break-all text-slate-700"}>{d.content}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {g.items.length > GROUP_PREVIEW ? (
+                    <button
+                      type="button"
+                      className="mt-1 text-xs text-slate-500 underline underline-offset-2 hover:text-slate-900"
+                      onClick={() => setExpanded((prev) => (open ? prev.filter((x) => x !== g.label) : [...prev, g.label]))}
+                    >
+                      {open ? "收起" : `展开其余 ${g.items.length - GROUP_PREVIEW} 条`}
+                    </button>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        ) : !result.bursts.length ? (
+          <EmptyState
+            title="这个时间窗里没有可列出的弹幕"
+            desc={result.hasRaw ? "该区间内没有弹幕。" : "本集没有原始弹幕（raw_danmaku），刷屏表里也没有落在该区间的句子。"}
+          />
+        ) : null}
+      </ScrollArea>
+    </motion.div>
+  );
+}
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, FolderSearch, Plus, RotateCcw, Trash2, Upload } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle, Badge, Button, Card, CardContent, CardHeader, Input, Label, NativeSelect, ScrollArea, cn } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import { type FileMapping, DEFAULT_FILE_MAPPING, compileFileMapping } from "../lib/fileMapping";
+import { type FilePreview, type FilePreviewStatus, FILE_PREVIEW_LABEL, previewFileName, previewFiles } from "../lib/ingest";
+import { RAW_KEYS } from "../lib/raw";
+import { TABLE_SCHEMAS, tableLabel } from "../lib/schema";
+
+const KEY_OPTIONS = [...Object.keys(TABLE_SCHEMAS), ...Object.values(RAW_KEYS)].map((k) => ({ label: `${tableLabel(k)}（${k}）`, value: k }));
+
+const PREVIEW_STYLE: Record<FilePreviewStatus, string> = {
+  matched: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  no_ep: "border-amber-200 bg-amber-50 text-amber-700",
+  unmatched: "border-red-200 bg-red-50 text-red-700",
+  not_data: "border-slate-200 bg-slate-50 text-slate-500",
+  bad_zip: "border-red-200 bg-red-50 text-red-700",
+};
+
+const PREVIEW_ORDER: FilePreviewStatus[] = ["unmatched", "no_ep", "bad_zip", "matched", "not_data"];
+
+function move<T>(list: T[], i: number, d: -1 | 1) {
+  const j = i + d;
+  if (j < 0 || j >= list.length) return list;
+  const next = list.slice();
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+function PreviewTag({ p }: { p: FilePreview }) {
+  return <span className={cn("rounded-full border px-2 py-0.5 text-xs", PREVIEW_STYLE[p.status])}>{FILE_PREVIEW_LABEL[p.status]}</span>;
+}
+
+export function FileMappingPanel({
+  mapping,
+  onChange,
+  onIngest,
+  busy,
+}: {
+  mapping: FileMapping;
+  onChange: (m: FileMapping) => void;
+  onIngest: (files: File[]) => void;
+  busy?: boolean;
+}) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [preview, setPreview] = useState<FilePreview[]>([]);
+  const [probe, setProbe] = useState<string>("S02E14_danmaku_emo.csv");
+
+  const compiled = useMemo(() => compileFileMapping(mapping), [mapping]);
+  const probeResult = useMemo(() => previewFileName(probe, compiled), [probe, compiled]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!files.length) {
+      setPreview([]);
+      return;
+    }
+    previewFiles(files, mapping).then((rows) => {
+      if (!cancelled) setPreview(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [files, mapping]);
+
+  const previewRows = useMemo(
+    () => preview.slice().sort((a, b) => PREVIEW_ORDER.indexOf(a.status) - PREVIEW_ORDER.indexOf(b.status)),
+    [preview]
+  );
+  const counts = useMemo(() => {
+    const c: Record<FilePreviewStatus, number> = { matched: 0, no_ep: 0, unmatched: 0, not_data: 0, bad_zip: 0 };
+    for (const p of preview) c[p.status]++;
+    return c;
+  }, [preview]);
+
+  const setRules = (rules: FileMapping["rules"]) => onChange({ ...mapping, rules });
+  const setEpisodePatterns = (episodePatterns: string[]) => onChange({ ...mapping, episodePatterns });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="文件名 → 表 映射规则"
+            desc="规则自上而下匹配（正则，不区分大小写），第一个命中的决定导入到哪张表；修改后自动保存到本机设置。"
+          />
+        </CardHeader>
+        <CardContent>
+          {compiled.errors.length ? (
+            <Alert className="mb-3 border-amber-200 bg-amber-50">
+              <AlertTitle>以下正则无法编译，已被忽略</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {compiled.errors.map((e, i) => (
+                    <li key={i}>{e}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          ) : null}
+
+          <ScrollArea className="max-h-[420px] pr-1">
+            <div className="space-y-2">
+              {mapping.rules.map((r, i) => (
+                <div key={i} className="grid grid-cols-[32px_1fr_1fr_auto] items-center gap-2">
+                  <span className="text-xs text-slate-400 tabular-nums">{i + 1}</span>
+                  <Input value={r.pattern} onChange={(e) => setRules(mapping.rules.map((x, j) => (j === i ? { ...x, pattern: e.target.value } : x)))} className="font-mono" />
+                  <NativeSelect value={r.key} onChange={(v) => setRules(mapping.rules.map((x, j) => (j === i ? { ...x, key: v } : x)))} options={KEY_OPTIONS} />
+                  <div className="flex items-center gap-1">
+                    <Button variant="secondary" className="px-2 py-1.5" disabled={i === 0} onClick={() => setRules(move(mapping.rules, i, -1))}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="secondary" className="px-2 py-1.5" disabled={i === mapping.rules.length - 1} onClick={() => setRules(move(mapping.rules, i, 1))}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="secondary" className="px-2 py-1.5" onClick={() => setRules(mapping.rules.filter((_, j) => j !== i))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            <Button variant="secondary" onClick={() => setRules([...mapping.rules, { pattern: "", key: KEY_OPTIONS[0].value }])}>
+              <Plus className="h-4 w-4" />
+              添加规则
+            </Button>
+            <Button variant="secondary" onClick={() => onChange(DEFAULT_FILE_MAPPING)}>
+              <RotateCcw className="h-4 w-4" />
+              恢复默认
+            </Button>
+          </div>
+
+          <div className="mt-5 grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="rounded-xl border border-slate-200 bg-white p-3">
+              <div className="text-sm font-medium">集号规则</div>
+              <div className="mt-1 text-xs text-slate-500">依次尝试，取命名分组 (?&lt;ep&gt;…)，否则取第 1 组；同一正则里的 (?&lt;season&gt;…) 作为季号。</div>
+              <div className="mt-2 space-y-2">
+                {mapping.episodePatterns.map((p, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <Input value={p} onChange={(e) => setEpisodePatterns(mapping.episodePatterns.map((x, j) => (j === i ? e.target.value : x)))} className="font-mono" />
+                    <Button variant="secondary" className="px-2 py-1.5" onClick={() => setEpisodePatterns(mapping.episodePatterns.filter((_, j) => j !== i))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="secondary" className="px-3 py-1.5" onClick={() => setEpisodePatterns([...mapping.episodePatterns, ""])}>
+                  <Plus className="h-4 w-4" />
+                  添加
+                </Button>
+              </div>
+              <Label className="mt-4 block">季号规则（可选）</Label>
+              <Input value={mapping.seasonPattern} onChange={(e) => onChange({ ...mapping, seasonPattern: e.target.value })} className="mt-2 font-mono" placeholder="如 第(\d+)季" />
+              <Label className="mt-4 block">系列规则（可选，也会匹配 zip 文件名）</Label>
+              <Input value={mapping.seriesPattern ?? ""} onChange={(e) => onChange({ ...mapping, seriesPattern: e.target.value })} className="mt-2 font-mono" placeholder="如 ^(?<series>[^_]+)_" />
+              <Label className="mt-4 block">默认系列名</Label>
+              <Input value={mapping.defaultSeries ?? ""} onChange={(e) => onChange({ ...mapping, defaultSeries: e.target.value })} className="mt-2" placeholder="留空 = 不区分系列；导入另一部作品前填上它的名字" />
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-3">
+              <div className="text-sm font-medium">试一下</div>
+              <div className="mt-1 text-xs text-slate-500">输入文件名，查看按当前规则会被识别成什么。</div>
+              <Input value={probe} onChange={(e) => setProbe(e.target.value)} className="mt-2 font-mono" />
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <PreviewTag p={probeResult} />
+                {probeResult.key ? <Badge>{tableLabel(probeResult.key)}</Badge> : null}
+                {probeResult.series ? <Badge>{probeResult.series}</Badge> : null}
+                {probeResult.season ? <Badge>第{probeResult.season}季</Badge> : null}
+                {probeResult.ep ? <Badge>第{probeResult.ep}集</Badge> : null}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <SectionHeader title="导入前预览" desc="选择 zip / CSV / JSON / XML，只读取文件名（zip 只读目录）并按当前规则分类；确认无误后再导入。" />
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept=".csv,.json,.xml,.zip"
+            className="hidden"
+            onChange={(e) => {
+              setFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="secondary" onClick={() => inputRef.current?.click()}>
+              <FolderSearch className="h-4 w-4" />
+              选择文件预览
+            </Button>
+            <Button
+              disabled={!files.length || busy || !counts.matched}
+              onClick={() => {
+                onIngest(files);
+                setFiles([]);
+              }}
+            >
+              <Upload className="h-4 w-4" />
+              按当前规则导入（{counts.matched} 个）
+            </Button>
+            {files.length ? (
+              <Button variant="secondary" onClick={() => setFiles([])}>
+                清空
+              </Button>
+            ) : null}
+          </div>
+
+          {previewRows.length ? (
+            <>
+              <div className="mt-3 flex flex-wrap gap-2">
+                {PREVIEW_ORDER.map((s) => (
+                  <span key={s} className={cn("rounded-full border px-2.5 py-1 text-xs", PREVIEW_STYLE[s])}>
+                    {FILE_PREVIEW_LABEL[s]} {counts[s]}
+                  </span>
+                ))}
+              </div>
+              <ScrollArea className="mt-3 max-h-[360px] rounded-xl border border-slate-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">文件</th>
+                      <th className="px-3 py-2 text-left font-medium">状态</th>
+                      <th className="px-3 py-2 text-left font-medium">表</th>
+                      <th className="px-3 py-2 text-left font-medium">系列</th>
+                      <th className="px-3 py-2 text-left font-medium">季</th>
+                      <th className="px-3 py-2 text-left font-medium">集</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((p, i) => (
+                      <tr key={`${p.source ?? ""}/${p.name}/${i}`} className="border-t border-slate-100">
+                        <td className="px-3 py-2">
+                          <div className="break-all">{p.name}</div>
+                          {p.source ? <div className="text-xs text-slate-400">来自 {p.source}</div> : null}
+                        </td>
+                        <td className="px-3 py-2">
+                          <PreviewTag p={p} />
+                        </td>
+                        <td className="px-3 py-2">{p.key ? tableLabel(p.key) : "—"}</td>
+                        <td className="px-3 py-2">{p.series ?? "—"}</td>
+                        <td className="px-3 py-2 tabular-nums">{p.season ?? "—"}</td>
+                        <td className="px-3 py-2 tabular-nums">{p.ep ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            </>
+          ) : (
+            <div className="mt-3">
+              <EmptyState title="尚未选择文件" desc="预览不会导入任何数据；规则修改后预览会即时刷新。" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from "react";
+import { CheckCircle2, AlertTriangle, XCircle, MinusCircle, X } from "lucide-react";
+
+import { Badge, Button, Label, ScrollArea, Switch, cn } from "./ui";
+import { type IngestReportEntry, type IngestStatus, INGEST_STATUS_LABEL, tableLabel } from "../lib/schema";
+
+const STATUS_ORDER: IngestStatus[] = ["rejected", "warning", "skipped", "accepted"];
+
+const STATUS_STYLE: Record<IngestStatus, string> = {
+  accepted: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  warning: "border-amber-200 bg-amber-50 text-amber-700",
+  rejected: "border-red-200 bg-red-50 text-red-700",
+  skipped: "border-slate-200 bg-slate-50 text-slate-500",
+};
+
+function StatusIcon({ status }: { status: IngestStatus }) {
+  if (status === "accepted") return <CheckCircle2 className="h-4 w-4 text-emerald-600" />;
+  if (status === "warning") return <AlertTriangle className="h-4 w-4 text-amber-600" />;
+  if (status === "rejected") return <XCircle className="h-4 w-4 text-red-600" />;
+  return <MinusCircle className="h-4 w-4 text-slate-400" />;
+}
+
+export function IngestReportPanel({ entries, onDismiss }: { entries: IngestReportEntry[]; onDismiss?: () => void }) {
+  const [problemsOnly, setProblemsOnly] = useState<boolean>(true);
+
+  const counts = useMemo(() => {
+    const c: Record<IngestStatus, number> = { accepted: 0, warning: 0, rejected: 0, skipped: 0 };
+    for (const e of entries) c[e.status]++;
+    return c;
+  }, [entries]);
+
+  const rows = useMemo(() => {
+    const base = problemsOnly ? entries.filter((e) => e.status !== "accepted") : entries;
+    return base.slice().sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  }, [entries, problemsOnly]);
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-medium">上传报告（逐文件）</div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {STATUS_ORDER.map((s) => (
+              <span key={s} className={cn("inline-flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs", STATUS_STYLE[s])}>
+                {INGEST_STATUS_LABEL[s]} {counts[s]}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch checked={problemsOnly} onCheckedChange={setProblemsOnly} />
+            <Label>只看有问题的</Label>
+          </div>
+          {onDismiss ? (
+            <Button variant="secondary" className="px-3 py-1.5" onClick={onDismiss}>
+              <X className="h-4 w-4" />
+              关闭
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {rows.length ? (
+        <ScrollArea className="mt-3 max-h-[280px] pr-1">
+          <div className="space-y-2">
+            {rows.map((e, idx) => (
+              <div key={`${e.source ?? ""}/${e.name}/${idx}`} className="rounded-xl border border-slate-200 p-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <StatusIcon status={e.status} />
+                  <span className="text-sm font-medium break-all">{e.name}</span>
+                  <span className={cn("rounded-full border px-2 py-0.5 text-xs", STATUS_STYLE[e.status])}>{INGEST_STATUS_LABEL[e.status]}</span>
+                  {e.key ? <Badge>{tableLabel(e.key)}</Badge> : null}
+                  {e.series ? <Badge>{e.series}</Badge> : null}
+                  {e.season ? <Badge>第{e.season}季</Badge> : null}
+                  {e.ep ? <Badge>第{e.ep}集</Badge> : null}
+                  {e.rows != null ? <Badge>{e.rows} 行</Badge> : null}
+                </div>
+                {e.source ? <div className="mt-1 text-xs text-slate-400">来自 {e.source}</div> : null}
+                {e.reasons.length ? (
+                  <ul className="mt-2 list-disc pl-5 text-xs text-slate-600 space-y-0.5">
+                    {e.reasons.map((r, i) => (
+                      <li key={i}>{r}</li>
+                    ))}
+                  </ul>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      ) : (
+        <div className="mt-3 text-sm text-slate-500">全部 {entries.length} 个文件均已接收，未发现问题。</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import React, { useMemo, useRef, useState } from "react";
+import JSZip from "jszip";
+import Papa from "papaparse";
+import { ArrowDown, ArrowUp, Download, Play, Plus, RotateCcw, Trash2, Upload } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle, Badge, Button, Card, CardContent, CardHeader, Input, Label, NativeSelect, ScrollArea, Switch, cn } from "./ui";
+import { ChipCheckbox, EmptyState, SectionHeader } from "./common";
+import {
+  type Lexicon,
+  type LexiconCategory,
+  type LexiconDimension,
+  type RelabelResult,
+  DEFAULT_LEXICON,
+  LEXICON_DIMENSIONS,
+  LEXICON_FALLBACK,
+  compileLexicon,
+  diffTables,
+  relabelEpisode,
+  relabelPatches,
+} from "../lib/lexicon";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadBlob, downloadText } from "../lib/export";
+import { fmtClock, fmtNum, toPercent } from "../lib/format";
+import type { IngestPatch } from "../lib/ingest";
+import { RAW_KEYS } from "../lib/raw";
+import { tableLabel } from "../lib/schema";
+import { usePersistentState } from "../lib/settings";
+import type { TableMap } from "../lib/types";
+
+const SAMPLE_LIMIT = 300;
+
+function move<T>(list: T[], i: number, d: -1 | 1) {
+  const j = i + d;
+  if (j < 0 || j >= list.length) return list;
+  const next = list.slice();
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+function fmtTime(sec?: number) {
+  return sec == null ? "评论" : fmtClock(sec);
+}
+
+function LabelChange({ before, after, hit }: { before?: string; after: string; hit: string }) {
+  const changed = before !== after;
+  return (
+    <div>
+      <span className={cn(changed ? "font-medium text-slate-900" : "text-slate-500")}>
+        {changed ? `${before ?? "—"} → ${after}` : after}
+      </span>
+      {hit ? <span className="ml-1 rounded bg-amber-50 px-1 text-xs text-amber-700">{hit}</span> : null}
+    </div>
+  );
+}
+
+export function LexiconPanel({
+  episodes,
+  tablesByEp,
+  activeEp,
+  onApply,
+}: {
+  episodes: string[];
+  tablesByEp: Record<string, TableMap>;
+  activeEp: string | null;
+  onApply: (patches: IngestPatch[]) => void;
+}) {
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [lexicon, setLexicon] = usePersistentState<Lexicon>("lexicon", DEFAULT_LEXICON);
+  const [dim, setDim] = useState<LexiconDimension>("emo");
+  // 只有点“重新打标”才按当前词典计算，编辑过程中不反复跑全量
+  const [runLexicon, setRunLexicon] = useState<Lexicon | null>(null);
+  const [pickedEp, setPickedEp] = useState<string | null>(null);
+  const [onlyChanged, setOnlyChanged] = useState(true);
+  const [sampleLabel, setSampleLabel] = useState<string>("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const rawEps = useMemo(
+    () => episodes.filter((ep) => tablesByEp[ep]?.[RAW_KEYS.DANMAKU]?.length || tablesByEp[ep]?.[RAW_KEYS.COMMENTS]?.length),
+    [episodes, tablesByEp]
+  );
+  const compiled = useMemo(() => compileLexicon(lexicon), [lexicon]);
+  const dirty = runLexicon != null && JSON.stringify(runLexicon) !== JSON.stringify(lexicon);
+
+  const results = useMemo(() => {
+    if (!runLexicon) return [] as RelabelResult[];
+    const c = compileLexicon(runLexicon);
+    return rawEps.map((ep) => relabelEpisode(ep, tablesByEp[ep], c)).filter((r): r is RelabelResult => !!r);
+  }, [runLexicon, rawEps, tablesByEp]);
+
+  const diffsByEp = useMemo(() => new Map(results.map((r) => [r.ep, diffTables(tablesByEp[r.ep], r.tables)])), [results, tablesByEp]);
+
+  const ep = pickedEp && rawEps.includes(pickedEp) ? pickedEp : activeEp && rawEps.includes(activeEp) ? activeEp : rawEps[0] ?? null;
+  const current = results.find((r) => r.ep === ep) ?? null;
+  const currentDiffs = (ep && diffsByEp.get(ep)) || [];
+
+  const samples = useMemo(() => {
+    if (!current) return [];
+    return current.items.filter((it) => {
+      const after = it[dim].label;
+      if (onlyChanged && it.before[dim] === after) return false;
+      return !sampleLabel || after === sampleLabel;
+    });
+  }, [current, dim, onlyChanged, sampleLabel]);
+
+  const categories = lexicon[dim] ?? [];
+  const setCategories = (fn: (prev: LexiconCategory[]) => LexiconCategory[]) => setLexicon((prev) => ({ ...prev, [dim]: fn(prev[dim] ?? []) }));
+  const updateCategory = (i: number, patch: Partial<LexiconCategory>) => setCategories((prev) => prev.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  const labelOptions = useMemo(
+    () => [{ label: "全部类别", value: "" }, ...Array.from(new Set([...categories.map((c) => c.label).filter(Boolean), LEXICON_FALLBACK])).map((k) => ({ label: k, value: k }))],
+    [categories]
+  );
+
+  const exportTables = async () => {
+    if (!results.length || !runLexicon) return;
+    const zip = new JSZip();
+    for (const r of results) {
+      const tag = episodeFileTag(r.ep);
+      for (const [key, rows] of Object.entries(r.tables)) zip.file(`ep${tag}/${key}_ep${tag}.csv`, "\ufeff" + Papa.unparse(rows));
+    }
+    zip.file("lexicon.json", JSON.stringify(runLexicon, null, 2));
+    downloadBlob(`relabeled_tables_${Date.now()}.zip`, await zip.generateAsync({ type: "blob" }));
+  };
+
+  const importLexicon = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!LEXICON_DIMENSIONS.every((d) => Array.isArray(parsed?.[d]))) throw new Error("缺少 emo / func 类别数组");
+      const clean = (list: any[]): LexiconCategory[] =>
+        list.map((c) => ({ label: String(c?.label ?? ""), keywords: String(c?.keywords ?? ""), pattern: String(c?.pattern ?? ""), priority: Number(c?.priority) || 0 }));
+      setLexicon({ emo: clean(parsed.emo), func: clean(parsed.func) });
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err?.message ?? "无法解析词典 JSON。");
+    }
+  };
+
+  if (!rawEps.length) {
+    return <EmptyState title="没有原始弹幕/评论" desc="词典打标需要原始文本：请上传 B 站弹幕 XML（或 raw_danmaku CSV）与评论 JSON/CSV，导入后会保存为 raw_danmaku / raw_comments 表。" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader title="词典 / 规则编辑" desc="每个类别可配关键词与正则；一条文本命中多个类别时取优先级最高的，都未命中记为 other。词典保存在浏览器中。" />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <div className="flex gap-2">
+              {LEXICON_DIMENSIONS.map((d) => (
+                <Button key={d} variant={dim === d ? "default" : "secondary"} onClick={() => setDim(d)}>
+                  {d}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="secondary" onClick={() => downloadText(`lexicon_${Date.now()}.json`, JSON.stringify(lexicon, null, 2), "application/json")}>
+                <Download className="h-4 w-4" />
+                导出词典
+              </Button>
+              <Button variant="secondary" onClick={() => importRef.current?.click()}>
+                <Upload className="h-4 w-4" />
+                导入词典
+              </Button>
+              <input
+                ref={importRef}
+                type="file"
+                accept=".json"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) importLexicon(f);
+                  e.target.value = "";
+                }}
+              />
+              <Button variant="secondary" onClick={() => setLexicon(DEFAULT_LEXICON)}>
+                <RotateCcw className="h-4 w-4" />
+                恢复默认
+              </Button>
+            </div>
+          </div>
+
+          {importError ? (
+            <Alert className="mb-3 border-red-200 bg-red-50">
+              <AlertTitle>导入失败</AlertTitle>
+              <AlertDescription>{importError}</AlertDescription>
+            </Alert>
+          ) : null}
+          {compiled.errors.length ? (
+            <Alert className="mb-3 border-amber-200 bg-amber-50">
+              <AlertTitle>以下正则已被跳过</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-5">
+                  {compiled.errors.map((e) => (
+                    <li key={e}>{e}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          ) : null}
+
+          <div className="space-y-2">
+            <div className="hidden md:grid grid-cols-12 gap-2 px-1 text-xs text-slate-500">
+              <div className="col-span-2">类别</div>
+              <div className="col-span-1">优先级</div>
+              <div className="col-span-5">关键词（空格/逗号分隔）</div>
+              <div className="col-span-3">正则</div>
+            </div>
+            {categories.map((c, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                <Input className="col-span-6 md:col-span-2" value={c.label} placeholder="label" onChange={(e) => updateCategory(i, { label: e.target.value })} />
+                <Input className="col-span-6 md:col-span-1" type="number" value={c.priority} onChange={(e) => updateCategory(i, { priority: Number(e.target.value) || 0 })} />
+                <Input className="col-span-12 md:col-span-5" value={c.keywords} placeholder="泪目 破防 感动" onChange={(e) => updateCategory(i, { keywords: e.target.value })} />
+                <Input className="col-span-9 md:col-span-3 font-mono" value={c.pattern} placeholder="可选" onChange={(e) => updateCategory(i, { pattern: e.target.value })} />
+                <div className="col-span-3 md:col-span-1 flex justify-end gap-1">
+                  <button type="button" className="p-1 text-slate-400 hover:text-slate-900" onClick={() => setCategories((prev) => move(prev, i, -1))}>
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button type="button" className="p-1 text-slate-400 hover:text-slate-900" onClick={() => setCategories((prev) => move(prev, i, 1))}>
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button type="button" className="p-1 text-slate-400 hover:text-red-600" onClick={() => setCategories((prev) => prev.filter((_, j) => j !== i))}>
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Button variant="secondary" onClick={() => setCategories((prev) => [...prev, { label: "", keywords: "", pattern: "", priority: 1 }])}>
+              <Plus className="h-4 w-4" />
+              添加类别
+            </Button>
+            <Button onClick={() => setRunLexicon(lexicon)}>
+              <Play className="h-4 w-4" />
+              重新打标（{rawEps.length} 集）
+            </Button>
+            {dirty ? <Badge>词典已修改，结果未更新</Badge> : null}
+          </div>
+        </CardContent>
+      </Card>
+
+      {results.length ? (
+        <>
+          <Card>
+            <CardHeader>
+              <SectionHeader title="与已上传表的差异" desc="TVD 为类别构成的总变差距离（分钟曲线按各列总条数的构成比较）；0 表示与上传表一致。" />
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <Button onClick={() => onApply(relabelPatches(results))}>写入看板（{results.length} 集）</Button>
+                <Button variant="secondary" onClick={exportTables}>
+                  <Download className="h-4 w-4" />
+                  导出重新生成的表（zip）
+                </Button>
+                <span className="text-xs text-slate-500">写入后会替换对应集数的分布表和分钟曲线，其它图表随之更新。</span>
+              </div>
+              <div className="overflow-auto rounded-xl border border-slate-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">集</th>
+                      <th className="px-3 py-2 text-right font-medium">文本数</th>
+                      <th className="px-3 py-2 text-right font-medium">emo 改变</th>
+                      <th className="px-3 py-2 text-right font-medium">func 改变</th>
+                      <th className="px-3 py-2 text-right font-medium">最大 TVD</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map((r) => {
+                      const worst = (diffsByEp.get(r.ep) ?? []).reduce((mx, d) => Math.max(mx, d.tvd), 0);
+                      return (
+                        <tr
+                          key={r.ep}
+                          onClick={() => setPickedEp(r.ep)}
+                          className={cn("border-t border-slate-100 cursor-pointer hover:bg-slate-50", r.ep === ep && "bg-slate-50")}
+                        >
+                          <td className="px-3 py-2">{episodeLabel(r.ep)}</td>
+                          <td className="px-3 py-2 text-right">{fmtNum(r.items.length, 0)}</td>
+                          <td className="px-3 py-2 text-right">{toPercent(r.changed.emo / Math.max(1, r.items.length))}</td>
+                          <td className="px-3 py-2 text-right">{toPercent(r.changed.func / Math.max(1, r.items.length))}</td>
+                          <td className="px-3 py-2 text-right">{worst.toFixed(3)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {ep ? (
+                <div className="mt-4">
+                  <div className="text-sm font-medium mb-2">{episodeLabel(ep)} · 逐表差异</div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                    {currentDiffs.map((d) => (
+                      <div key={d.key} className="rounded-xl border border-slate-200 bg-white p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-sm font-medium">{tableLabel(d.key)}</div>
+                          {d.hasBefore ? <Badge>TVD {d.tvd.toFixed(3)}</Badge> : <Badge>原先无此表</Badge>}
+                        </div>
+                        <div className="mt-2 space-y-1 text-xs">
+                          {d.shifts.slice(0, 6).map((s) => (
+                            <div key={s.label} className="flex justify-between gap-2">
+                              <span className="text-slate-600">{s.label}</span>
+                              <span className={cn(Math.abs(s.delta) >= 0.05 ? "text-slate-900 font-medium" : "text-slate-500")}>
+                                {toPercent(s.before)} → {toPercent(s.after)}（{s.delta >= 0 ? "+" : ""}
+                                {(s.delta * 100).toFixed(1)}pp）
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <SectionHeader title={`逐条标签（${ep ? episodeLabel(ep) : "第—集"}）`} desc="显示每条文本的原标签 → 新标签，以及命中的关键词或正则片段，便于检查词典为什么这样判。" />
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <div className="flex gap-2">
+                  {LEXICON_DIMENSIONS.map((d) => (
+                    <ChipCheckbox key={d} checked={dim === d} label={d} onChange={() => setDim(d)} />
+                  ))}
+                </div>
+                <NativeSelect value={sampleLabel} onChange={setSampleLabel} options={labelOptions} className="w-40" />
+                <div className="flex items-center gap-2">
+                  <Switch checked={onlyChanged} onCheckedChange={setOnlyChanged} />
+                  <Label>只看标签改变的</Label>
+                </div>
+                <span className="text-xs text-slate-500">
+                  共 {samples.length} 条{samples.length > SAMPLE_LIMIT ? `，显示前 ${SAMPLE_LIMIT} 条` : ""}
+                </span>
+              </div>
+              {samples.length ? (
+                <ScrollArea className="h-[420px] rounded-xl border border-slate-200">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium w-16">时间</th>
+                        <th className="px-3 py-2 text-left font-medium">文本</th>
+                        <th className="px-3 py-2 text-left font-medium w-48">emo</th>
+                        <th className="px-3 py-2 text-left font-medium w-48">func</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {samples.slice(0, SAMPLE_LIMIT).map((it, i) => (
+                        <tr key={i} className="border-t border-slate-100 align-top">
+                          <td className="px-3 py-2 text-slate-500">{fmtTime(it.time)}</td>
+                          <td className="px-3 py-2 break-all">{it.content}</td>
+                          <td className="px-3 py-2">
+                            <LabelChange before={it.before.emo} after={it.emo.label} hit={it.emo.hit} />
+                          </td>
+                          <td className="px-3 py-2">
+                            <LabelChange before={it.before.func} after={it.func.label} hit={it.func.hit} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              ) : (
+                <EmptyState title="没有符合条件的文本" desc="换一个类别，或关闭“只看标签改变的”。" />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      ) : (
+        <EmptyState title="尚未打标" desc="编辑好词典后点击“重新打标”，会对所有带原始文本的集数重新计算分布表和分钟曲线。" />
+      )}
+    </div>
+  );
+}
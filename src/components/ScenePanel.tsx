@@ -0,0 +1,106 @@
+import React, { useRef, useState } from "react";
+import { Download, Plus, Trash2, Upload } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle, Button, Card, CardContent, CardHeader, Input, NativeSelect } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import { type Scene, SCENE_TAGS, sceneColor, scenesFromRows } from "../lib/scenes";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadCsv } from "../lib/export";
+import { parseCsv } from "../lib/tables";
+
+export function ScenePanel({ ep, scenes, onChange }: { ep: string | null; scenes: Scene[]; onChange: (ep: string, scenes: Scene[]) => void }) {
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  if (!ep) return null;
+
+  const update = (i: number, patch: Partial<Scene>) => onChange(ep, scenes.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+  const tagOptions = (tag: string) => [{ label: "（无）", value: "" }, ...Array.from(new Set([...SCENE_TAGS, tag].filter(Boolean))).map((t) => ({ label: t, value: t }))];
+
+  const importFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      const rows = /\.json$/i.test(file.name) ? JSON.parse(text) : (await parseCsv(text)).rows;
+      const list = scenesFromRows(Array.isArray(rows) ? rows : rows?.scenes);
+      if (!list.length) throw new Error("没有读到段落：需要 start、end（分钟）与 label 列。");
+      onChange(ep, list);
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err?.message ?? "无法解析段落文件。");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <SectionHeader
+          title={`剧情段落标注（${episodeLabel(ep)}）`}
+          desc="起止均为分钟（含两端），在曲线上显示为带标签的色带；生成报告时会自动列出与峰值、Top 区间重叠的段落。也可以在 zip 里放 episode_scenes_ep*.csv 一起导入。"
+        />
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <Button variant="secondary" onClick={() => onChange(ep, [...scenes, { start: scenes.length ? scenes[scenes.length - 1].end + 1 : 0, end: scenes.length ? scenes[scenes.length - 1].end + 3 : 2, label: "", tag: "" }])}>
+            <Plus className="h-4 w-4" />
+            添加段落
+          </Button>
+          <Button variant="secondary" onClick={() => importRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            导入 CSV/JSON
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".csv,.json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) importFile(f);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="secondary" disabled={!scenes.length} onClick={() => downloadCsv(`episode_scenes_ep${episodeFileTag(ep)}.csv`, scenes, ["start", "end", "label", "tag"])}>
+            <Download className="h-4 w-4" />
+            导出 CSV
+          </Button>
+        </div>
+
+        {importError ? (
+          <Alert className="mb-3 border-red-200 bg-red-50">
+            <AlertTitle>导入失败</AlertTitle>
+            <AlertDescription>{importError}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        {scenes.length ? (
+          <div className="space-y-2">
+            <div className="hidden md:grid grid-cols-12 gap-2 px-1 text-xs text-slate-500">
+              <div className="col-span-2">开始（分钟）</div>
+              <div className="col-span-2">结束（分钟）</div>
+              <div className="col-span-5">段落</div>
+              <div className="col-span-2">剧情功能</div>
+            </div>
+            {scenes.map((s, i) => (
+              <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                <Input className="col-span-3 md:col-span-2" type="number" min={0} value={s.start} onChange={(e) => update(i, { start: Number(e.target.value) || 0 })} />
+                <Input className="col-span-3 md:col-span-2" type="number" min={0} value={s.end} onChange={(e) => update(i, { end: Number(e.target.value) || 0 })} />
+                <Input className="col-span-6 md:col-span-5" value={s.label} placeholder="如：墨大夫夺舍" onChange={(e) => update(i, { label: e.target.value })} />
+                <div className="col-span-10 md:col-span-2 flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ background: s.tag ? sceneColor(s.tag) : "#e2e8f0" }} />
+                  <NativeSelect value={s.tag} onChange={(v) => update(i, { tag: v })} options={tagOptions(s.tag)} />
+                </div>
+                <div className="col-span-2 md:col-span-1 flex justify-end">
+                  <button type="button" className="p-1 text-slate-400 hover:text-red-600" onClick={() => onChange(ep, scenes.filter((_, j) => j !== i))}>
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <EmptyState title="本集还没有段落标注" desc="添加段落或导入 CSV（列：start,end,label,tag），用于把 Top 区间与峰值对应到剧情。" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
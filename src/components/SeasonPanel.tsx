@@ -0,0 +1,252 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, CartesianGrid, LineChart as RLineChart, Line } from "recharts";
+import { ArrowDown, ArrowUp, Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Input, Label, Switch, cn } from "./ui";
+import { ChipCheckbox, EmptyState, SectionHeader } from "./common";
+import { type SeasonMetric, fmtMetric, metricValue, robustZ, seasonMetrics, seasonRows } from "../lib/season";
+import { stableColorFromKey } from "../lib/colors";
+import { episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import { usePersistentState } from "../lib/settings";
+import type { TableMap } from "../lib/types";
+
+function standardize(values: number[]) {
+  const ok = values.filter(Number.isFinite);
+  const mean = ok.reduce((a, b) => a + b, 0) / Math.max(1, ok.length);
+  const sd = Math.sqrt(ok.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, ok.length));
+  return values.map((v) => (Number.isFinite(v) ? (sd > 0 ? (v - mean) / sd : 0) : NaN));
+}
+
+export function SeasonPanel({
+  activeEp,
+  episodes,
+  episodeStats,
+  basicStatsByEp,
+  tablesByEp,
+  onPickEpisode,
+}: {
+  activeEp: string | null;
+  episodes: string[];
+  episodeStats?: any[];
+  basicStatsByEp: Record<string, any>;
+  tablesByEp: Record<string, TableMap>;
+  onPickEpisode?: (ep: string) => void;
+}) {
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const [picked, setPicked] = usePersistentState<string[]>("season.metrics", ["danmu_total", "reply_root_ratio"]);
+  const [zscale, setZscale] = useState<boolean>(false);
+  const [threshold, setThreshold] = usePersistentState<number>("season.outlierZ", 3.5);
+  const [sort, setSort] = useState<{ key: string; desc: boolean }>({ key: "ep", desc: false });
+
+  const rows = useMemo(() => seasonRows(episodes, episodeStats, basicStatsByEp, tablesByEp), [episodes, episodeStats, basicStatsByEp, tablesByEp]);
+  const metrics = useMemo(() => seasonMetrics(rows), [rows]);
+  const metricOf = useMemo(() => new Map<string, SeasonMetric>(metrics.map((m) => [m.key, m])), [metrics]);
+  const zByMetric = useMemo(() => new Map(metrics.map((m) => [m.key, robustZ(rows, m.key)])), [rows, metrics]);
+
+  const chartKeys = useMemo(() => {
+    const shown = picked.filter((k) => metricOf.has(k));
+    return shown.length ? shown : metrics.slice(0, 1).map((m) => m.key);
+  }, [picked, metricOf, metrics]);
+  const isOutlier = (ep: string, key: string) => Math.abs(zByMetric.get(key)?.get(ep) ?? 0) >= threshold;
+
+  const chartData = useMemo(() => {
+    const cols = Object.fromEntries(chartKeys.map((k) => {
+      const values = rows.map((r) => metricValue(r, k));
+      return [k, zscale ? standardize(values) : values];
+    }));
+    return rows.map((r, i) => ({
+      ep: r.ep,
+      episode: episodeLabel(r.ep),
+      ...Object.fromEntries(chartKeys.map((k) => [k, Number.isFinite(cols[k][i]) ? cols[k][i] : null])),
+    }));
+  }, [rows, chartKeys, zscale]);
+
+  const sorted = useMemo(() => {
+    if (sort.key === "ep") return sort.desc ? rows.slice().reverse() : rows;
+    return rows.slice().sort((a, b) => {
+      const va = metricValue(a, sort.key);
+      const vb = metricValue(b, sort.key);
+      if (!Number.isFinite(va)) return 1;
+      if (!Number.isFinite(vb)) return -1;
+      return sort.desc ? vb - va : va - vb;
+    });
+  }, [rows, sort]);
+
+  const outliers = useMemo(
+    () =>
+      metrics.flatMap((m) =>
+        rows
+          .map((r) => ({ ep: r.ep, metric: m, z: zByMetric.get(m.key)?.get(r.ep) ?? 0 }))
+          .filter((o) => Math.abs(o.z) >= threshold)
+      ).sort((a, b) => Math.abs(b.z) - Math.abs(a.z)),
+    [metrics, rows, zByMetric, threshold]
+  );
+
+  const togglePicked = (k: string) => setPicked((prev) => (prev.includes(k) ? prev.filter((x) => x !== k) : [...prev, k]));
+  const toggleSort = (key: string) => setSort((prev) => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== "ep" }));
+
+  const exportCsv = () => {
+    downloadCsv(
+      `season_overview_${Date.now()}.csv`,
+      sorted.map((r) => ({
+        episode: r.ep,
+        ...Object.fromEntries(metrics.map((m) => [m.key, Number.isFinite(metricValue(r, m.key)) ? metricValue(r, m.key) : ""])),
+        outliers: metrics.filter((m) => isOutlier(r.ep, m.key)).map((m) => m.key).join("|"),
+      }))
+    );
+  };
+
+  if (!rows.length || !metrics.length) {
+    return <EmptyState title="暂无分集统计" desc="请上传 episode_stats.csv，或各集的 danmaku_basic_stats / 情绪分布表。" />;
+  }
+
+  const SortIcon = ({ k }: { k: string }) => (sort.key === k ? sort.desc ? <ArrowDown className="inline h-3 w-3" /> : <ArrowUp className="inline h-3 w-3" /> : null);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title="全季趋势"
+            desc="episode_stats 的全部数值列（缺失时取 danmaku_basic_stats）与派生指标；红圈为离群集（修正 z 分数 |z| ≥ 阈值）。量纲不同的指标可打开“标准化”放在同一坐标轴。"
+            onExport={async () => {
+              if (!chartRef.current) return;
+              await exportNodeAsPng(chartRef.current, `season_trend${zscale ? "_z" : ""}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+            <div className="lg:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
+              <div className="text-sm font-medium mb-2">指标</div>
+              <div className="flex flex-wrap gap-2">
+                {metrics.map((m) => (
+                  <ChipCheckbox key={m.key} checked={chartKeys.includes(m.key)} label={m.derived ? `${m.label}（派生）` : m.label} onChange={() => togglePicked(m.key)} />
+                ))}
+              </div>
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-white p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch checked={zscale} onCheckedChange={setZscale} />
+                <Label>标准化（各指标 z 分数）</Label>
+              </div>
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label>离群阈值 |z|≥</Label>
+                  <span className="text-xs text-slate-500">{threshold}</span>
+                </div>
+                <Input type="number" min={1} max={10} step={0.5} value={threshold} onChange={(e) => setThreshold(Math.max(1, Math.min(10, Number(e.target.value) || 3.5)))} className="mt-2" />
+              </div>
+            </div>
+          </div>
+
+          <div ref={chartRef} className="h-[360px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <RLineChart data={chartData} margin={{ top: 10, right: 12, left: 0, bottom: 10 }} onClick={(e: any) => e?.activePayload?.[0]?.payload?.ep && onPickEpisode?.(e.activePayload[0].payload.ep)}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="episode" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(v) => (zscale ? (v as number).toFixed(1) : fmtMetric(v as number, chartKeys.length === 1 ? metricOf.get(chartKeys[0]) : undefined))} />
+                <Tooltip
+                  formatter={(v: any, name: any, props: any) => {
+                    const key = String(props?.dataKey ?? name);
+                    const row = rows.find((r) => r.ep === props?.payload?.ep);
+                    const raw = row ? fmtMetric(metricValue(row, key), metricOf.get(key)) : "—";
+                    return [zscale ? `${(v as number).toFixed(2)}（${raw}）` : raw, metricOf.get(key)?.label ?? key];
+                  }}
+                />
+                <Legend formatter={(v: any) => metricOf.get(String(v))?.label ?? v} />
+                {chartKeys.map((k) => (
+                  <Line
+                    key={k}
+                    type="monotone"
+                    dataKey={k}
+                    stroke={stableColorFromKey("season_" + k)}
+                    strokeWidth={2.5}
+                    connectNulls
+                    dot={(p: any) =>
+                      isOutlier(p.payload.ep, k) ? (
+                        <circle key={`${k}-${p.index}`} cx={p.cx} cy={p.cy} r={6} fill="white" stroke="#dc2626" strokeWidth={2.5} />
+                      ) : (
+                        <circle key={`${k}-${p.index}`} cx={p.cx} cy={p.cy} r={3} fill={stableColorFromKey("season_" + k)} />
+                      )
+                    }
+                  />
+                ))}
+              </RLineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {outliers.length ? (
+            <div className="mt-3 flex flex-wrap gap-2 text-xs">
+              {outliers.slice(0, 20).map((o) => (
+                <button
+                  key={`${o.ep}-${o.metric.key}`}
+                  type="button"
+                  onClick={() => onPickEpisode?.(o.ep)}
+                  className={cn("rounded-full border px-2.5 py-1", o.z > 0 ? "border-red-200 bg-red-50 text-red-700" : "border-blue-200 bg-blue-50 text-blue-700")}
+                >
+                  {episodeLabel(o.ep)} · {o.metric.label} {o.z > 0 ? "偏高" : "偏低"}（z={o.z.toFixed(1)}）
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="mt-3 text-xs text-slate-500">当前阈值下没有离群集（少于 4 集时不做判断）。</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <SectionHeader title="分集排名" desc="点击表头排序（再次点击切换升降序），点击行切换到该集；离群值按方向标红 / 标蓝。" />
+            <Button variant="secondary" onClick={exportCsv}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-right font-medium">#</th>
+                  <th className="px-3 py-2 text-left font-medium whitespace-nowrap cursor-pointer" onClick={() => toggleSort("ep")}>
+                    集 <SortIcon k="ep" />
+                  </th>
+                  {metrics.map((m) => (
+                    <th key={m.key} className="px-3 py-2 text-right font-medium whitespace-nowrap cursor-pointer" onClick={() => toggleSort(m.key)}>
+                      {m.label} <SortIcon k={m.key} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((r, i) => (
+                  <tr key={r.ep} className={cn("border-t border-slate-100 cursor-pointer hover:bg-slate-50", r.ep === activeEp && "bg-slate-50 font-medium")} onClick={() => onPickEpisode?.(r.ep)}>
+                    <td className="px-3 py-2 text-right text-slate-400">{i + 1}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{episodeLabel(r.ep)}</td>
+                    {metrics.map((m) => {
+                      const z = zByMetric.get(m.key)?.get(r.ep) ?? 0;
+                      const out = Math.abs(z) >= threshold;
+                      return (
+                        <td
+                          key={m.key}
+                          title={out ? `修正 z=${z.toFixed(2)}` : undefined}
+                          className={cn("px-3 py-2 text-right tabular-nums", out && (z > 0 ? "bg-red-50 text-red-700 font-semibold" : "bg-blue-50 text-blue-700 font-semibold"))}
+                        >
+                          {fmtMetric(metricValue(r, m.key), m)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { Copy, FolderOpen, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge, Button, Input, ScrollArea, cn } from "./ui";
+import type { SessionMeta } from "../lib/sessions";
+
+function fmtTime(ts: number) {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function SessionPanel({
+  sessions,
+  currentId,
+  busy,
+  onRestore,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onNew,
+}: {
+  sessions: SessionMeta[];
+  currentId: string | null;
+  busy?: boolean;
+  onRestore: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-medium">已保存的会话</div>
+          <div className="text-xs text-slate-500">上传后自动保存到浏览器（IndexedDB），刷新页面会恢复上次打开的会话。</div>
+        </div>
+        <Button variant="secondary" onClick={onNew} disabled={busy}>
+          <Plus className="h-4 w-4" />
+          新会话
+        </Button>
+      </div>
+
+      {sessions.length ? (
+        <ScrollArea className="mt-3 max-h-[240px] pr-1">
+          <div className="space-y-2">
+            {sessions.map((s) => {
+              const active = s.id === currentId;
+              return (
+                <div key={s.id} className={cn("flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-xl border p-3", active ? "border-slate-900" : "border-slate-200")}>
+                  <div className="min-w-0 flex-1">
+                    {editingId === s.id ? (
+                      <Input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setEditingId(null);
+                        }}
+                      />
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <div className="text-sm font-medium truncate">{s.name}</div>
+                        {active ? <Badge variant="default">当前</Badge> : null}
+                      </div>
+                    )}
+                    <div className="text-xs text-slate-500 mt-1">
+                      {s.episodeCount} 集 · {s.fileCount} 个文件 · 更新于 {fmtTime(s.updatedAt)}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="secondary" className="px-3 py-1.5" disabled={busy || active} onClick={() => onRestore(s.id)}>
+                      <FolderOpen className="h-4 w-4" />
+                      恢复
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="px-3 py-1.5"
+                      disabled={busy}
+                      onClick={() => {
+                        setEditingId(s.id);
+                        setDraftName(s.name);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      重命名
+                    </Button>
+                    <Button variant="secondary" className="px-3 py-1.5" disabled={busy} onClick={() => onDuplicate(s.id)}>
+                      <Copy className="h-4 w-4" />
+                      复制
+                    </Button>
+                    <Button variant="secondary" className="px-3 py-1.5" disabled={busy} onClick={() => onDelete(s.id)}>
+                      <Trash2 className="h-4 w-4" />
+                      删除
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      ) : (
+        <div className="mt-3 text-sm text-slate-500">暂无保存的会话，上传文件后会自动创建。</div>
+      )}
+    </div>
+  );
+}
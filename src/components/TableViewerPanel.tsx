@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Download } from "lucide-react";
+
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label, NativeSelect, Switch } from "./ui";
+import { EmptyState } from "./common";
+import { type SortDir, columnStats, filterRows, fmtCell, sortRows, tableColumns, tableSources } from "../lib/tableView";
+import { downloadCsv } from "../lib/export";
+import { fmtNum } from "../lib/format";
+import type { Store } from "../lib/types";
+
+const ROW_H = 30;
+const VIEW_H = 480;
+const OVERSCAN = 8;
+const COL_W = 150;
+
+export function TableViewerPanel({ store, sourceId, onSourceId }: { store: Store; sourceId: string; onSourceId: (id: string) => void }) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [sort, setSort] = useState<{ col: string; dir: SortDir } | null>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [showStats, setShowStats] = useState<boolean>(true);
+
+  const sources = useMemo(() => tableSources(store), [store]);
+  const source = sources.find((s) => s.id === sourceId) ?? sources[0];
+
+  // 换表时清空排序 / 筛选并回到顶部
+  useEffect(() => {
+    setSort(null);
+    setFilters({});
+    setScrollTop(0);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  }, [source?.id]);
+
+  const columns = useMemo(() => tableColumns(source?.rows ?? []), [source]);
+  const filtered = useMemo(() => filterRows(source?.rows ?? [], filters), [source, filters]);
+  const view = useMemo(() => (sort ? sortRows(filtered, sort.col, sort.dir) : filtered), [filtered, sort]);
+  const stats = useMemo(() => (showStats ? Object.fromEntries(columns.map((c) => [c, columnStats(view, c)])) : {}), [showStats, columns, view]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_H) - OVERSCAN);
+  const last = Math.min(view.length, Math.ceil((scrollTop + VIEW_H) / ROW_H) + OVERSCAN);
+
+  const toggleSort = (col: string) =>
+    setSort((prev) => (prev?.col !== col ? { col, dir: "asc" } : prev.dir === "asc" ? { col, dir: "desc" } : null));
+
+  const exportCsv = () => {
+    if (!source) return;
+    const base = source.id.replace(/::/g, "_").replace(/^_+/, "");
+    downloadCsv(`${base}${view.length < source.rows.length ? "_filtered" : ""}.csv`, view, columns);
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle>表格查看器</CardTitle>
+        <CardDescription>
+          打开任一已加载的表：点击列名排序（升序 → 降序 → 取消）；筛选框支持子串，或 “&gt;5”“&lt;=0.3”“=2”“!=0” 数值比较，“empty / !empty” 匹配空值。列统计与导出的 CSV 都基于当前筛选结果。
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {source ? (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <NativeSelect value={source.id} onChange={onSourceId} options={sources.map((s) => ({ label: s.label, value: s.id, group: s.group }))} className="w-80" />
+              <div className="flex items-center gap-2">
+                <Switch checked={showStats} onCheckedChange={setShowStats} />
+                <Label>列统计</Label>
+              </div>
+              <Button variant="secondary" disabled={!Object.values(filters).some((f) => f.trim())} onClick={() => setFilters({})}>
+                清空筛选
+              </Button>
+              <Button variant="secondary" disabled={!view.length} onClick={exportCsv}>
+                <Download className="h-4 w-4" />
+                导出当前视图 CSV
+              </Button>
+              <span className="text-sm text-slate-500">
+                {view.length} / {source.rows.length} 行 · {columns.length} 列
+              </span>
+            </div>
+
+            <div ref={scrollRef} className="overflow-auto rounded-xl border border-slate-200" style={{ maxHeight: VIEW_H + 140 }} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+              <table className="text-sm table-fixed" style={{ width: Math.max(columns.length, 1) * COL_W }}>
+                <thead className="sticky top-0 z-10 bg-slate-50 text-slate-500">
+                  <tr>
+                    {columns.map((c) => (
+                      <th key={c} className="px-2 pt-2 text-left font-medium" style={{ width: COL_W }}>
+                        <button type="button" className="inline-flex max-w-full items-center gap-1 hover:text-slate-900" title={c} onClick={() => toggleSort(c)}>
+                          <span className="truncate">{c}</span>
+                          {sort?.col === c ? sort.dir === "asc" ? <ArrowUp className="h-3 w-3 shrink-0" /> : <ArrowDown className="h-3 w-3 shrink-0" /> : null}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                  <tr>
+                    {columns.map((c) => (
+                      <th key={c} className="px-2 py-1.5 font-normal">
+                        <Input className="h-7 text-xs" placeholder="筛选…" value={filters[c] ?? ""} onChange={(e) => setFilters({ ...filters, [c]: e.target.value })} />
+                      </th>
+                    ))}
+                  </tr>
+                  {showStats ? (
+                    <tr className="border-b border-slate-200">
+                      {columns.map((c) => {
+                        const s = stats[c];
+                        return (
+                          <th key={c} className="px-2 pb-2 text-left text-[11px] font-normal leading-4 text-slate-500">
+                            {s?.numeric ? (
+                              <>
+                                <div>min {fmtNum(s.min, 3)} · max {fmtNum(s.max, 3)}</div>
+                                <div>mean {fmtNum(s.mean, 3)} · 空 {s.nulls}</div>
+                              </>
+                            ) : s ? (
+                              <>
+                                <div>{s.distinct} 个不同值</div>
+                                <div>空 {s.nulls}</div>
+                              </>
+                            ) : null}
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  ) : null}
+                </thead>
+                <tbody>
+                  {first > 0 ? <tr style={{ height: first * ROW_H }} /> : null}
+                  {view.slice(first, last).map((r, i) => (
+                    <tr key={first + i} className="border-t border-slate-100" style={{ height: ROW_H }}>
+                      {columns.map((c) => {
+                        const text = fmtCell(r?.[c]);
+                        return (
+                          <td key={c} className="truncate px-2 text-slate-700" title={text}>
+                            {text}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  {last < view.length ? <tr style={{ height: (view.length - last) * ROW_H }} /> : null}
+                </tbody>
+              </table>
+              {!view.length ? <div className="p-4 text-sm text-slate-500">没有符合筛选条件的行。</div> : null}
+            </div>
+          </>
+        ) : (
+          <EmptyState title="还没有加载任何表" desc="上传 CSV / zip 后即可在这里查看。" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
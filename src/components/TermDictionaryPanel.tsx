@@ -0,0 +1,196 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from "recharts";
+import { Download, Plus, Trash2, Upload, X } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle, Button, Card, CardContent, CardHeader, Input, Label, NativeSelect, Switch } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import { type TermDictionary, UNTAGGED, categoryColor, categoryCounts, newCategoryId, parseTermDict, removeCategory, tagTerm } from "../lib/termDict";
+import { type TermSource, TERM_SOURCE_LABEL } from "../lib/terms";
+import { episodeLabel } from "../lib/episodes";
+import { downloadCsv, downloadText, exportNodeAsPng } from "../lib/export";
+import type { TableMap } from "../lib/types";
+
+const SOURCE_OPTIONS = (Object.keys(TERM_SOURCE_LABEL) as TermSource[]).map((s) => ({ label: TERM_SOURCE_LABEL[s], value: s }));
+
+export function TermDictionaryPanel({
+  episodes,
+  tablesByEp,
+  dict,
+  onChange,
+}: {
+  episodes: string[];
+  tablesByEp: Record<string, TableMap>;
+  dict: TermDictionary;
+  onChange: (d: TermDictionary) => void;
+}) {
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [source, setSource] = useState<TermSource>("danmaku");
+  const [asShare, setAsShare] = useState<boolean>(true);
+  const [includeUntagged, setIncludeUntagged] = useState<boolean>(false);
+
+  const rows = useMemo(() => categoryCounts(episodes, tablesByEp, dict, ["danmaku", "comment"]), [episodes, tablesByEp, dict]);
+  const seriesIds = [...dict.categories.map((c) => c.id), ...(includeUntagged ? [UNTAGGED] : [])];
+  const labelOf = (id: string) => (id === UNTAGGED ? "未归类" : dict.categories.find((c) => c.id === id)?.label || id);
+
+  const chartData = useMemo(
+    () =>
+      rows
+        .filter((r) => r.source === source)
+        .map((r) => ({
+          ep: r.ep,
+          episode: episodeLabel(r.ep),
+          ...Object.fromEntries(Object.entries(r.counts).map(([id, v]) => [id, asShare ? (r.total > 0 ? v / r.total : 0) : v])),
+        })),
+    [rows, source, asShare]
+  );
+
+  const termsByCategory = useMemo(() => {
+    const m = new Map<string, string[]>();
+    for (const [term, id] of Object.entries(dict.terms)) m.set(id, [...(m.get(id) ?? []), term]);
+    m.forEach((list) => list.sort());
+    return m;
+  }, [dict]);
+
+  const importDict = async (file: File) => {
+    try {
+      onChange(parseTermDict(JSON.parse(await file.text())));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err?.message ?? "无法解析编码表 JSON。");
+    }
+  };
+
+  const exportCsv = () => {
+    downloadCsv(
+      `term_categories_${Date.now()}.csv`,
+      rows.map((r) => ({
+        episode: r.ep,
+        source: r.source,
+        term_total: r.total,
+        ...Object.fromEntries(Object.entries(r.counts).flatMap(([id, v]) => [[`${labelOf(id)}_cnt`, v], [`${labelOf(id)}_share`, r.total > 0 ? (v / r.total).toFixed(4) : ""]])),
+      }))
+    );
+  };
+
+  const fmtValue = (v: number) => (asShare ? `${(v * 100).toFixed(1)}%` : String(v));
+
+  return (
+    <Card>
+      <CardHeader>
+        <SectionHeader
+          title="词项编码表（身份词 / 仪式词 / 情绪词…）"
+          desc="在上方“高频词粗看”中给词选择类别即可归类；下方按集汇总各类别在词表中的出现次数。编码表保存在浏览器中，可导出 JSON 分享给团队。"
+          onExport={async () => {
+            if (!chartRef.current) return;
+            await exportNodeAsPng(chartRef.current, `term_categories_${source}${asShare ? "_share" : ""}.png`);
+          }}
+        />
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <Button variant="secondary" onClick={() => onChange({ ...dict, categories: [...dict.categories, { id: newCategoryId(dict), label: "" }] })}>
+            <Plus className="h-4 w-4" />
+            添加类别
+          </Button>
+          <Button variant="secondary" onClick={() => downloadText(`term_dictionary_${Date.now()}.json`, JSON.stringify(dict, null, 2), "application/json")}>
+            <Download className="h-4 w-4" />
+            导出 JSON
+          </Button>
+          <Button variant="secondary" onClick={() => importRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            导入 JSON
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) importDict(f);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="secondary" disabled={!rows.length} onClick={exportCsv}>
+            <Download className="h-4 w-4" />
+            汇总 CSV
+          </Button>
+        </div>
+
+        {importError ? (
+          <Alert className="mb-3 border-red-200 bg-red-50">
+            <AlertTitle>导入失败</AlertTitle>
+            <AlertDescription>{importError}</AlertDescription>
+          </Alert>
+        ) : null}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 mb-4">
+          {dict.categories.map((c) => {
+            const terms = termsByCategory.get(c.id) ?? [];
+            return (
+              <div key={c.id} className="rounded-xl border border-slate-200 p-3">
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 shrink-0 rounded-full" style={{ background: categoryColor(c.id) }} />
+                  <Input value={c.label} placeholder="类别名称" onChange={(e) => onChange({ ...dict, categories: dict.categories.map((x) => (x.id === c.id ? { ...x, label: e.target.value } : x)) })} />
+                  <button type="button" className="p-1 text-slate-400 hover:text-red-600" title="删除类别（同时移除其中的词）" onClick={() => onChange(removeCategory(dict, c.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1.5 max-h-28 overflow-auto">
+                  {terms.length ? (
+                    terms.map((t) => (
+                      <span key={t} className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2 py-0.5 text-xs">
+                        {t}
+                        <button type="button" className="text-slate-400 hover:text-red-600" onClick={() => onChange(tagTerm(dict, t, ""))}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))
+                  ) : (
+                    <span className="text-xs text-slate-500">还没有词</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-3">
+          <div className="flex items-center gap-2">
+            <Label className="whitespace-nowrap">来源</Label>
+            <NativeSelect value={source} onChange={(v) => setSource(v as TermSource)} options={SOURCE_OPTIONS} className="w-28" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={asShare} onCheckedChange={setAsShare} />
+            <Label>按占本集词表比例</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={includeUntagged} onCheckedChange={setIncludeUntagged} />
+            <Label>显示未归类</Label>
+          </div>
+        </div>
+
+        <div ref={chartRef} className="h-[340px]">
+          {chartData.length && dict.categories.length ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="episode" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(v) => fmtValue(v as number)} />
+                <Tooltip formatter={(v: any, name: any) => [fmtValue(v as number), labelOf(String(name))]} />
+                <Legend formatter={(v: any) => labelOf(String(v))} />
+                {seriesIds.map((id) => (
+                  <Bar key={id} dataKey={id} stackId="cat" fill={categoryColor(id)} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <EmptyState title="暂无可汇总的词表" desc={`需要 ep*_top_terms_${source}.csv，并至少有一个类别。`} />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
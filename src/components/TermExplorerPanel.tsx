@@ -0,0 +1,277 @@
+import React, { useMemo, useRef, useState } from "react";
+import { ResponsiveContainer, BarChart, Bar, Cell, XAxis, YAxis, Tooltip, Legend, CartesianGrid, LineChart as RLineChart, Line, ReferenceLine } from "recharts";
+import { Download, Plus, X } from "lucide-react";
+
+import { Button, Card, CardContent, CardHeader, Input, Label, NativeSelect } from "./ui";
+import { EmptyState, SectionHeader } from "./common";
+import {
+  type DistinctMethod,
+  type TermSource,
+  type TrajectoryMeasure,
+  DISTINCT_METHOD_OPTIONS,
+  TERM_SOURCE_LABEL,
+  TRAJECTORY_MEASURE_OPTIONS,
+  distinctiveTerms,
+  layoutCloud,
+  logOddsZ,
+  termCounts,
+  termTrajectory,
+} from "../lib/terms";
+import { stableColorFromKey } from "../lib/colors";
+import { episodeFileTag, episodeLabel } from "../lib/episodes";
+import { downloadCsv, exportNodeAsPng } from "../lib/export";
+import type { TableMap } from "../lib/types";
+
+const SOURCE_OPTIONS = (Object.keys(TERM_SOURCE_LABEL) as TermSource[]).map((s) => ({ label: TERM_SOURCE_LABEL[s], value: s }));
+
+const CLOUD_W = 800;
+const CLOUD_H = 360;
+
+function CsvButton({ disabled, onClick }: { disabled?: boolean; onClick: () => void }) {
+  return (
+    <Button variant="secondary" disabled={disabled} onClick={onClick}>
+      <Download className="h-4 w-4" />
+      CSV
+    </Button>
+  );
+}
+
+export function TermExplorerPanel({ activeEp, episodes, tablesByEp }: { activeEp: string | null; episodes: string[]; tablesByEp: Record<string, TableMap> }) {
+  const cloudRef = useRef<HTMLDivElement | null>(null);
+  const trajRef = useRef<HTMLDivElement | null>(null);
+  const distinctRef = useRef<HTMLDivElement | null>(null);
+  const contrastRef = useRef<HTMLDivElement | null>(null);
+  const [source, setSource] = useState<TermSource>("danmaku");
+  const [cloudMax, setCloudMax] = useState<number>(80);
+  const [tracked, setTracked] = useState<string[]>([]);
+  const [termInput, setTermInput] = useState("");
+  const [measure, setMeasure] = useState<TrajectoryMeasure>("permille");
+  const [method, setMethod] = useState<DistinctMethod>("logodds");
+
+  const epTag = activeEp ? `ep${episodeFileTag(activeEp)}` : "ep_unknown";
+  const counts = useMemo(() => termCounts(activeEp ? tablesByEp[activeEp] : undefined, source), [activeEp, tablesByEp, source]);
+  const topWords = useMemo(
+    () => Array.from(counts.entries()).map(([term, cnt]) => ({ term, cnt })).sort((a, b) => b.cnt - a.cnt).slice(0, cloudMax),
+    [counts, cloudMax]
+  );
+  const cloud = useMemo(() => layoutCloud(topWords, CLOUD_W, CLOUD_H), [topWords]);
+
+  const trackTerms = useMemo(() => (tracked.length ? tracked : topWords.slice(0, 3).map((w) => w.term)), [tracked, topWords]);
+  const trajectory = useMemo(
+    () => termTrajectory(episodes, tablesByEp, source, trackTerms, measure).map((r): Record<string, any> => ({ ...r, episode: episodeLabel(r.ep) })),
+    [episodes, tablesByEp, source, trackTerms, measure]
+  );
+
+  const distinct = useMemo(() => (activeEp ? distinctiveTerms(episodes, tablesByEp, source, activeEp, method).slice(0, 20) : []), [episodes, tablesByEp, source, activeEp, method]);
+
+  const contrast = useMemo(() => {
+    if (!activeEp) return [];
+    const all = logOddsZ(termCounts(tablesByEp[activeEp], "danmaku"), termCounts(tablesByEp[activeEp], "comment"));
+    return [...all.filter((s) => s.score > 0).slice(0, 15), ...all.filter((s) => s.score < 0).slice(-15)];
+  }, [activeEp, tablesByEp]);
+
+  const addTerm = (t: string) => {
+    const term = t.trim();
+    if (!term) return;
+    setTracked((prev) => (prev.includes(term) ? prev : [...(prev.length ? prev : trackTerms), term].slice(-8)));
+  };
+
+  const fmtMeasure = (v: number) => (measure === "permille" ? `${v.toFixed(1)}‰` : String(Math.round(v)));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`词云（${activeEp ? episodeLabel(activeEp) : "第—集"} · ${TERM_SOURCE_LABEL[source]}）`}
+            desc="字号按出现次数取对数；点击词加入下方“词项轨迹”。词表为预处理导出的 TopN，占比均相对于本集词表合计。"
+            onExport={async () => {
+              if (!cloudRef.current) return;
+              await exportNodeAsPng(cloudRef.current, `${epTag}_wordcloud_${source}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">来源</Label>
+              <NativeSelect value={source} onChange={(v) => setSource(v as TermSource)} options={SOURCE_OPTIONS} className="w-28" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">词数上限</Label>
+              <Input type="number" min={10} max={200} value={cloudMax} onChange={(e) => setCloudMax(Math.max(10, Math.min(200, Number(e.target.value) || 80)))} className="w-20" />
+            </div>
+            <CsvButton disabled={!topWords.length} onClick={() => downloadCsv(`${epTag}_top_terms_${source}.csv`, topWords)} />
+          </div>
+          <div ref={cloudRef} className="bg-white">
+            {cloud.length ? (
+              <svg viewBox={`0 0 ${CLOUD_W} ${CLOUD_H}`} className="w-full h-auto">
+                {cloud.map((w) => (
+                  <text
+                    key={w.term}
+                    x={w.x + 2}
+                    y={w.y + w.size}
+                    fontSize={w.size}
+                    fill={stableColorFromKey("term_" + w.term)}
+                    style={{ cursor: "pointer" }}
+                    onClick={() => addTerm(w.term)}
+                  >
+                    <title>{`${w.term}：${w.cnt}`}</title>
+                    {w.term}
+                  </text>
+                ))}
+              </svg>
+            ) : (
+              <EmptyState title="缺少高频词表" desc={`请上传 ep*_top_terms_${source}.csv（或 zip）。`} />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <SectionHeader
+            title={`词项轨迹（全季 · ${TERM_SOURCE_LABEL[source]}）`}
+            desc="所选词在每集词表中的次数或占比；没有该来源词表的集断开显示。未选词时默认显示本集前 3 个高频词。"
+            onExport={async () => {
+              if (!trajRef.current) return;
+              await exportNodeAsPng(trajRef.current, `term_trajectory_${source}_${measure}.png`);
+            }}
+          />
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addTerm(termInput);
+                setTermInput("");
+              }}
+            >
+              <Input className="w-44" placeholder="输入词项…" value={termInput} onChange={(e) => setTermInput(e.target.value)} />
+              <Button type="submit" variant="secondary">
+                <Plus className="h-4 w-4" />
+                添加
+              </Button>
+            </form>
+            <NativeSelect value={measure} onChange={(v) => setMeasure(v as TrajectoryMeasure)} options={TRAJECTORY_MEASURE_OPTIONS} className="w-40" />
+            <CsvButton
+              disabled={!trackTerms.length}
+              onClick={() => downloadCsv(`term_trajectory_${source}_${measure}.csv`, trajectory.map((r) => ({ episode: r.ep, ...Object.fromEntries(trackTerms.map((t) => [t, r[t] ?? ""])) })))}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {trackTerms.map((t) => (
+              <span key={t} className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2.5 py-1 text-xs">
+                <span className="h-2 w-2 rounded-full" style={{ background: stableColorFromKey("term_" + t) }} />
+                {t}
+                <button type="button" className="text-slate-400 hover:text-red-600" onClick={() => setTracked(trackTerms.filter((x) => x !== t))}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div ref={trajRef} className="h-[320px]">
+            {trackTerms.length ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <RLineChart data={trajectory} margin={{ top: 10, right: 12, left: 0, bottom: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="episode" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(v) => fmtMeasure(v as number)} />
+                  <Tooltip formatter={(v: any) => (v == null ? "—" : fmtMeasure(v as number))} />
+                  <Legend />
+                  {trackTerms.map((t) => (
+                    <Line key={t} type="monotone" dataKey={t} stroke={stableColorFromKey("term_" + t)} strokeWidth={2.5} dot={{ r: 3 }} />
+                  ))}
+                </RLineChart>
+              </ResponsiveContainer>
+            ) : (
+              <EmptyState title="还没有选择词项" desc="在词云中点击词，或在上方输入词项。" />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <SectionHeader
+              title={`本集特色词（${activeEp ? episodeLabel(activeEp) : "第—集"} · ${TERM_SOURCE_LABEL[source]}）`}
+              desc="对数几率比以全季合计为先验，z 越大越偏向本集；TF-IDF 中每集都出现的词不计入。"
+              onExport={async () => {
+                if (!distinctRef.current) return;
+                await exportNodeAsPng(distinctRef.current, `${epTag}_distinct_terms_${source}_${method}.png`);
+              }}
+            />
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2 mb-3">
+              <NativeSelect value={method} onChange={(v) => setMethod(v as DistinctMethod)} options={DISTINCT_METHOD_OPTIONS} className="w-64" />
+              <CsvButton
+                disabled={!distinct.length}
+                onClick={() => downloadCsv(`${epTag}_distinct_terms_${source}_${method}.csv`, distinct.map((d) => ({ term: d.term, cnt: d.cnt, rest_cnt: d.other, score: d.score.toFixed(4) })))}
+              />
+            </div>
+            <div ref={distinctRef} className="h-[420px]">
+              {distinct.length ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={distinct} layout="vertical" margin={{ top: 4, right: 16, left: 8, bottom: 4 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" tickFormatter={(v) => (v as number).toFixed(1)} />
+                    <YAxis type="category" dataKey="term" width={90} tick={{ fontSize: 12 }} interval={0} />
+                    <Tooltip formatter={(v: any, _n: any, props: any) => [`${(v as number).toFixed(2)}（本集 ${props?.payload?.cnt}，其余 ${props?.payload?.other}）`, method === "logodds" ? "z" : "TF-IDF"]} />
+                    <Bar dataKey="score" fill="#0f172a" radius={[0, 6, 6, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <EmptyState title="暂无特色词" desc="需要本集与至少一个其它集的同来源词表。" />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <SectionHeader
+              title={`弹幕 vs 评论 用词对比（${activeEp ? episodeLabel(activeEp) : "第—集"}）`}
+              desc="对数几率比 z：正值偏弹幕、负值偏评论；两侧各取最显著的 15 个词。"
+              onExport={async () => {
+                if (!contrastRef.current) return;
+                await exportNodeAsPng(contrastRef.current, `${epTag}_term_contrast.png`);
+              }}
+            />
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2 mb-3">
+              <CsvButton
+                disabled={!contrast.length}
+                onClick={() => downloadCsv(`${epTag}_term_contrast.csv`, contrast.map((d) => ({ term: d.term, danmaku_cnt: d.cnt, comment_cnt: d.other, z: d.score.toFixed(4) })))}
+              />
+            </div>
+            <div ref={contrastRef} className="h-[420px]">
+              {contrast.length ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={contrast} layout="vertical" margin={{ top: 4, right: 16, left: 8, bottom: 4 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" tickFormatter={(v) => (v as number).toFixed(1)} />
+                    <YAxis type="category" dataKey="term" width={90} tick={{ fontSize: 12 }} interval={0} />
+                    <Tooltip formatter={(v: any, _n: any, props: any) => [`z=${(v as number).toFixed(2)}（弹幕 ${props?.payload?.cnt}，评论 ${props?.payload?.other}）`, "偏向"]} />
+                    <ReferenceLine x={0} stroke="#94a3b8" />
+                    <Bar dataKey="score" radius={[6, 6, 6, 6]}>
+                      {contrast.map((d) => (
+                        <Cell key={d.term} fill={d.score >= 0 ? stableColorFromKey("src_danmaku") : stableColorFromKey("src_comment")} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <EmptyState title="缺少对比词表" desc="本集需要同时上传 top_terms_danmaku 与 top_terms_comment。" />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React from "react";
+import { Download, Sparkles } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle, Button, Card, CardContent, CardDescription, CardHeader, CardTitle, cn } from "./ui";
+import { episodeLabel, groupEpisodes, parseEpisodeId, sameEpisodeAcrossGroups } from "../lib/episodes";
+
+export function StatCard({ title, value, hint }: { title: string; value: React.ReactNode; hint?: React.ReactNode }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {hint ? <CardContent className="pt-0 text-sm text-slate-500">{hint}</CardContent> : null}
+    </Card>
+  );
+}
+
+export function EmptyState({ title, desc }: { title: string; desc: string }) {
+  return (
+    <Alert>
+      <div className="flex items-start gap-2">
+        <Sparkles className="h-4 w-4 mt-0.5" />
+        <div>
+          <AlertTitle>{title}</AlertTitle>
+          <AlertDescription>{desc}</AlertDescription>
+        </div>
+      </div>
+    </Alert>
+  );
+}
+
+export function ChipCheckbox({ checked, label, onChange }: { checked: boolean; label: string; onChange: (v: boolean) => void }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!checked)}
+      className={cn(
+        "inline-flex items-center rounded-full border px-3 py-1.5 text-sm transition",
+        checked ? "bg-slate-900 text-white border-slate-900" : "bg-white text-slate-700 border-slate-200 hover:bg-slate-50"
+      )}
+      aria-pressed={checked}
+    >
+      {label}
+    </button>
+  );
+}
+
+/** 集数多选：只有一个系列/季时与原来的平铺 chip 一致，否则按组分行，每组可一键全选/清空 */
+export function EpisodeChips({
+  episodes,
+  selected,
+  onToggle,
+  onSelectMany,
+  anchor,
+  onSetSelected,
+}: {
+  episodes: string[];
+  selected: string[];
+  onToggle: (ep: string) => void;
+  onSelectMany: (eps: string[], checked: boolean) => void;
+  /** 给出时显示“各组第 N 集”，一键选中每个系列/季里与 anchor 同集号的集 */
+  anchor?: string | null;
+  onSetSelected?: (eps: string[]) => void;
+}) {
+  const groups = groupEpisodes(episodes);
+  if (groups.length <= 1) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        {episodes.map((ep) => (
+          <ChipCheckbox key={ep} checked={selected.includes(ep)} label={episodeLabel(ep)} onChange={() => onToggle(ep)} />
+        ))}
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2">
+      {anchor && onSetSelected ? (
+        <button type="button" onClick={() => onSetSelected(sameEpisodeAcrossGroups(episodes, anchor))} className="text-xs text-slate-500 underline underline-offset-2 hover:text-slate-900">
+          各组第{parseEpisodeId(anchor).ep}集（跨系列对比）
+        </button>
+      ) : null}
+      {groups.map((g) => {
+        const all = g.eps.every((ep) => selected.includes(ep));
+        return (
+          <div key={g.key} className="flex flex-wrap items-center gap-2">
+            <button type="button" onClick={() => onSelectMany(g.eps, !all)} className="min-w-[96px] text-left text-xs font-medium text-slate-500 hover:text-slate-900" title={all ? "清空本组" : "全选本组"}>
+              {g.label}
+            </button>
+            {g.eps.map((ep) => (
+              <ChipCheckbox key={ep} checked={selected.includes(ep)} label={episodeLabel(ep, true)} onChange={() => onToggle(ep)} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function SectionHeader({ title, desc, onExport }: { title: string; desc?: string; onExport?: () => Promise<void> }) {
+  return (
+    <div className="flex items-start justify-between gap-3">
+      <div>
+        <CardTitle>{title}</CardTitle>
+        {desc ? <CardDescription>{desc}</CardDescription> : null}
+      </div>
+      {onExport ? (
+        <Button variant="secondary" onClick={onExport}>
+          <Download className="h-4 w-4" />
+          PNG
+        </Button>
+      ) : null}
+    </div>
+  );
+}
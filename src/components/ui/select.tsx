@@ -1,6 +1,8 @@
 import React from "react";
 import { cn } from "./primitives";
 
+type SelectOption = { label: string; value: string; group?: string };
+
 export function NativeSelect({
   value,
   onChange,
@@ -9,9 +11,20 @@ export function NativeSelect({
 }: {
   value?: string;
   onChange: (v: string) => void;
-  options: { label: string; value: string }[];
+  /** 带 group 的选项按首次出现的顺序收进 <optgroup> */
+  options: SelectOption[];
   className?: string;
 }) {
+  const groups = new Map<string, SelectOption[]>();
+  for (const o of options) {
+    const key = o.group ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), o]);
+  }
+  const renderOption = (o: SelectOption) => (
+    <option key={o.value} value={o.value}>
+      {o.label}
+    </option>
+  );
   return (
     <select
       value={value}
@@ -21,11 +34,15 @@ export function NativeSelect({
         className
       )}
     >
-      {options.map((o) => (
-        <option key={o.value} value={o.value}>
-          {o.label}
-        </option>
-      ))}
+      {Array.from(groups.entries()).map(([group, opts]) =>
+        group ? (
+          <optgroup key={group} label={group}>
+            {opts.map(renderOption)}
+          </optgroup>
+        ) : (
+          opts.map(renderOption)
+        )
+      )}
     </select>
   );
 }
@@ -0,0 +1,91 @@
+import { EMO_ORDER } from "./colors";
+import { type DistKind, type DistSource, DIST_KINDS, MODEL_EMO_ORDER, distRows } from "./dists";
+import type { TableMap } from "./types";
+
+// 词典 emo（类型维度）→ 极性，与模型 model_emo（极性维度）对照
+export type Polarity = (typeof MODEL_EMO_ORDER)[number];
+export type PolarityMapping = Record<string, Polarity>;
+
+export const DEFAULT_POLARITY_MAPPING: PolarityMapping = {
+  touching: "pos",
+  laugh: "pos",
+  praise: "pos",
+  neg: "neg",
+  self_mock: "neu",
+  other: "neu",
+};
+
+export const AGREEMENT_SOURCES: Array<{ source: DistSource; emo: DistKind; model: DistKind }> = [
+  { source: "danmaku", emo: "emo_danmaku", model: "model_danmaku" },
+  { source: "comment_root", emo: "emo_comment_root", model: "model_comment_root" },
+  { source: "comment_reply", emo: "emo_comment_reply", model: "model_comment_reply" },
+];
+
+export type PolarityMix = Record<Polarity, number>;
+
+export type AgreementRow = {
+  ep: string;
+  source: DistSource;
+  implied: PolarityMix;
+  model: PolarityMix;
+  /** model - implied */
+  diff: PolarityMix;
+  /** 总变差距离 0.5·Σ|p−q|，0=完全一致，1=完全不重叠 */
+  tvd: number;
+  flagged: boolean;
+};
+
+function emptyMix(): PolarityMix {
+  return { pos: 0, neu: 0, neg: 0 };
+}
+
+function normalizeMix(m: PolarityMix): PolarityMix | null {
+  const sum = m.pos + m.neu + m.neg;
+  if (!(sum > 0)) return null;
+  return { pos: m.pos / sum, neu: m.neu / sum, neg: m.neg / sum };
+}
+
+/** 未在映射中的类别（含 EMO_ORDER 之外的新类别）按 neu 处理 */
+export function impliedPolarity(emoRows: any[] | undefined, mapping: PolarityMapping): PolarityMix | null {
+  const mix = emptyMix();
+  for (const r of distRows(emoRows, "emo")) mix[mapping[r.label] ?? "neu"] += r.ratio;
+  return normalizeMix(mix);
+}
+
+export function modelPolarity(modelRows: any[] | undefined): PolarityMix | null {
+  const mix = emptyMix();
+  for (const r of distRows(modelRows, "model")) {
+    if ((MODEL_EMO_ORDER as readonly string[]).includes(r.label)) mix[r.label as Polarity] += r.ratio;
+  }
+  return normalizeMix(mix);
+}
+
+export function computeAgreement(
+  episodes: string[],
+  tablesByEp: Record<string, TableMap>,
+  mapping: PolarityMapping,
+  threshold: number
+): AgreementRow[] {
+  const out: AgreementRow[] = [];
+  for (const ep of episodes) {
+    const tables = tablesByEp[ep] ?? {};
+    for (const s of AGREEMENT_SOURCES) {
+      const implied = impliedPolarity(tables[DIST_KINDS[s.emo].tableKey], mapping);
+      const model = modelPolarity(tables[DIST_KINDS[s.model].tableKey]);
+      if (!implied || !model) continue;
+      const diff = emptyMix();
+      let l1 = 0;
+      for (const k of MODEL_EMO_ORDER) {
+        diff[k] = model[k] - implied[k];
+        l1 += Math.abs(diff[k]);
+      }
+      const tvd = l1 / 2;
+      out.push({ ep, source: s.source, implied, model, diff, tvd, flagged: tvd > threshold });
+    }
+  }
+  return out;
+}
+
+export function mappingIsDefault(mapping: PolarityMapping) {
+  return EMO_ORDER.every((k) => (mapping[k] ?? "neu") === DEFAULT_POLARITY_MAPPING[k]);
+}
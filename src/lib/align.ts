@@ -0,0 +1,97 @@
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+
+// 多集曲线对比的横轴对齐：绝对分钟 / 片长进度 0–100% / 以每集锚点（OP 结束、ED 开始）为 0 的相对分钟。
+// 对齐后的横轴仍放在 minute 列，峰值与 Top 区间直接在对齐坐标里计算。
+
+export type AlignMode = "minute" | "progress" | "anchor";
+
+export type AnchorKey = "op_end" | "ed_start";
+
+export const ALIGN_MODE_OPTIONS: Array<{ label: string; value: AlignMode }> = [
+  { label: "绝对分钟", value: "minute" },
+  { label: "片长进度（0–100%）", value: "progress" },
+  { label: "按锚点对齐", value: "anchor" },
+];
+
+export const ANCHOR_LABEL: Record<AnchorKey, string> = {
+  op_end: "OP 结束",
+  ed_start: "ED 开始",
+};
+
+export const ANCHOR_KEYS = Object.keys(ANCHOR_LABEL) as AnchorKey[];
+
+export type EpisodeAnchors = Partial<Record<AnchorKey, number>>;
+
+/** episode_anchors 表：anchor, minute 两列 */
+export function episodeAnchors(tables: TableMap | undefined): EpisodeAnchors {
+  const out: EpisodeAnchors = {};
+  for (const r of tables?.[TABLE_KEYS.ANCHORS] ?? []) {
+    const key = String(r?.anchor ?? "") as AnchorKey;
+    const minute = safeNumber(r?.minute, NaN);
+    if (ANCHOR_KEYS.includes(key) && Number.isFinite(minute)) out[key] = minute;
+  }
+  return out;
+}
+
+export function anchorsToRows(a: EpisodeAnchors) {
+  return ANCHOR_KEYS.filter((k) => a[k] != null).map((k) => ({ anchor: k, minute: a[k] }));
+}
+
+export type AlignContext = {
+  mode: AlignMode;
+  lastMinute: number;
+  /** anchor 模式下的零点（分钟，已取整）；其它模式为 0 */
+  shift: number;
+  /** anchor 模式下本集没有设置该锚点（按 0 分钟处理） */
+  anchorMissing: boolean;
+};
+
+export function alignContext(curveRows: any[], mode: AlignMode, anchors: EpisodeAnchors, anchorKey: AnchorKey): AlignContext {
+  const lastMinute = curveRows.reduce((mx, r) => Math.max(mx, safeNumber(r.minute)), 0);
+  const anchor = anchors[anchorKey];
+  return {
+    mode,
+    lastMinute,
+    shift: mode === "anchor" ? Math.round(anchor ?? 0) : 0,
+    anchorMissing: mode === "anchor" && anchor == null,
+  };
+}
+
+/** 对齐坐标 → 本集分钟（用于下钻与剧情段落对照） */
+export function fromAligned(x: number, ctx: AlignContext) {
+  if (ctx.mode === "progress") return Math.round((x / 100) * ctx.lastMinute);
+  return x + ctx.shift;
+}
+
+export function fmtAligned(x: number, mode: AlignMode) {
+  if (mode === "progress") return `${x}%`;
+  if (mode === "anchor") return `${x > 0 ? "+" : ""}${x}m`;
+  return `${x}m`;
+}
+
+/** 进度模式在 0..100 的整数百分点上线性插值，其它模式只平移 */
+export function alignCurve(curveRows: any[], seriesKey: string, ctx: AlignContext): Array<{ x: number; v: number }> {
+  const pts = curveRows.map((r) => ({ m: safeNumber(r.minute), v: safeNumber(r[seriesKey]) })).sort((a, b) => a.m - b.m);
+  if (!pts.length) return [];
+  if (ctx.mode !== "progress") return pts.map((p) => ({ x: p.m - ctx.shift, v: p.v }));
+  if (!(ctx.lastMinute > 0)) return [{ x: 0, v: pts[0].v }];
+  const out: Array<{ x: number; v: number }> = [];
+  let j = 0;
+  for (let x = 0; x <= 100; x++) {
+    const m = (x / 100) * ctx.lastMinute;
+    while (j + 1 < pts.length && pts[j + 1].m <= m) j++;
+    const a = pts[j];
+    const b = pts[j + 1];
+    const v = !b || b.m === a.m || m <= a.m ? a.v : a.v + ((b.v - a.v) * (m - a.m)) / (b.m - a.m);
+    out.push({ x, v });
+  }
+  return out;
+}
+
+/** 把分钟窗口换算到对齐坐标：进度模式按参与对比各集的平均片长折算成百分点 */
+export function alignedWindow(windowMinutes: number, mode: AlignMode, contexts: AlignContext[]) {
+  if (mode !== "progress" || !contexts.length) return windowMinutes;
+  const avg = contexts.reduce((s, c) => s + c.lastMinute + 1, 0) / contexts.length;
+  return Math.max(1, Math.round((windowMinutes / avg) * 100));
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BURST_CLUSTER_OPTIONS, clusterPhrases, phraseSimilarity, trackMemes } from "./burstCluster";
+
+describe("phraseSimilarity", () => {
+  it("编辑距离与 2-gram Dice", () => {
+    expect(phraseSimilarity("韩跑跑", "韩老魔", "edit")).toBeCloseTo(1 / 3);
+    expect(phraseSimilarity("韩老魔yyds", "韩老魔yyds!!", "ngram")).toBeCloseTo(12 / 14);
+    expect(phraseSimilarity("前排", "前排", "edit")).toBe(1);
+  });
+});
+
+describe("clusterPhrases", () => {
+  it("写法不同的刷屏句归为一簇，长度差太大的不会并入", () => {
+    const weights = new Map([
+      ["哈哈哈哈哈", 8],
+      ["哈哈哈哈哈哈哈哈", 5],
+      ["韩老魔yyds", 6],
+      ["韩老魔yyds!", 3],
+      ["韩老魔yyds韩老魔yyds韩老魔yyds", 4],
+    ]);
+    for (const method of ["edit", "ngram"] as const) {
+      const { clusters } = clusterPhrases(weights, { ...DEFAULT_BURST_CLUSTER_OPTIONS, method, minTotal: 1 });
+      expect(clusters.map((c) => [c.label, c.total])).toEqual([
+        ["哈哈哈哈哈", 13],
+        ["韩老魔yyds", 9],
+        ["韩老魔yyds韩老魔yyds韩老魔yyds", 4],
+      ]);
+    }
+  });
+});
+
+describe("trackMemes", () => {
+  it("统计梗出现的集、强度和首次出现", () => {
+    const tablesByEp = {
+      "1": { danmaku_burst_2s: [{ sec_bin: 100, norm_content: "韩老魔yyds", cnt: 6 }, { sec_bin: 102, norm_content: "韩老魔yyds!", cnt: 3 }] },
+      "2": { danmaku_burst_2s: [{ sec_bin: 40, norm_content: "韩老魔yyds", cnt: 9 }] },
+    };
+    const [meme] = trackMemes(["1", "2"], tablesByEp, DEFAULT_BURST_CLUSTER_OPTIONS);
+    expect(meme.episodes).toEqual(["1", "2"]);
+    expect(meme.byEp["1"]).toEqual({ cnt: 9, bins: 2, peak: 6, firstSec: 100 });
+    expect(meme.first).toEqual({ ep: "1", sec: 100 });
+  });
+});
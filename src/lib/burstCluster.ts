@@ -0,0 +1,203 @@
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+import { normalizeContent } from "./raw";
+
+// 刷屏句（danmaku_burst_2s）的近重复聚类与跨集梗追踪。
+// 先把句子归一（去空白/标点、长重复折叠为两次），再按相似度做贪心的“代表句”聚类：
+// 按总次数从高到低，每句并入第一个与其代表句相似度 ≥ 阈值的簇，否则自成一簇。
+
+export type PhraseSimilarity = "edit" | "ngram";
+
+export const PHRASE_SIMILARITY_OPTIONS: Array<{ label: string; value: PhraseSimilarity }> = [
+  { label: "归一化编辑距离", value: "edit" },
+  { label: "字符 2-gram（Dice）", value: "ngram" },
+];
+
+export type BurstClusterOptions = { method: PhraseSimilarity; threshold: number; minTotal: number };
+
+export const DEFAULT_BURST_CLUSTER_OPTIONS: BurstClusterOptions = { method: "ngram", threshold: 0.6, minTotal: 5 };
+
+export type BurstItem = { sec_bin: number; phrase: string; cnt: number };
+
+export function burstItems(tables: TableMap | undefined): BurstItem[] {
+  return (tables?.[TABLE_KEYS.BURST_2S] ?? [])
+    .map((r: any) => ({ sec_bin: safeNumber(r.sec_bin), phrase: String(r.norm_content ?? r.content ?? ""), cnt: safeNumber(r.cnt) }))
+    .filter((b) => b.phrase && b.cnt > 0);
+}
+
+/** 匹配用的键：在 normalizeContent 基础上去掉标点符号，连续重复折叠为两次 */
+export function matchKey(phrase: string) {
+  return normalizeContent(phrase)
+    .replace(/[\p{P}\p{S}]/gu, "")
+    .replace(/(.)\1{2,}/gu, "$1$1");
+}
+
+/** 超过 maxDist 后提前返回（某一行的最小值已大于 maxDist，最终距离不可能更小） */
+function levenshtein(a: string[], b: string[], maxDist = Infinity) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > maxDist) return rowMin;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function bigrams(chars: string[]) {
+  if (chars.length < 2) return new Map([[chars.join(""), 1]]);
+  const m = new Map<string, number>();
+  for (let i = 0; i + 1 < chars.length; i++) {
+    const g = chars[i] + chars[i + 1];
+    m.set(g, (m.get(g) ?? 0) + 1);
+  }
+  return m;
+}
+
+/** 每个键只拆一次字符 / 2-gram，聚类时反复比较的是这些预处理结果 */
+type PhraseProfile = { text: string; chars: string[]; charCounts: Map<string, number>; grams: Map<string, number>; nGrams: number };
+
+function phraseProfile(text: string): PhraseProfile {
+  const chars = Array.from(text);
+  const charCounts = new Map<string, number>();
+  for (const ch of chars) charCounts.set(ch, (charCounts.get(ch) ?? 0) + 1);
+  const grams = bigrams(chars);
+  let nGrams = 0;
+  grams.forEach((v) => (nGrams += v));
+  return { text, chars, charCounts, grams, nGrams };
+}
+
+/**
+ * 先用长度给出相似度上界（编辑距离 ≥ 长度差、≥ 较长一方减去共有字符数；Dice 的交集 ≤ 较短一方），
+ * 上界够不到 threshold 的直接返回 0，不做完整计算。
+ */
+function overlap(a: Map<string, number>, b: Map<string, number>) {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let inter = 0;
+  small.forEach((v, k) => (inter += Math.min(v, large.get(k) ?? 0)));
+  return inter;
+}
+
+function profileSimilarity(a: PhraseProfile, b: PhraseProfile, method: PhraseSimilarity, threshold = 0) {
+  if (a.text === b.text) return 1;
+  if (!a.chars.length || !b.chars.length) return 0;
+  if (method === "edit") {
+    const maxLen = Math.max(a.chars.length, b.chars.length);
+    if (Math.min(a.chars.length, b.chars.length) / maxLen < threshold) return 0;
+    if (overlap(a.charCounts, b.charCounts) / maxLen < threshold) return 0;
+    return 1 - levenshtein(a.chars, b.chars, Math.floor((1 - threshold) * maxLen + 1e-9)) / maxLen;
+  }
+  const total = a.nGrams + b.nGrams;
+  if ((2 * Math.min(a.nGrams, b.nGrams)) / total < threshold) return 0;
+  return (2 * overlap(a.grams, b.grams)) / total;
+}
+
+export function phraseSimilarity(a: string, b: string, method: PhraseSimilarity) {
+  return profileSimilarity(phraseProfile(a), phraseProfile(b), method);
+}
+
+export type PhraseCluster = {
+  id: number;
+  /** 代表句：簇内总次数最高的原句 */
+  label: string;
+  variants: Array<{ phrase: string; cnt: number }>;
+  total: number;
+};
+
+/** weights: 原句 → 总次数；返回按总次数降序的簇 */
+export function clusterPhrases(weights: Map<string, number>, opts: BurstClusterOptions): { clusters: PhraseCluster[]; clusterOf: Map<string, number> } {
+  // 先按匹配键合并，再对键做相似度聚类
+  const byKey = new Map<string, Array<{ phrase: string; cnt: number }>>();
+  weights.forEach((cnt, phrase) => {
+    const key = matchKey(phrase) || phrase;
+    byKey.set(key, [...(byKey.get(key) ?? []), { phrase, cnt }]);
+  });
+  const keys = Array.from(byKey.entries())
+    .map(([key, variants]) => ({ key, variants, total: variants.reduce((s, v) => s + v.cnt, 0) }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+
+  const leaders: Array<{ profile: PhraseProfile; members: typeof keys }> = [];
+  for (const k of keys) {
+    const profile = phraseProfile(k.key);
+    const hit = leaders.find((l) => profileSimilarity(l.profile, profile, opts.method, opts.threshold) >= opts.threshold);
+    if (hit) hit.members.push(k);
+    else leaders.push({ profile, members: [k] });
+  }
+
+  const clusters: PhraseCluster[] = [];
+  const clusterOf = new Map<string, number>();
+  for (const l of leaders) {
+    const variants = l.members.flatMap((m) => m.variants).sort((a, b) => b.cnt - a.cnt);
+    const total = variants.reduce((s, v) => s + v.cnt, 0);
+    if (total < opts.minTotal) continue;
+    const id = clusters.length;
+    clusters.push({ id, label: variants[0].phrase, variants, total });
+    variants.forEach((v) => clusterOf.set(v.phrase, id));
+  }
+  return { clusters, clusterOf };
+}
+
+export type EpisodeBurstClusters = {
+  clusters: PhraseCluster[];
+  /** 每个簇在本集各 sec_bin 的次数 */
+  occurrences: Array<BurstItem & { cluster: number }>;
+};
+
+export function episodeBurstClusters(tables: TableMap | undefined, opts: BurstClusterOptions): EpisodeBurstClusters {
+  const items = burstItems(tables);
+  const weights = new Map<string, number>();
+  for (const b of items) weights.set(b.phrase, (weights.get(b.phrase) ?? 0) + b.cnt);
+  const { clusters, clusterOf } = clusterPhrases(weights, opts);
+  const occurrences = items.filter((b) => clusterOf.has(b.phrase)).map((b) => ({ ...b, cluster: clusterOf.get(b.phrase)! }));
+  return { clusters, occurrences };
+}
+
+export type MemeTrack = {
+  cluster: PhraseCluster;
+  /** 每集：次数合计、刷屏 bin 数、单 bin 峰值、首次出现秒 */
+  byEp: Record<string, { cnt: number; bins: number; peak: number; firstSec: number }>;
+  episodes: string[];
+  first: { ep: string; sec: number } | null;
+};
+
+/** 全季统一聚类，再统计每个簇出现在哪些集；按出现集数、总次数排序 */
+export function trackMemes(episodes: string[], tablesByEp: Record<string, TableMap>, opts: BurstClusterOptions): MemeTrack[] {
+  const perEp = episodes.map((ep) => ({ ep, items: burstItems(tablesByEp[ep]) })).filter((x) => x.items.length);
+  const weights = new Map<string, number>();
+  for (const { items } of perEp) for (const b of items) weights.set(b.phrase, (weights.get(b.phrase) ?? 0) + b.cnt);
+  const { clusters, clusterOf } = clusterPhrases(weights, opts);
+
+  const tracks: MemeTrack[] = clusters.map((cluster) => ({ cluster, byEp: {}, episodes: [], first: null }));
+  for (const { ep, items } of perEp)
+    for (const b of items) {
+      const id = clusterOf.get(b.phrase);
+      if (id == null) continue;
+      const t = tracks[id];
+      const e = (t.byEp[ep] ??= { cnt: 0, bins: 0, peak: 0, firstSec: Infinity });
+      e.cnt += b.cnt;
+      e.bins++;
+      e.peak = Math.max(e.peak, b.cnt);
+      e.firstSec = Math.min(e.firstSec, b.sec_bin);
+    }
+  for (const t of tracks) {
+    t.episodes = perEp.map((x) => x.ep).filter((ep) => t.byEp[ep]);
+    t.first = t.episodes.length ? { ep: t.episodes[0], sec: t.byEp[t.episodes[0]].firstSec } : null;
+  }
+  return tracks.sort((a, b) => b.episodes.length - a.episodes.length || b.cluster.total - a.cluster.total);
+}
+
+/** 时间曲线上叠加的“刷屏密度”列：每分钟落入的刷屏条数（cnt 合计） */
+export const BURST_DENSITY_KEY = "burst_density";
+
+export function burstDensityByMinute(items: BurstItem[]) {
+  const m = new Map<number, number>();
+  for (const b of items) {
+    const minute = Math.floor(b.sec_bin / 60);
+    m.set(minute, (m.get(minute) ?? 0) + b.cnt);
+  }
+  return m;
+}
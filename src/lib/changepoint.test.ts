@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CHANGEPOINT_OPTIONS, detectCurve } from "./changepoint";
+
+const curve = (values: number[]) => values.map((v, minute) => ({ minute, x: v }));
+
+describe("detectCurve", () => {
+  it("在均值突变处给出变点，并标出孤立尖峰", () => {
+    const values = [...Array(10).fill(5), ...Array(10).fill(20)].map((v, i) => v + (i % 3) - 1);
+    values[15] = 80;
+    const { changes, anomalies } = detectCurve(curve(values), ["x"], DEFAULT_CHANGEPOINT_OPTIONS);
+    expect(changes[0]).toMatchObject({ minute: 10, direction: "up" });
+    expect(anomalies.map((a) => a.minute)).toEqual([15]);
+  });
+
+  it("稀疏计数曲线（残差 MAD 为 0）也能检测异常", () => {
+    const values = [0, 0, 1, 0, 0, 0, 2, 0, 0, 0, 15, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+    const { anomalies } = detectCurve(curve(values), ["x"], DEFAULT_CHANGEPOINT_OPTIONS);
+    expect(anomalies.map((a) => a.minute)).toEqual([10]);
+    expect(anomalies[0].direction).toBe("up");
+  });
+
+  it("常数曲线没有变点也没有异常", () => {
+    expect(detectCurve(curve(Array(12).fill(3)), ["x"], DEFAULT_CHANGEPOINT_OPTIONS)).toEqual({ changes: [], anomalies: [] });
+  });
+});
@@ -0,0 +1,164 @@
+import { safeNumber } from "./tables";
+
+// 时间曲线的变点（均值突变，PELT + 平方误差代价）与异常分钟（相对滚动中位数的稳健 z 分数）。
+// 只依赖曲线本身，不区分 emo / func，也适用于变换后的曲线。
+
+export type ChangePointOptions = {
+  /** 惩罚系数：β = penalty · σ² · ln(n)，越大变点越少 */
+  penalty: number;
+  /** 每段至少包含的分钟数 */
+  minSize: number;
+  /** 异常阈值：相对滚动中位数残差的稳健 z 绝对值 */
+  anomalyZ: number;
+};
+
+export const DEFAULT_CHANGEPOINT_OPTIONS: ChangePointOptions = { penalty: 2, minSize: 2, anomalyZ: 3 };
+
+export type ChangePoint = {
+  series: string;
+  /** 新段开始的 minute */
+  minute: number;
+  before: number;
+  after: number;
+  delta: number;
+  direction: "up" | "down";
+};
+
+export type Anomaly = {
+  series: string;
+  minute: number;
+  value: number;
+  /** 前后 2 分钟的滚动中位数 */
+  expected: number;
+  z: number;
+  direction: "up" | "down";
+};
+
+function median(values: number[]) {
+  if (!values.length) return 0;
+  const s = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/** 由一阶差分的 MAD 估计噪声方差，对均值突变本身不敏感 */
+function noiseVariance(values: number[]) {
+  const diffs = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+  const sigma = median(diffs) / (0.6745 * Math.SQRT2);
+  if (sigma > 0) return sigma * sigma;
+  const mean = values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, values.length) || 1;
+}
+
+/** PELT：返回各段起点下标（不含 0） */
+export function pelt(values: number[], penalty: number, minSize: number): number[] {
+  const n = values.length;
+  const m = Math.max(1, Math.floor(minSize));
+  if (n < 2 * m) return [];
+  const s1 = [0];
+  const s2 = [0];
+  for (const v of values) {
+    s1.push(s1[s1.length - 1] + v);
+    s2.push(s2[s2.length - 1] + v * v);
+  }
+  const cost = (a: number, b: number) => {
+    const len = b - a;
+    const sum = s1[b] - s1[a];
+    return s2[b] - s2[a] - (sum * sum) / len;
+  };
+  const beta = penalty * noiseVariance(values) * Math.log(n);
+  const F = new Array<number>(n + 1).fill(Infinity);
+  const last = new Array<number>(n + 1).fill(0);
+  F[0] = -beta;
+  let candidates = [0];
+  for (let t = m; t <= n; t++) {
+    let best = Infinity;
+    let arg = 0;
+    const scores: Array<[number, number]> = [];
+    for (const s of candidates) {
+      if (t - s < m) continue;
+      const v = F[s] + cost(s, t) + beta;
+      scores.push([s, v - beta]);
+      if (v < best) {
+        best = v;
+        arg = s;
+      }
+    }
+    F[t] = best;
+    last[t] = arg;
+    // 剪枝：F[s] + C(s,t) > F[t] 的候选以后不可能最优
+    const keep = new Set(scores.filter(([, v]) => v <= best).map(([s]) => s));
+    candidates = [...candidates.filter((s) => t - s < m || keep.has(s)), t];
+  }
+  const cps: number[] = [];
+  for (let t = n; t > 0; t = last[t]) if (last[t] > 0) cps.push(last[t]);
+  return cps.sort((a, b) => a - b);
+}
+
+export type CurveDetection = { changes: ChangePoint[]; anomalies: Anomaly[] };
+
+const ROLLING_HALF = 2;
+
+function rollingMedian(values: number[]) {
+  return values.map((_, i) => median(values.slice(Math.max(0, i - ROLLING_HALF), i + ROLLING_HALF + 1)));
+}
+
+/** 比两侧相邻分钟都高（或都低）才算尖峰；台阶边缘的点不算 */
+function isSpike(values: number[], j: number, up: boolean) {
+  const sides = [values[j - 1], values[j + 1]].filter((v): v is number => v != null);
+  return sides.every((v) => (up ? values[j] > v : values[j] < v));
+}
+
+/**
+ * 残差的稳健尺度：1.4826·MAD。稀疏的计数曲线（大部分分钟为 0）MAD 常为 0，
+ * 此时退回平均绝对偏差（×1.2533，正态下与 σ 一致），否则整条曲线都不会检测异常。
+ */
+function residualScale(resid: number[], center: number) {
+  const dev = resid.map((r) => Math.abs(r - center));
+  const mad = 1.4826 * median(dev);
+  if (mad > 0) return mad;
+  return (1.2533 * dev.reduce((a, b) => a + b, 0)) / Math.max(1, dev.length);
+}
+
+/**
+ * 先用滚动中位数找孤立尖峰（异常），再把尖峰替换成滚动中位数后做 PELT，
+ * 避免单分钟的刷屏被切成一段“变点”。
+ */
+export function detectCurve(curveRows: any[], seriesKeys: string[], opts: ChangePointOptions): CurveDetection {
+  const rows = curveRows.slice().sort((a, b) => safeNumber(a.minute) - safeNumber(b.minute));
+  const minutes = rows.map((r) => safeNumber(r.minute));
+  const changes: ChangePoint[] = [];
+  const anomalies: Anomaly[] = [];
+  for (const series of seriesKeys) {
+    const values = rows.map((r) => safeNumber(r[series]));
+    const baseline = rollingMedian(values);
+    const resid = values.map((v, j) => v - baseline[j]);
+    const center = median(resid);
+    const scale = residualScale(resid, center);
+    const flagged = new Set<number>();
+    if (scale > 0) {
+      resid.forEach((r, j) => {
+        const z = (r - center) / scale;
+        if (Math.abs(z) < opts.anomalyZ || !isSpike(values, j, z > 0)) return;
+        flagged.add(j);
+        anomalies.push({ series, minute: minutes[j], value: values[j], expected: baseline[j], z, direction: z >= 0 ? "up" : "down" });
+      });
+    }
+
+    const cleaned = values.map((v, j) => (flagged.has(j) ? baseline[j] : v));
+    const cps = pelt(cleaned, opts.penalty, opts.minSize);
+    const bounds = [0, ...cps, cleaned.length];
+    const means: number[] = [];
+    for (let i = 0; i + 1 < bounds.length; i++) {
+      const seg = cleaned.slice(bounds[i], bounds[i + 1]);
+      means.push(seg.reduce((a, b) => a + b, 0) / Math.max(1, seg.length));
+    }
+    cps.forEach((idx, i) => {
+      const delta = means[i + 1] - means[i];
+      changes.push({ series, minute: minutes[idx], before: means[i], after: means[i + 1], delta, direction: delta >= 0 ? "up" : "down" });
+    });
+  }
+  changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  anomalies.sort((a, b) => Math.abs(b.z) - Math.abs(a.z));
+  return { changes, anomalies };
+}
@@ -0,0 +1,103 @@
+import { episodeLabel } from "./episodes";
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+
+// cleaning_report 每行一步清洗：step / dataset / before / after / dropped / reason。
+// 不同版本 pipeline 的列名略有出入，这里统一成 CleaningStep。
+export type CleaningStep = {
+  dataset: string;
+  step: string;
+  before: number | null;
+  after: number | null;
+  dropped: number;
+  reason: string;
+  isDedup: boolean;
+};
+
+export type DatasetQuality = {
+  dataset: string;
+  raw: number | null;
+  kept: number | null;
+  retention: number | null;
+  dedupDropped: number;
+  filterDropped: number;
+  steps: CleaningStep[];
+};
+
+const DEDUP_RE = /dedup|duplicate|去重|重复/i;
+
+function pick(r: any, names: string[]) {
+  for (const n of names) if (r?.[n] != null && r[n] !== "") return r[n];
+  return undefined;
+}
+
+function numOrNull(v: unknown) {
+  const n = safeNumber(v, NaN);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function normalizeCleaningRows(rows: any[]): CleaningStep[] {
+  return rows.map((r) => {
+    const step = String(pick(r, ["step", "stage", "name"]) ?? "—");
+    const before = numOrNull(pick(r, ["before", "rows_before", "n_before", "in"]));
+    const after = numOrNull(pick(r, ["after", "rows_after", "n_after", "out"]));
+    const droppedRaw = numOrNull(pick(r, ["dropped", "removed", "n_dropped"]));
+    const dropped = droppedRaw ?? (before != null && after != null ? Math.max(0, before - after) : 0);
+    const reason = String(pick(r, ["reason", "filter_reason", "note", "desc"]) ?? "");
+    return {
+      dataset: String(pick(r, ["dataset", "source"]) ?? "all"),
+      step,
+      before,
+      after,
+      dropped,
+      reason,
+      isDedup: DEDUP_RE.test(step) || DEDUP_RE.test(reason),
+    };
+  });
+}
+
+/** 按 dataset 汇总：原始量取第一步的 before，保留量取最后一步的 after（缺失时用 raw - Σdropped 推算）。 */
+export function summarizeCleaning(rows: any[]): DatasetQuality[] {
+  const steps = normalizeCleaningRows(rows);
+  const byDataset = new Map<string, CleaningStep[]>();
+  for (const s of steps) {
+    const list = byDataset.get(s.dataset) ?? [];
+    list.push(s);
+    byDataset.set(s.dataset, list);
+  }
+  return Array.from(byDataset.entries()).map(([dataset, list]) => {
+    const raw = list.find((s) => s.before != null)?.before ?? null;
+    const totalDropped = list.reduce((sum, s) => sum + s.dropped, 0);
+    const lastAfter = [...list].reverse().find((s) => s.after != null)?.after ?? null;
+    const kept = lastAfter ?? (raw != null ? Math.max(0, raw - totalDropped) : null);
+    const dedupDropped = list.filter((s) => s.isDedup).reduce((sum, s) => sum + s.dropped, 0);
+    return {
+      dataset,
+      raw,
+      kept,
+      retention: raw && kept != null ? kept / raw : null,
+      dedupDropped,
+      filterDropped: totalDropped - dedupDropped,
+      steps: list,
+    };
+  });
+}
+
+/** 跨集保留率：每行一集，列为各 dataset 的 retention。 */
+export function retentionByEpisode(episodes: string[], tablesByEp: Record<string, TableMap>) {
+  const datasets = new Set<string>();
+  const rows = episodes
+    .filter((ep) => (tablesByEp[ep]?.[TABLE_KEYS.CLEANING_REPORT]?.length ?? 0) > 0)
+    .map((ep) => {
+      const row: Record<string, any> = { episode: episodeLabel(ep), ep };
+      for (const q of summarizeCleaning(tablesByEp[ep][TABLE_KEYS.CLEANING_REPORT])) {
+        if (q.retention == null) continue;
+        datasets.add(q.dataset);
+        row[q.dataset] = q.retention;
+        row[`${q.dataset}_raw`] = q.raw;
+        row[`${q.dataset}_kept`] = q.kept;
+      }
+      return row;
+    });
+  return { rows, datasets: Array.from(datasets) };
+}
@@ -0,0 +1,304 @@
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+import { EMO_ORDER } from "./colors";
+import { distRows } from "./dists";
+import { curveSeriesColumns } from "./curveTransform";
+
+// 分集聚类：由分布表与曲线形状构造每集特征向量，列标准化后做 k-means / 层次聚类，并用 PCA 投影到二维。
+
+export type FeatureGroup = "danmaku_emo" | "root_emo" | "danmaku_func" | "curve";
+
+export const FEATURE_GROUP_LABEL: Record<FeatureGroup, string> = {
+  danmaku_emo: "弹幕情绪占比",
+  root_emo: "根评论情绪占比",
+  danmaku_func: "弹幕功能占比（Top 类别）",
+  curve: "曲线形状",
+};
+
+export const FEATURE_GROUPS = Object.keys(FEATURE_GROUP_LABEL) as FeatureGroup[];
+
+export type ClusterMethod = "kmeans" | "hierarchical";
+
+export const CLUSTER_METHOD_OPTIONS: Array<{ label: string; value: ClusterMethod }> = [
+  { label: "k-means（k-means++，多次重启）", value: "kmeans" },
+  { label: "层次聚类（Ward 连接）", value: "hierarchical" },
+];
+
+const FUNC_TOP = 8;
+
+const CURVE_FEATURES: Array<{ key: string; label: string }> = [
+  { key: "curve_peak_pos", label: "峰值位置（片长占比）" },
+  { key: "curve_peak_ratio", label: "峰均比" },
+  { key: "curve_cv", label: "变异系数" },
+  { key: "curve_head_share", label: "前 1/3 弹幕占比" },
+  { key: "curve_tail_share", label: "后 1/3 弹幕占比" },
+  { key: "curve_acf1", label: "一阶自相关" },
+];
+
+function shares(rows: any[] | undefined, family: "emo" | "func") {
+  const items = distRows(rows, family);
+  const useCnt = items.some((r) => r.cnt > 0);
+  const total = items.reduce((s, r) => s + (useCnt ? r.cnt : r.ratio), 0);
+  const out: Record<string, number> = {};
+  if (!(total > 0)) return out;
+  for (const r of items) out[r.label] = (out[r.label] ?? 0) + (useCnt ? r.cnt : r.ratio) / total;
+  return out;
+}
+
+/** 逐分钟总量（各维度列之和）的形状特征；不足 3 分钟返回空 */
+function curveShape(tables: TableMap | undefined): Record<string, number> {
+  const rows = (tables?.[TABLE_KEYS.DANMU_MIN_EMO]?.length ? tables[TABLE_KEYS.DANMU_MIN_EMO] : tables?.[TABLE_KEYS.DANMU_MIN_FUNC]) ?? [];
+  const sorted = rows.slice().sort((a: any, b: any) => safeNumber(a.minute) - safeNumber(b.minute));
+  const cols = curveSeriesColumns(sorted);
+  const v = sorted.map((r: any) => cols.reduce((s, k) => s + safeNumber(r[k]), 0));
+  const n = v.length;
+  const total = v.reduce((a, b) => a + b, 0);
+  if (n < 3 || !(total > 0)) return {};
+  const mean = total / n;
+  const sd = Math.sqrt(v.reduce((s, x) => s + (x - mean) ** 2, 0) / n);
+  const peak = v.reduce((best, x, i) => (x > v[best] ? i : best), 0);
+  const third = Math.max(1, Math.floor(n / 3));
+  const acf = sd > 0 ? v.slice(1).reduce((s, x, i) => s + (x - mean) * (v[i] - mean), 0) / (n * sd * sd) : 0;
+  return {
+    curve_peak_pos: peak / (n - 1),
+    curve_peak_ratio: v[peak] / mean,
+    curve_cv: sd / mean,
+    curve_head_share: v.slice(0, third).reduce((a, b) => a + b, 0) / total,
+    curve_tail_share: v.slice(n - third).reduce((a, b) => a + b, 0) / total,
+    curve_acf1: acf,
+  };
+}
+
+export type FeatureMatrix = {
+  eps: string[];
+  features: Array<{ key: string; label: string; group: FeatureGroup }>;
+  /** 原始特征值（缺失为 NaN） */
+  raw: number[][];
+  /** 列标准化后的值（缺失按列均值，即 0） */
+  z: number[][];
+};
+
+export function buildFeatures(episodes: string[], tablesByEp: Record<string, TableMap>, groups: FeatureGroup[]): FeatureMatrix {
+  const perEp = episodes.map((ep) => {
+    const t = tablesByEp[ep];
+    const out: Record<string, number> = {};
+    if (groups.includes("danmaku_emo")) for (const [k, v] of Object.entries(shares(t?.[TABLE_KEYS.DANMU_EMO], "emo"))) out[`danmaku_emo:${k}`] = v;
+    if (groups.includes("root_emo")) for (const [k, v] of Object.entries(shares(t?.[TABLE_KEYS.COM_ROOT_EMO], "emo"))) out[`root_emo:${k}`] = v;
+    if (groups.includes("danmaku_func")) for (const [k, v] of Object.entries(shares(t?.[TABLE_KEYS.DANMU_FUNC], "func"))) out[`danmaku_func:${k}`] = v;
+    if (groups.includes("curve")) Object.assign(out, curveShape(t));
+    return out;
+  });
+
+  // 没有任何特征的集不参与；功能类别取全季合计占比最高的若干个
+  const hasAny = perEp.map((o) => Object.keys(o).length > 0);
+  const eps = episodes.filter((_, i) => hasAny[i]);
+  const rows = perEp.filter((_, i) => hasAny[i]);
+
+  const features: FeatureMatrix["features"] = [];
+  const emoRank = new Map<string, number>(EMO_ORDER.map((k, i) => [k, i]));
+  for (const g of ["danmaku_emo", "root_emo"] as const) {
+    if (!groups.includes(g)) continue;
+    const keys = Array.from(new Set(rows.flatMap((o) => Object.keys(o).filter((k) => k.startsWith(`${g}:`)))));
+    keys.sort((a, b) => (emoRank.get(a.split(":")[1]) ?? 99) - (emoRank.get(b.split(":")[1]) ?? 99) || a.localeCompare(b));
+    keys.forEach((k) => features.push({ key: k, label: `${g === "danmaku_emo" ? "弹幕" : "根评"} ${k.split(":")[1]}`, group: g }));
+  }
+  if (groups.includes("danmaku_func")) {
+    const sum = new Map<string, number>();
+    rows.forEach((o) => Object.entries(o).forEach(([k, v]) => k.startsWith("danmaku_func:") && sum.set(k, (sum.get(k) ?? 0) + v)));
+    Array.from(sum.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, FUNC_TOP)
+      .forEach(([k]) => features.push({ key: k, label: `功能 ${k.split(":")[1]}`, group: "danmaku_func" }));
+  }
+  if (groups.includes("curve")) CURVE_FEATURES.forEach((f) => features.push({ ...f, group: "curve" }));
+
+  // 特征至少一半的集有值才保留；某集有该来源的分布表但缺某一类时记 0，整张表缺失记为未知（标准化后取 0）
+  const kept = features.filter((f) => rows.filter((o) => f.key in o).length * 2 >= rows.length);
+  const hasGroup = (o: Record<string, number>, g: FeatureGroup) => Object.keys(o).some((k) => k.startsWith(`${g}:`));
+  const raw = rows.map((o) => kept.map((f) => (f.key in o ? o[f.key] : f.group !== "curve" && hasGroup(o, f.group) ? 0 : NaN)));
+  const z = raw.map((r) => r.slice());
+  kept.forEach((_, j) => {
+    const col = raw.map((r) => r[j]).filter(Number.isFinite);
+    const mean = col.reduce((a, b) => a + b, 0) / Math.max(1, col.length);
+    const sd = Math.sqrt(col.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, col.length));
+    z.forEach((r, i) => (r[j] = Number.isFinite(raw[i][j]) && sd > 0 ? (raw[i][j] - mean) / sd : 0));
+  });
+  return { eps, features: kept, raw, z };
+}
+
+function dist2(a: number[], b: number[]) {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += (a[i] - b[i]) ** 2;
+  return s;
+}
+
+/** 固定种子的线性同余发生器，保证同一份数据每次聚类结果一致 */
+function rng(seed: number) {
+  let s = seed >>> 0;
+  return () => ((s = (s * 1664525 + 1013904223) >>> 0) / 4294967296);
+}
+
+function centroids(points: number[][], labels: number[], k: number) {
+  const dim = points[0]?.length ?? 0;
+  const sums = Array.from({ length: k }, () => new Array<number>(dim).fill(0));
+  const counts = new Array<number>(k).fill(0);
+  points.forEach((p, i) => {
+    counts[labels[i]]++;
+    p.forEach((v, j) => (sums[labels[i]][j] += v));
+  });
+  return sums.map((s, c) => s.map((v) => v / Math.max(1, counts[c])));
+}
+
+export function kmeans(points: number[][], k: number, restarts = 10): number[] {
+  const n = points.length;
+  if (n <= k) return points.map((_, i) => i);
+  const rand = rng(20240601);
+  let best: number[] = [];
+  let bestSse = Infinity;
+  for (let run = 0; run < restarts; run++) {
+    // k-means++ 初始化
+    const centers = [points[Math.floor(rand() * n)]];
+    while (centers.length < k) {
+      const d = points.map((p) => Math.min(...centers.map((c) => dist2(p, c))));
+      const total = d.reduce((a, b) => a + b, 0);
+      let r = rand() * total;
+      let idx = d.findIndex((x) => (r -= x) <= 0);
+      if (idx < 0 || total === 0) idx = Math.floor(rand() * n);
+      centers.push(points[idx]);
+    }
+    let labels = new Array<number>(n).fill(0);
+    let cs = centers;
+    for (let iter = 0; iter < 100; iter++) {
+      const next = points.map((p) => cs.reduce((bi, c, ci) => (dist2(p, c) < dist2(p, cs[bi]) ? ci : bi), 0));
+      const changed = next.some((l, i) => l !== labels[i]);
+      labels = next;
+      cs = centroids(points, labels, k).map((c, ci) => (labels.includes(ci) ? c : cs[ci]));
+      if (!changed && iter > 0) break;
+    }
+    const sse = points.reduce((s, p, i) => s + dist2(p, cs[labels[i]]), 0);
+    if (sse < bestSse) {
+      bestSse = sse;
+      best = labels;
+    }
+  }
+  return relabelByFirstSeen(best);
+}
+
+/** 按首次出现的顺序重新编号，簇号随集数顺序稳定 */
+function relabelByFirstSeen(labels: number[]) {
+  const map = new Map<number, number>();
+  return labels.map((l) => {
+    if (!map.has(l)) map.set(l, map.size);
+    return map.get(l)!;
+  });
+}
+
+export type DendroNode = { id: number; left?: DendroNode; right?: DendroNode; height: number; members: number[] };
+
+/** Ward 连接的凝聚层次聚类（Lance–Williams 更新），返回根节点 */
+export function hierarchical(points: number[][]): DendroNode | null {
+  const n = points.length;
+  if (!n) return null;
+  let clusters: DendroNode[] = points.map((_, i) => ({ id: i, height: 0, members: [i] }));
+  const d = new Map<string, number>();
+  const key = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+  for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) d.set(key(i, j), dist2(points[i], points[j]));
+  let nextId = n;
+  while (clusters.length > 1) {
+    let bi = 0;
+    let bj = 1;
+    let best = Infinity;
+    for (let i = 0; i < clusters.length; i++)
+      for (let j = i + 1; j < clusters.length; j++) {
+        const v = d.get(key(clusters[i].id, clusters[j].id))!;
+        if (v < best) {
+          best = v;
+          bi = i;
+          bj = j;
+        }
+      }
+    const a = clusters[bi];
+    const b = clusters[bj];
+    const merged: DendroNode = { id: nextId++, left: a, right: b, height: Math.sqrt(Math.max(0, best)), members: [...a.members, ...b.members] };
+    const rest = clusters.filter((_, i) => i !== bi && i !== bj);
+    for (const c of rest) {
+      const na = a.members.length;
+      const nb = b.members.length;
+      const nc = c.members.length;
+      const v = ((na + nc) * d.get(key(a.id, c.id))! + (nb + nc) * d.get(key(b.id, c.id))! - nc * best) / (na + nb + nc);
+      d.set(key(merged.id, c.id), v);
+    }
+    clusters = [...rest, merged];
+  }
+  return clusters[0];
+}
+
+/** 把树切成 k 簇：依次拆开高度最大的节点 */
+export function cutTree(root: DendroNode, k: number, n: number): number[] {
+  let parts: DendroNode[] = [root];
+  while (parts.length < k) {
+    const idx = parts.reduce((bi, p, i) => (p.left && (!parts[bi].left || p.height > parts[bi].height) ? i : bi), 0);
+    const node = parts[idx];
+    if (!node.left || !node.right) break;
+    parts = [...parts.slice(0, idx), node.left, node.right, ...parts.slice(idx + 1)];
+  }
+  const labels = new Array<number>(n).fill(0);
+  parts.forEach((p, c) => p.members.forEach((m) => (labels[m] = c)));
+  return relabelByFirstSeen(labels);
+}
+
+/** 叶子的左右顺序（画树状图用） */
+export function leafOrder(node: DendroNode | undefined): number[] {
+  if (!node) return [];
+  if (!node.left || !node.right) return node.members;
+  return [...leafOrder(node.left), ...leafOrder(node.right)];
+}
+
+export type Projection = { coords: Array<[number, number]>; explained: [number, number] };
+
+/** 前两个主成分（协方差矩阵幂迭代 + 消去） */
+export function pca2(points: number[][]): Projection {
+  const n = points.length;
+  const dim = points[0]?.length ?? 0;
+  if (!n || !dim) return { coords: points.map(() => [0, 0]), explained: [0, 0] };
+  const mean = new Array<number>(dim).fill(0);
+  points.forEach((p) => p.forEach((v, j) => (mean[j] += v / n)));
+  const X = points.map((p) => p.map((v, j) => v - mean[j]));
+  const cov = Array.from({ length: dim }, (_, a) => Array.from({ length: dim }, (_, b) => X.reduce((s, r) => s + r[a] * r[b], 0) / Math.max(1, n - 1)));
+  const trace = cov.reduce((s, r, i) => s + r[i], 0);
+  const comps: number[][] = [];
+  const vals: number[] = [];
+  const M = cov.map((r) => r.slice());
+  for (let c = 0; c < 2; c++) {
+    let v = Array.from({ length: dim }, (_, i) => 1 / Math.sqrt(dim) + (i === c ? 0.1 : 0));
+    let lambda = 0;
+    for (let iter = 0; iter < 200; iter++) {
+      const w = M.map((r) => r.reduce((s, x, j) => s + x * v[j], 0));
+      const norm = Math.sqrt(w.reduce((s, x) => s + x * x, 0));
+      if (!(norm > 0)) break;
+      v = w.map((x) => x / norm);
+      lambda = norm;
+    }
+    comps.push(v);
+    vals.push(lambda);
+    for (let a = 0; a < dim; a++) for (let b = 0; b < dim; b++) M[a][b] -= lambda * v[a] * v[b];
+  }
+  const coords = X.map((r) => comps.map((v) => r.reduce((s, x, j) => s + x * v[j], 0)) as [number, number]);
+  return { coords, explained: [trace > 0 ? vals[0] / trace : 0, trace > 0 ? vals[1] / trace : 0] };
+}
+
+/** 轮廓系数均值：衡量 k 是否合适（-1–1，越大越好） */
+export function silhouette(points: number[][], labels: number[]) {
+  const k = new Set(labels).size;
+  if (k < 2 || k >= points.length) return NaN;
+  const s = points.map((p, i) => {
+    const byCluster = new Map<number, number[]>();
+    points.forEach((q, j) => j !== i && byCluster.set(labels[j], [...(byCluster.get(labels[j]) ?? []), Math.sqrt(dist2(p, q))]));
+    const own = byCluster.get(labels[i]);
+    if (!own?.length) return 0;
+    const a = own.reduce((x, y) => x + y, 0) / own.length;
+    const b = Math.min(...Array.from(byCluster.entries()).filter(([c]) => c !== labels[i]).map(([, ds]) => ds.reduce((x, y) => x + y, 0) / ds.length));
+    return (b - a) / Math.max(a, b);
+  });
+  return s.reduce((a, b) => a + b, 0) / s.length;
+}
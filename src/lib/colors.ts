@@ -0,0 +1,49 @@
+export const EMO_ORDER = ["touching", "laugh", "praise", "neg", "self_mock", "other"] as const;
+export const EMO_COLOR_MAP: Record<string, string> = {
+  touching: "#2563eb",
+  laugh: "#16a34a",
+  praise: "#ea580c",
+  neg: "#dc2626",
+  self_mock: "#7c3aed",
+  other: "#0891b2",
+  pos: "#0ea5e9",
+  neu: "#64748b",
+};
+
+export function hslToHex(h: number, s: number, l: number) {
+  s /= 100;
+  l /= 100;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  let r = 0, g = 0, b = 0;
+  if (0 <= h && h < 60) [r, g, b] = [c, x, 0];
+  else if (60 <= h && h < 120) [r, g, b] = [x, c, 0];
+  else if (120 <= h && h < 180) [r, g, b] = [0, c, x];
+  else if (180 <= h && h < 240) [r, g, b] = [0, x, c];
+  else if (240 <= h && h < 300) [r, g, b] = [x, 0, c];
+  else[r, g, b] = [c, 0, x];
+  const toHex = (v: number) => Math.round((v + m) * 255).toString(16).padStart(2, "0");
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
+
+export function fnv1aHash32(str: string) {
+  let h = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+export function stableColorFromKey(key: string) {
+  const h = fnv1aHash32(key) % 360;
+  const l = (fnv1aHash32(key + "_l") % 2) === 0 ? 45 : 58;
+  return hslToHex(h, 82, l);
+}
+
+export function colorForKey(key: string, mode: "emo" | "func") {
+  if (mode === "emo" && EMO_COLOR_MAP[key]) return EMO_COLOR_MAP[key];
+  if (mode === "func") return stableColorFromKey(key);
+  return "#334155";
+}
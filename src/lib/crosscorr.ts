@@ -0,0 +1,127 @@
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+import { EMO_ORDER } from "./colors";
+import { curveSeriesColumns } from "./curveTransform";
+import { CURVE_TOTAL_KEY } from "./raw";
+
+// minute 曲线各维度之间的相关与滞后互相关。
+// 多集时先在每集内部标准化再合并（集内相关的加权合并），避免各集整体热度不同造成的虚假相关。
+
+export type CurveFamily = "emo" | "func";
+
+export const CURVE_FAMILY_TABLE: Record<CurveFamily, string> = {
+  emo: TABLE_KEYS.DANMU_MIN_EMO,
+  func: TABLE_KEYS.DANMU_MIN_FUNC,
+};
+
+export type EpisodeSeries = { ep: string; values: Record<string, number[]> };
+
+/** diff=true 时取一阶差分：去掉整体弹幕热度带来的共同起伏，更接近“谁带动谁” */
+export function episodeSeries(ep: string, tables: TableMap | undefined, family: CurveFamily, diff: boolean): EpisodeSeries | null {
+  const rows = (tables?.[CURVE_FAMILY_TABLE[family]] ?? []).slice().sort((a: any, b: any) => safeNumber(a.minute) - safeNumber(b.minute));
+  if (rows.length < 3) return null;
+  const values: Record<string, number[]> = {};
+  for (const k of curveSeriesColumns(rows)) {
+    if (k === CURVE_TOTAL_KEY) continue;
+    const v = rows.map((r: any) => safeNumber(r[k]));
+    values[k] = diff ? v.slice(1).map((x, i) => x - v[i]) : v;
+  }
+  return { ep, values };
+}
+
+export function seriesKeysOf(list: EpisodeSeries[], family: CurveFamily) {
+  const set = new Set<string>();
+  for (const s of list) Object.keys(s.values).forEach((k) => set.add(k));
+  const keys = Array.from(set);
+  if (family === "emo") {
+    const order = new Map<string, number>(EMO_ORDER.map((k, i) => [k, i]));
+    return keys.sort((a, b) => (order.get(a) ?? 999) - (order.get(b) ?? 999));
+  }
+  return keys.sort();
+}
+
+function standardize(v: number[]) {
+  const n = v.length;
+  const mean = v.reduce((a, b) => a + b, 0) / n;
+  const sd = Math.sqrt(v.reduce((s, x) => s + (x - mean) ** 2, 0) / n);
+  return sd > 0 ? v.map((x) => (x - mean) / sd) : null;
+}
+
+export type CorrCell = { a: string; b: string; lag: number; r: number; n: number };
+
+/**
+ * a(t) 与 b(t+lag) 的合并相关；lag > 0 表示 a 领先 b。
+ * 某集里任一列为常数（或缺列）时该集不参与。
+ */
+export function pooledCorrelation(list: EpisodeSeries[], a: string, b: string, lag: number): CorrCell {
+  let sum = 0;
+  let n = 0;
+  for (const s of list) {
+    const va = s.values[a];
+    const vb = s.values[b];
+    if (!va || !vb) continue;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let t = 0; t < va.length; t++) {
+      const u = t + lag;
+      if (u < 0 || u >= vb.length) continue;
+      xs.push(va[t]);
+      ys.push(vb[u]);
+    }
+    if (xs.length < 3) continue;
+    const zx = standardize(xs);
+    const zy = standardize(ys);
+    if (!zx || !zy) continue;
+    zx.forEach((x, i) => (sum += x * zy[i]));
+    n += xs.length;
+  }
+  return { a, b, lag, r: n ? sum / n : NaN, n };
+}
+
+export function correlationMatrix(list: EpisodeSeries[], keys: string[], lag: number): CorrCell[] {
+  const out: CorrCell[] = [];
+  for (const a of keys) for (const b of keys) out.push(a === b && lag === 0 ? { a, b, lag, r: 1, n: 0 } : pooledCorrelation(list, a, b, lag));
+  return out;
+}
+
+export function crossCorrelation(list: EpisodeSeries[], a: string, b: string, maxLag: number): CorrCell[] {
+  const out: CorrCell[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) out.push(pooledCorrelation(list, a, b, lag));
+  return out;
+}
+
+/** 约 95% 的显著性阈值（白噪声近似 1.96/√n） */
+export function corrThreshold(n: number) {
+  return n > 0 ? 1.96 / Math.sqrt(n) : Infinity;
+}
+
+export type LeadLag = { a: string; b: string; lag: number; r: number; r0: number; n: number };
+
+/** 每对维度在 ±maxLag 内 |r| 最大的滞后；lag > 0：a 领先 b lag 分钟 */
+export function leadLagPairs(list: EpisodeSeries[], keys: string[], maxLag: number): LeadLag[] {
+  const out: LeadLag[] = [];
+  keys.forEach((a, i) =>
+    keys.slice(i + 1).forEach((b) => {
+      const cc = crossCorrelation(list, a, b, maxLag).filter((c) => Number.isFinite(c.r));
+      if (!cc.length) return;
+      const best = cc.reduce((m, c) => (Math.abs(c.r) > Math.abs(m.r) ? c : m));
+      const r0 = cc.find((c) => c.lag === 0)?.r ?? NaN;
+      out.push({ a, b, lag: best.lag, r: best.r, r0, n: best.n });
+    })
+  );
+  return out.sort((x, y) => Math.abs(y.r) - Math.abs(x.r));
+}
+
+export function fmtLeadLag(p: LeadLag) {
+  if (p.lag === 0) return `${p.a} 与 ${p.b} 同步`;
+  return p.lag > 0 ? `${p.a} 领先 ${p.b} ${p.lag} 分钟` : `${p.b} 领先 ${p.a} ${-p.lag} 分钟`;
+}
+
+/** 发散色：负相关蓝、正相关红 */
+export function corrColor(r: number) {
+  if (!Number.isFinite(r)) return "#f1f5f9";
+  const t = Math.min(1, Math.abs(r));
+  const [R, G, B] = r >= 0 ? [220, 38, 38] : [37, 99, 235];
+  const mix = (c: number) => Math.round(255 + (c - 255) * t);
+  return `rgb(${mix(R)}, ${mix(G)}, ${mix(B)})`;
+}
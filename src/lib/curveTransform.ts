@@ -0,0 +1,114 @@
+import { safeNumber } from "./tables";
+
+// minute 曲线的变换：先换算口径（条数 / 该分钟占比 / 每千条弹幕），再平滑，最后可选集内 z 分数。
+// 单集与多集对比都在变换后的曲线上找峰值与 Top 区间，导出的 PNG 即所见。
+
+export type CurveSmooth = "none" | "ma" | "ewma";
+
+export type CurveScale = "count" | "share" | "per1000" | "zscore";
+
+export type CurveTransform = {
+  smooth: CurveSmooth;
+  /** 移动平均窗口（分钟，居中） */
+  window: number;
+  /** EWMA 平滑系数 0–1，越大越贴近原值 */
+  alpha: number;
+  scale: CurveScale;
+};
+
+export const DEFAULT_CURVE_TRANSFORM: CurveTransform = { smooth: "none", window: 3, alpha: 0.4, scale: "count" };
+
+export const CURVE_SMOOTH_OPTIONS: Array<{ label: string; value: CurveSmooth }> = [
+  { label: "不平滑", value: "none" },
+  { label: "移动平均", value: "ma" },
+  { label: "指数平滑（EWMA）", value: "ewma" },
+];
+
+export const CURVE_SCALE_OPTIONS: Array<{ label: string; value: CurveScale }> = [
+  { label: "原始条数", value: "count" },
+  { label: "占该分钟弹幕 %", value: "share" },
+  { label: "每千条弹幕（÷danmu_total）", value: "per1000" },
+  { label: "集内 z 分数", value: "zscore" },
+];
+
+const NON_SERIES = new Set(["minute", "episode_id"]);
+
+export function curveSeriesColumns(rows: any[]) {
+  return rows.length ? Object.keys(rows[0]).filter((k) => !NON_SERIES.has(k)) : [];
+}
+
+function movingAverage(values: number[], window: number) {
+  const half = Math.floor(Math.max(1, window) / 2);
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += values[j];
+    return sum / (to - from + 1);
+  });
+}
+
+function ewma(values: number[], alpha: number) {
+  const a = Math.max(0.01, Math.min(1, alpha));
+  let prev = values[0] ?? 0;
+  return values.map((v, i) => (prev = i === 0 ? v : a * v + (1 - a) * prev));
+}
+
+function zscore(values: number[]) {
+  const n = values.length;
+  if (!n) return values;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const sd = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / n);
+  return values.map((v) => (sd > 0 ? (v - mean) / sd : 0));
+}
+
+export function isIdentityTransform(t: CurveTransform) {
+  return t.smooth === "none" && t.scale === "count";
+}
+
+/**
+ * rows 为一集的 minute 曲线（minute + 各维度列）；返回同形状的新行。
+ * danmuTotal 缺失时 per1000 退回用曲线本身的总条数。
+ */
+export function transformCurve(rows: any[], t: CurveTransform, danmuTotal?: number): any[] {
+  const sorted = rows.map((r) => ({ ...r, minute: safeNumber(r.minute) })).sort((a, b) => a.minute - b.minute);
+  if (isIdentityTransform(t) || !sorted.length) return sorted;
+  const cols = curveSeriesColumns(sorted);
+  const minuteTotals = sorted.map((r) => cols.reduce((s, k) => s + safeNumber(r[k]), 0));
+  const curveTotal = minuteTotals.reduce((a, b) => a + b, 0);
+  const denom = danmuTotal && danmuTotal > 0 ? danmuTotal : curveTotal;
+
+  const out = sorted.map((r) => ({ ...r }));
+  for (const k of cols) {
+    let values = sorted.map((r, i) => {
+      const v = safeNumber(r[k]);
+      if (t.scale === "share") return minuteTotals[i] > 0 ? (v / minuteTotals[i]) * 100 : 0;
+      if (t.scale === "per1000") return denom > 0 ? (v / denom) * 1000 : 0;
+      return v;
+    });
+    if (t.smooth === "ma") values = movingAverage(values, t.window);
+    else if (t.smooth === "ewma") values = ewma(values, t.alpha);
+    if (t.scale === "zscore") values = zscore(values);
+    values.forEach((v, i) => (out[i][k] = v));
+  }
+  return out;
+}
+
+export function transformLabel(t: CurveTransform) {
+  const scale = CURVE_SCALE_OPTIONS.find((o) => o.value === t.scale)?.label ?? t.scale;
+  const smooth = t.smooth === "ma" ? `${t.window} 分钟移动平均` : t.smooth === "ewma" ? `EWMA α=${t.alpha}` : "";
+  return [scale, smooth].filter(Boolean).join(" · ");
+}
+
+/** 追加到导出文件名里，原样曲线为空串 */
+export function transformFileTag(t: CurveTransform) {
+  const parts = [t.scale === "count" ? "" : t.scale, t.smooth === "ma" ? `ma${t.window}` : t.smooth === "ewma" ? `ewma${t.alpha}` : ""].filter(Boolean);
+  return parts.length ? `_${parts.join("_")}` : "";
+}
+
+export function fmtCurveValue(v: number, scale: CurveScale) {
+  if (!Number.isFinite(v)) return "—";
+  if (scale === "share") return `${v.toFixed(1)}%`;
+  if (scale === "count") return Number.isInteger(v) ? String(v) : v.toFixed(1);
+  return v.toFixed(2);
+}
@@ -0,0 +1,117 @@
+import { type DistKind, DIST_KINDS, distRows } from "./dists";
+import { episodeLabel } from "./episodes";
+import { type ChiSquareResult, type PAdjustMethod, P_ADJUST_LABEL, adjustPValues, chiSquareHomogeneity, fmtP } from "./stats";
+import type { TableMap } from "./types";
+
+// 多集分布对比的显著性检验：基于 dist 表的 cnt 列构造 集数×类别 列联表
+
+export type DistCountMatrix = {
+  eps: string[];
+  keys: string[];
+  counts: number[][];
+  /** 表存在但 cnt 全为 0/缺失、无法参与检验的集数 */
+  noCount: string[];
+};
+
+/** keys 与堆叠图一致；不在 keys 内的类别并入 "other"（若 keys 含 other），否则丢弃 */
+export function distCountMatrix(eps: string[], tablesByEp: Record<string, TableMap>, kind: DistKind, keys: string[]): DistCountMatrix {
+  const meta = DIST_KINDS[kind];
+  const keyIdx = new Map(keys.map((k, i) => [k, i]));
+  const otherIdx = keyIdx.get("other");
+  const outEps: string[] = [];
+  const counts: number[][] = [];
+  const noCount: string[] = [];
+  for (const ep of eps) {
+    const rows = distRows(tablesByEp[ep]?.[meta.tableKey], meta.family);
+    if (!rows.length) continue;
+    const row = new Array<number>(keys.length).fill(0);
+    let total = 0;
+    for (const r of rows) {
+      const idx = keyIdx.get(r.label) ?? otherIdx;
+      total += r.cnt;
+      if (idx != null) row[idx] += r.cnt;
+    }
+    if (!(total > 0)) {
+      noCount.push(ep);
+      continue;
+    }
+    outEps.push(ep);
+    counts.push(row);
+  }
+  return { eps: outEps, keys, counts, noCount };
+}
+
+export type PairwiseTest = { a: string; b: string; chi2: number; df: number; p: number; pAdj: number; cramersV: number };
+
+export type DistTestResult = {
+  kind: DistKind;
+  method: PAdjustMethod;
+  alpha: number;
+  matrix: DistCountMatrix;
+  overall: ChiSquareResult | null;
+  pairwise: PairwiseTest[];
+};
+
+export function runDistTest(
+  eps: string[],
+  tablesByEp: Record<string, TableMap>,
+  kind: DistKind,
+  keys: string[],
+  method: PAdjustMethod,
+  alpha = 0.05
+): DistTestResult {
+  const matrix = distCountMatrix(eps, tablesByEp, kind, keys);
+  const overall = chiSquareHomogeneity(matrix.counts);
+  const raw: Omit<PairwiseTest, "pAdj">[] = [];
+  for (let i = 0; i < matrix.eps.length; i++) {
+    for (let j = i + 1; j < matrix.eps.length; j++) {
+      const res = chiSquareHomogeneity([matrix.counts[i], matrix.counts[j]]);
+      if (!res) continue;
+      raw.push({ a: matrix.eps[i], b: matrix.eps[j], chi2: res.chi2, df: res.df, p: res.p, cramersV: res.cramersV });
+    }
+  }
+  const adj = adjustPValues(raw.map((r) => r.p), method);
+  return { kind, method, alpha, matrix, overall, pairwise: raw.map((r, i) => ({ ...r, pAdj: adj[i] })) };
+}
+
+export const RESIDUAL_CUTOFF = 1.96;
+
+/** 显著偏离期望的格子（|调整残差| > 1.96），按绝对值降序 */
+export function notableResiduals(test: DistTestResult) {
+  const o = test.overall;
+  if (!o) return [];
+  const out: Array<{ ep: string; key: string; residual: number }> = [];
+  o.residuals.forEach((row, i) =>
+    row.forEach((r, j) => {
+      if (Math.abs(r) > RESIDUAL_CUTOFF) out.push({ ep: test.matrix.eps[o.rowIdx[i]], key: test.matrix.keys[o.colIdx[j]], residual: r });
+    })
+  );
+  return out.sort((a, b) => Math.abs(b.residual) - Math.abs(a.residual));
+}
+
+export function distTestMarkdown(test: DistTestResult) {
+  const label = DIST_KINDS[test.kind].label;
+  const o = test.overall;
+  if (!o) return `## 多集分布显著性检验（${label}）\n- 可用于检验的集数不足 2 集（需要 cnt 列）。\n`;
+  const lines = [
+    `## 多集分布显著性检验（${label}）`,
+    `- 卡方同质性检验：χ²(${o.df}, N=${o.n}) = ${o.chi2.toFixed(2)}，${fmtP(o.p)}，Cramér's V = ${o.cramersV.toFixed(3)}。`,
+  ];
+  if (o.lowExpectedShare > 0.2) lines.push(`- 注意：${Math.round(o.lowExpectedShare * 100)}% 的格子期望频数 < 5，卡方近似可能不可靠。`);
+  if (test.pairwise.length) {
+    const sig = test.pairwise.filter((p) => p.pAdj < test.alpha);
+    lines.push(
+      `- 两两比较（${P_ADJUST_LABEL[test.method]} 校正，α=${test.alpha}）：` +
+        (sig.length ? sig.map((p) => `${episodeLabel(p.a)} vs ${episodeLabel(p.b)}（校正后 ${fmtP(p.pAdj)}）`).join("、") : "无显著差异的集数对")
+    );
+  }
+  const notable = notableResiduals(test).slice(0, 8);
+  if (notable.length) {
+    lines.push(
+      `- 显著偏离期望的类别（|调整残差|>${RESIDUAL_CUTOFF}）：` +
+        notable.map((x) => `${episodeLabel(x.ep)} ${x.key} ${x.residual > 0 ? "高于" : "低于"}期望（${x.residual.toFixed(2)}）`).join("；")
+    );
+  }
+  if (test.matrix.noCount.length) lines.push(`- 缺少 cnt 未参与检验：${test.matrix.noCount.map((e) => episodeLabel(e)).join("、")}`);
+  return lines.join("\n") + "\n";
+}
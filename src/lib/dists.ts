@@ -0,0 +1,138 @@
+import { TABLE_KEYS, safeNumber } from "./tables";
+
+export type DistKind =
+  | "emo_danmaku"
+  | "emo_comment_root"
+  | "emo_comment_reply"
+  | "model_danmaku"
+  | "model_comment_root"
+  | "model_comment_reply"
+  | "func_danmaku"
+  | "func_comment_all"
+  | "func_comment_root"
+  | "func_comment_reply";
+
+export type DistFamily = "emo" | "model" | "func";
+
+export type DistSource = "danmaku" | "comment_root" | "comment_reply" | "comment_all";
+
+type DistKindMeta = {
+  family: DistFamily;
+  source: DistSource;
+  tableKey: string;
+  /** 堆叠图标题 */
+  label: string;
+  /** 下拉框选项 */
+  optionLabel: string;
+  filePattern: string;
+};
+
+export const DIST_KINDS: Record<DistKind, DistKindMeta> = {
+  emo_danmaku: {
+    family: "emo",
+    source: "danmaku",
+    tableKey: TABLE_KEYS.DANMU_EMO,
+    label: "弹幕情绪分布（堆叠）",
+    optionLabel: "弹幕情绪分布（堆叠）",
+    filePattern: "danmaku_emo_dist_ep{ep}.csv",
+  },
+  emo_comment_root: {
+    family: "emo",
+    source: "comment_root",
+    tableKey: TABLE_KEYS.COM_ROOT_EMO,
+    label: "根评论情绪分布（堆叠）",
+    optionLabel: "根评论情绪分布（堆叠）",
+    filePattern: "comment_root_emo_dist_ep{ep}.csv",
+  },
+  emo_comment_reply: {
+    family: "emo",
+    source: "comment_reply",
+    tableKey: TABLE_KEYS.COM_REPLY_EMO,
+    label: "回复评论情绪分布（堆叠）",
+    optionLabel: "回复评论情绪分布（堆叠）",
+    filePattern: "comment_reply_emo_dist_ep{ep}.csv",
+  },
+  model_danmaku: {
+    family: "model",
+    source: "danmaku",
+    tableKey: TABLE_KEYS.DANMU_MODEL_EMO,
+    label: "弹幕模型极性（堆叠）",
+    optionLabel: "弹幕模型极性 pos/neu/neg（堆叠）",
+    filePattern: "danmaku_model_emo_dist_ep{ep}.csv",
+  },
+  model_comment_root: {
+    family: "model",
+    source: "comment_root",
+    tableKey: TABLE_KEYS.COM_ROOT_MODEL_EMO,
+    label: "根评论模型极性（堆叠）",
+    optionLabel: "根评论模型极性 pos/neu/neg（堆叠）",
+    filePattern: "comment_root_model_emo_dist_ep{ep}.csv",
+  },
+  model_comment_reply: {
+    family: "model",
+    source: "comment_reply",
+    tableKey: TABLE_KEYS.COM_REPLY_MODEL_EMO,
+    label: "回复评论模型极性（堆叠）",
+    optionLabel: "回复评论模型极性 pos/neu/neg（堆叠）",
+    filePattern: "comment_reply_model_emo_dist_ep{ep}.csv",
+  },
+  func_danmaku: {
+    family: "func",
+    source: "danmaku",
+    tableKey: TABLE_KEYS.DANMU_FUNC,
+    label: "弹幕功能分布（TopN + other）",
+    optionLabel: "弹幕功能分布（TopN+other）",
+    filePattern: "danmaku_func_dist_ep{ep}.csv",
+  },
+  func_comment_all: {
+    family: "func",
+    source: "comment_all",
+    tableKey: TABLE_KEYS.COM_ALL_FUNC,
+    label: "评论功能分布（总体）",
+    optionLabel: "评论功能分布（总体）",
+    filePattern: "comment_func_dist_ep{ep}.csv",
+  },
+  func_comment_root: {
+    family: "func",
+    source: "comment_root",
+    tableKey: TABLE_KEYS.COM_ROOT_FUNC,
+    label: "评论功能分布（根评）",
+    optionLabel: "评论功能分布（根评）",
+    filePattern: "comment_root_func_dist_ep{ep}.csv",
+  },
+  func_comment_reply: {
+    family: "func",
+    source: "comment_reply",
+    tableKey: TABLE_KEYS.COM_REPLY_FUNC,
+    label: "评论功能分布（回复）",
+    optionLabel: "评论功能分布（回复）",
+    filePattern: "comment_reply_func_dist_ep{ep}.csv",
+  },
+};
+
+export const DIST_KIND_OPTIONS = (Object.keys(DIST_KINDS) as DistKind[]).map((k) => ({ label: DIST_KINDS[k].optionLabel, value: k }));
+
+export const MODEL_EMO_ORDER = ["pos", "neu", "neg"] as const;
+
+export const SOURCE_LABEL: Record<DistSource, string> = {
+  danmaku: "弹幕",
+  comment_root: "根评论",
+  comment_reply: "回复",
+  comment_all: "评论（总体）",
+};
+
+/** 分布表的类别字段：与各卡片原有的回退顺序一致 */
+export function distLabelOf(row: any, family: DistFamily): string {
+  if (family === "emo") return String(row?.emo ?? row?.label ?? "other");
+  if (family === "func") return String(row?.func ?? row?.label ?? "other");
+  return String(row?.model_emo ?? row?.emo ?? row?.label ?? "neu");
+}
+
+export function distRows(rows: any[] | undefined, family: DistFamily) {
+  return (rows ?? []).map((r) => ({ label: distLabelOf(r, family), ratio: safeNumber(r?.ratio), cnt: safeNumber(r?.cnt) }));
+}
+
+export function distKindFor(family: DistFamily, source: DistSource): DistKind | null {
+  const hit = (Object.keys(DIST_KINDS) as DistKind[]).find((k) => DIST_KINDS[k].family === family && DIST_KINDS[k].source === source);
+  return hit ?? null;
+}
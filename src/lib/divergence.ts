@@ -0,0 +1,103 @@
+import { type DistFamily, type DistSource, DIST_KINDS, distKindFor, distRows } from "./dists";
+import type { TableMap } from "./types";
+
+// 弹幕 / 根评 / 回复 三个来源两两之间的分布差异
+
+export type DivergencePairId = "danmaku_root" | "danmaku_reply" | "root_reply";
+
+export const DIVERGENCE_PAIRS: Array<{ id: DivergencePairId; a: DistSource; b: DistSource; label: string }> = [
+  { id: "danmaku_root", a: "danmaku", b: "comment_root", label: "弹幕 vs 根评论" },
+  { id: "danmaku_reply", a: "danmaku", b: "comment_reply", label: "弹幕 vs 回复" },
+  { id: "root_reply", a: "comment_root", b: "comment_reply", label: "根评论 vs 回复" },
+];
+
+type SourceDist = { ratio: Map<string, number>; cnt: Map<string, number>; n: number };
+
+function sourceDist(rows: any[] | undefined, family: DistFamily): SourceDist | null {
+  const items = distRows(rows, family);
+  if (!items.length) return null;
+  const ratio = new Map<string, number>();
+  const cnt = new Map<string, number>();
+  for (const r of items) {
+    ratio.set(r.label, (ratio.get(r.label) ?? 0) + r.ratio);
+    cnt.set(r.label, (cnt.get(r.label) ?? 0) + r.cnt);
+  }
+  const n = Array.from(cnt.values()).reduce((a, b) => a + b, 0);
+  // 有 cnt 时以 cnt 为准重新归一，否则对 ratio 归一（防止合计不为 1）
+  const base = n > 0 ? cnt : ratio;
+  const total = Array.from(base.values()).reduce((a, b) => a + b, 0);
+  if (!(total > 0)) return null;
+  const norm = new Map<string, number>();
+  base.forEach((v, k) => norm.set(k, v / total));
+  return { ratio: norm, cnt, n };
+}
+
+function keysOf(a: SourceDist, b: SourceDist) {
+  return Array.from(new Set([...a.ratio.keys(), ...b.ratio.keys()]));
+}
+
+/** Jensen–Shannon 散度（以 2 为底，取值 0–1） */
+export function jensenShannon(p: number[], q: number[]) {
+  let js = 0;
+  for (let i = 0; i < p.length; i++) {
+    const m = (p[i] + q[i]) / 2;
+    if (p[i] > 0) js += 0.5 * p[i] * Math.log2(p[i] / m);
+    if (q[i] > 0) js += 0.5 * q[i] * Math.log2(q[i] / m);
+  }
+  return Math.max(0, js);
+}
+
+export function totalVariation(p: number[], q: number[]) {
+  return p.reduce((s, v, i) => s + Math.abs(v - q[i]), 0) / 2;
+}
+
+function pairDists(tables: TableMap | undefined, family: DistFamily, a: DistSource, b: DistSource) {
+  const ka = distKindFor(family, a);
+  const kb = distKindFor(family, b);
+  if (!ka || !kb || !tables) return null;
+  const da = sourceDist(tables[DIST_KINDS[ka].tableKey], family);
+  const db = sourceDist(tables[DIST_KINDS[kb].tableKey], family);
+  return da && db ? { a: da, b: db } : null;
+}
+
+export type DivergenceRow = { ep: string; pair: DivergencePairId; jsd: number; tvd: number; na: number; nb: number };
+
+export function divergenceByEpisode(episodes: string[], tablesByEp: Record<string, TableMap>, family: DistFamily): DivergenceRow[] {
+  const out: DivergenceRow[] = [];
+  for (const ep of episodes) {
+    for (const pair of DIVERGENCE_PAIRS) {
+      const d = pairDists(tablesByEp[ep], family, pair.a, pair.b);
+      if (!d) continue;
+      const keys = keysOf(d.a, d.b);
+      const p = keys.map((k) => d.a.ratio.get(k) ?? 0);
+      const q = keys.map((k) => d.b.ratio.get(k) ?? 0);
+      out.push({ ep, pair: pair.id, jsd: jensenShannon(p, q), tvd: totalVariation(p, q), na: d.a.n, nb: d.b.n });
+    }
+  }
+  return out;
+}
+
+export type CategoryDiff = {
+  key: string;
+  pa: number;
+  pb: number;
+  /** pa − pb */
+  diff: number;
+  /** 两独立比例差的 Wald 95% CI；缺少 cnt 时为 null */
+  ci: [number, number] | null;
+  significant: boolean;
+};
+
+export function categoryDiffs(tables: TableMap | undefined, family: DistFamily, a: DistSource, b: DistSource, z = 1.96): CategoryDiff[] {
+  const d = pairDists(tables, family, a, b);
+  if (!d) return [];
+  return keysOf(d.a, d.b).map((key) => {
+    const pa = d.a.ratio.get(key) ?? 0;
+    const pb = d.b.ratio.get(key) ?? 0;
+    const diff = pa - pb;
+    if (!(d.a.n > 0 && d.b.n > 0)) return { key, pa, pb, diff, ci: null, significant: false };
+    const se = Math.sqrt((pa * (1 - pa)) / d.a.n + (pb * (1 - pb)) / d.b.n);
+    const ci: [number, number] = [diff - z * se, diff + z * se];
+    return { key, pa, pb, diff, ci, significant: ci[0] > 0 || ci[1] < 0 };
+  });
+}
@@ -0,0 +1,69 @@
+import { type RawDanmaku, RAW_KEYS, normalizeContent } from "./raw";
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+
+// 曲线下钻：把“峰值 / Top 区间 / 某一分钟”换算成秒区间，取出其中的原始弹幕与刷屏句
+
+export type DrillOrigin = "peak" | "interval" | "minute";
+
+/** start/end 为曲线上的 minute（含两端） */
+export type DrillWindow = { ep: string; start: number; end: number; origin: DrillOrigin };
+
+export const DRILL_ORIGIN_LABEL: Record<DrillOrigin, string> = {
+  peak: "峰值",
+  interval: "Top 区间",
+  minute: "单分钟",
+};
+
+export type DrillBurst = { sec_bin: number; norm_content: string; cnt: number };
+
+export type DrillItem = RawDanmaku & { burst: boolean };
+
+export type DrillGroup = { label: string; items: DrillItem[] };
+
+export type DrillResult = {
+  bursts: DrillBurst[];
+  groups: DrillGroup[];
+  total: number;
+  /** 本集是否有原始弹幕（没有时只能列出刷屏句） */
+  hasRaw: boolean;
+};
+
+export function drillDown(tables: TableMap | undefined, win: DrillWindow, field: "emo" | "func"): DrillResult {
+  const from = win.start * 60;
+  const to = (win.end + 1) * 60;
+  const inWindow = (sec: number) => sec >= from && sec < to;
+
+  const bursts: DrillBurst[] = (tables?.[TABLE_KEYS.BURST_2S] ?? [])
+    .map((r: any) => ({ sec_bin: safeNumber(r.sec_bin), norm_content: String(r.norm_content ?? r.content ?? ""), cnt: safeNumber(r.cnt) }))
+    .filter((b) => b.norm_content && inWindow(b.sec_bin))
+    .sort((a, b) => b.cnt - a.cnt || a.sec_bin - b.sec_bin);
+  const burstPhrases = new Set(bursts.map((b) => b.norm_content));
+
+  const raw = (tables?.[RAW_KEYS.DANMAKU] ?? []) as RawDanmaku[];
+  const byLabel = new Map<string, DrillItem[]>();
+  let total = 0;
+  for (const d of raw) {
+    if (!inWindow(d.time)) continue;
+    const label = d[field] ?? "未标注";
+    const list = byLabel.get(label) ?? [];
+    list.push({ ...d, burst: burstPhrases.has(normalizeContent(d.content)) });
+    byLabel.set(label, list);
+    total++;
+  }
+  // 组内刷屏句排前，其余按时间
+  const groups = Array.from(byLabel.entries())
+    .map(([label, items]) => ({ label, items: items.sort((a, b) => Number(b.burst) - Number(a.burst) || a.time - b.time) }))
+    .sort((a, b) => b.items.length - a.items.length);
+
+  return { bursts, groups, total, hasRaw: raw.length > 0 };
+}
+
+export function canDrillDown(tables: TableMap | undefined) {
+  return !!(tables?.[RAW_KEYS.DANMAKU]?.length || tables?.[TABLE_KEYS.BURST_2S]?.length);
+}
+
+export function drillWindowLabel(win: DrillWindow) {
+  const range = win.start === win.end ? `${win.start}m` : `${win.start}m–${win.end}m`;
+  return `${range}（${DRILL_ORIGIN_LABEL[win.origin]}）`;
+}
@@ -0,0 +1,86 @@
+import { safeNumber } from "./tables";
+
+// 集数标识：单系列单季时就是文件名里的集号（"01"），与旧会话兼容；
+// 有系列或季号时为 "系列:季:集"（如 "凡人修仙传:2:14"、":2:14"）。
+
+export type EpisodeParts = { series: string; season: string; ep: string };
+
+const SEP = ":";
+
+export function makeEpisodeId({ series, season, ep }: EpisodeParts) {
+  return series || season ? [series, season, ep].join(SEP) : ep;
+}
+
+export function parseEpisodeId(id: string): EpisodeParts {
+  const parts = id.split(SEP);
+  if (parts.length < 3) return { series: "", season: "", ep: id };
+  // 系列名里允许出现冒号：最后两段是季和集
+  const ep = parts.pop()!;
+  const season = parts.pop()!;
+  return { series: parts.join(SEP), season, ep };
+}
+
+/** 季号统一成不带前导零的数字串，避免 "02" 与 "2" 被当成两季 */
+export function normalizeSeason(season?: string) {
+  if (!season) return "";
+  return /^\d+$/.test(season) ? String(Number(season)) : season;
+}
+
+export function episodeGroupKey(id: string) {
+  const { series, season } = parseEpisodeId(id);
+  return series || season ? `${series}${SEP}${season}` : "";
+}
+
+export function groupLabel(key: string) {
+  if (!key) return "默认";
+  const idx = key.lastIndexOf(SEP);
+  const series = key.slice(0, idx);
+  const season = key.slice(idx + 1);
+  return [series, season ? `第${season}季` : ""].filter(Boolean).join(" · ") || "默认";
+}
+
+/** short=true 时只给集号（用于已按系列/季分组的位置） */
+export function episodeLabel(id: string, short = false) {
+  const { series, season, ep } = parseEpisodeId(id);
+  const epPart = `第${ep}集`;
+  if (short || (!series && !season)) return epPart;
+  return [series, season ? `第${season}季` : "", epPart].filter(Boolean).join(" ");
+}
+
+/** 用于导出文件名：去掉冒号等不适合作文件名的字符 */
+export function episodeFileTag(id: string) {
+  return id.replace(/[:/\\?*"<>|\s]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+export function compareEpisodeIds(a: string, b: string) {
+  const pa = parseEpisodeId(a);
+  const pb = parseEpisodeId(b);
+  if (pa.series !== pb.series) return pa.series.localeCompare(pb.series, "zh-CN");
+  if (pa.season !== pb.season) return safeNumber(pa.season) - safeNumber(pb.season) || pa.season.localeCompare(pb.season);
+  return safeNumber(pa.ep) - safeNumber(pb.ep);
+}
+
+export type EpisodeGroup = { key: string; label: string; eps: string[] };
+
+/** 按系列/季分组，组内与组间都保持 compareEpisodeIds 的顺序 */
+export function groupEpisodes(ids: string[]): EpisodeGroup[] {
+  const groups = new Map<string, EpisodeGroup>();
+  for (const id of ids.slice().sort(compareEpisodeIds)) {
+    const key = episodeGroupKey(id);
+    const g = groups.get(key) ?? { key, label: groupLabel(key), eps: [] };
+    g.eps.push(id);
+    groups.set(key, g);
+  }
+  return Array.from(groups.values());
+}
+
+/** 每个系列/季里与 id 集号相同的那一集（跨系列对比的快捷选择） */
+export function sameEpisodeAcrossGroups(ids: string[], id: string) {
+  const target = safeNumber(parseEpisodeId(id).ep, NaN);
+  return groupEpisodes(ids).flatMap((g) => g.eps.filter((x) => safeNumber(parseEpisodeId(x).ep, NaN) === target).slice(0, 1));
+}
+
+/** episode_stats 行对应的集数标识（导入时写入 episode_key，旧数据回退到 episode_id） */
+export function episodeStatsId(row: any) {
+  return String(row?.episode_key ?? row?.episode_id ?? row?.episode ?? "");
+}
@@ -0,0 +1,63 @@
+import Papa from "papaparse";
+import { toPng } from "html-to-image";
+
+export function downloadText(filename: string, text: string, mime = "text/plain;charset=utf-8") {
+  const blob = new Blob([text], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** 带 BOM，Excel 直接打开不乱码 */
+export function downloadCsv(filename: string, rows: Record<string, any>[], columns?: string[]) {
+  const csv = Papa.unparse(rows, columns ? { columns } : undefined);
+  downloadText(filename, "\ufeff" + csv, "text/csv;charset=utf-8");
+}
+
+// ---------- export ----------
+export async function exportNodeAsPng(node: HTMLElement, filename: string) {
+  // 导出稳定性：避免外链字体导致 canvas 污染 / 加载失败
+  await new Promise((r) => setTimeout(r, 150));
+  const fontStack =
+    'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans SC", "Noto Sans CJK SC", Arial, sans-serif';
+  const dataUrl = await toPng(node, {
+    cacheBust: true,
+    pixelRatio: 2,
+    backgroundColor: "#ffffff",
+    useCORS: true,
+    style: { fontFamily: fontStack },
+  });
+  const a = document.createElement("a");
+  a.href = dataUrl;
+  a.download = filename;
+  a.click();
+}
+
+export async function exportNodeAsPngBlob(node: HTMLElement) {
+  await new Promise((r) => setTimeout(r, 150));
+  const fontStack =
+    'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans SC", "Noto Sans CJK SC", Arial, sans-serif';
+  const dataUrl = await toPng(node, {
+    cacheBust: true,
+    pixelRatio: 2,
+    backgroundColor: "#ffffff",
+    useCORS: true,
+    style: { fontFamily: fontStack },
+  });
+  const res = await fetch(dataUrl);
+  return await res.blob();
+}
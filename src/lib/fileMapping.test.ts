@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILE_MAPPING, classifyFileName, compileFileMapping, upgradeFileMapping } from "./fileMapping";
+import { TABLE_KEYS } from "./tables";
+
+const classify = (name: string) => classifyFileName(name, compileFileMapping(DEFAULT_FILE_MAPPING));
+
+describe("DEFAULT_FILE_MAPPING", () => {
+  it("识别完整表名", () => {
+    expect(classify("danmaku_emo_dist_ep14.csv")).toMatchObject({ key: TABLE_KEYS.DANMU_EMO, ep: "14" });
+    expect(classify("danmaku_minute_emo_curve_ep3.csv").key).toBe(TABLE_KEYS.DANMU_MIN_EMO);
+  });
+
+  it("识别另一套 pipeline 的短文件名，_model_ 表不会被普通情绪表吞掉", () => {
+    expect(classify("S02E14_danmaku_emo.csv")).toMatchObject({ key: TABLE_KEYS.DANMU_EMO, ep: "14", season: "2" });
+    expect(classify("S02E14_danmaku_model_emo.csv").key).toBe(TABLE_KEYS.DANMU_MODEL_EMO);
+    expect(classify("S02E14_comment_root_model_emo.csv").key).toBe(TABLE_KEYS.COM_ROOT_MODEL_EMO);
+    expect(classify("S02E14_comment_reply_emo.csv").key).toBe(TABLE_KEYS.COM_REPLY_EMO);
+    expect(classify("S02E14_comment_func.csv").key).toBe(TABLE_KEYS.COM_ALL_FUNC);
+  });
+});
+
+describe("upgradeFileMapping", () => {
+  it("旧版本保存的映射补上新的默认规则，保留用户自己的规则和顺序", () => {
+    const custom = { pattern: "^mine_.*\\.csv$", key: TABLE_KEYS.DANMU_EMO };
+    const saved = { ...DEFAULT_FILE_MAPPING, version: undefined, rules: [custom, ...DEFAULT_FILE_MAPPING.rules.filter((r) => r.key !== TABLE_KEYS.ANCHORS && !r.pattern.includes("(_dist)?"))] };
+
+    const upgraded = upgradeFileMapping(saved);
+    expect(upgraded.version).toBe(DEFAULT_FILE_MAPPING.version);
+    expect(upgraded.rules[0]).toEqual(custom);
+    expect(upgraded.rules.slice(1)).toEqual(DEFAULT_FILE_MAPPING.rules);
+  });
+
+  it("版本一致时原样返回（用户删掉的默认规则不会回来）", () => {
+    const saved = { ...DEFAULT_FILE_MAPPING, rules: DEFAULT_FILE_MAPPING.rules.slice(1) };
+    expect(upgradeFileMapping(saved)).toBe(saved);
+  });
+});
@@ -0,0 +1,179 @@
+import { normalizeSeason } from "./episodes";
+import { RAW_KEYS } from "./raw";
+import { TABLE_KEYS } from "./tables";
+
+// 文件名 → 表 的映射：规则按顺序匹配，第一个命中的决定表；集号/季号/系列由独立的正则提取。
+// 全部是可 JSON 序列化的纯数据，既存 localStorage 设置，也原样传给解析 Worker。
+
+export type FileMappingRule = { pattern: string; key: string };
+
+export type FileMapping = {
+  rules: FileMappingRule[];
+  /** 依次尝试；取命名分组 ep（否则第 1 组），若含命名分组 season 也一并取出 */
+  episodePatterns: string[];
+  /** 可选：单独提取季号（第 1 组或命名分组 season） */
+  seasonPattern: string;
+  /** 可选：提取系列名（第 1 组或命名分组 series）；文件名没有时也会尝试所在 zip 的文件名 */
+  seriesPattern: string;
+  /** 未匹配到系列时使用；留空则不区分系列 */
+  defaultSeries: string;
+  /** 保存时默认规则的版本，见 upgradeFileMapping */
+  version?: number;
+};
+
+const LEGACY_KEYS: Array<[string, string]> = [
+  ["episode_stats", "csv"],
+  ["danmaku_basic_stats", "json"],
+  [TABLE_KEYS.DANMU_EMO, "csv"],
+  [TABLE_KEYS.COM_ROOT_EMO, "csv"],
+  [TABLE_KEYS.COM_REPLY_EMO, "csv"],
+  [TABLE_KEYS.DANMU_MODEL_EMO, "csv"],
+  [TABLE_KEYS.COM_ROOT_MODEL_EMO, "csv"],
+  [TABLE_KEYS.COM_REPLY_MODEL_EMO, "csv"],
+  [TABLE_KEYS.MODEL_USAGE, "csv"],
+  [TABLE_KEYS.DANMU_FUNC, "csv"],
+  [TABLE_KEYS.COM_ALL_FUNC, "csv"],
+  [TABLE_KEYS.COM_ROOT_FUNC, "csv"],
+  [TABLE_KEYS.COM_REPLY_FUNC, "csv"],
+  [TABLE_KEYS.DANMU_MIN_EMO, "csv"],
+  [TABLE_KEYS.DANMU_MIN_FUNC, "csv"],
+  [TABLE_KEYS.BURST_2S, "csv"],
+  [TABLE_KEYS.TOP_TERMS_DANMU, "csv"],
+  [TABLE_KEYS.TOP_TERMS_COMMENT, "csv"],
+  [TABLE_KEYS.CLEANING_REPORT, "csv"],
+  [TABLE_KEYS.SCENES, "csv"],
+  [TABLE_KEYS.ANCHORS, "csv"],
+];
+
+// 另一套 pipeline 的短文件名（如 S02E14_danmaku_emo.csv）；含 _model_ 的排在前面，避免被普通情绪表吞掉
+const SHORT_KEYS: Array<[string, string]> = [
+  ["danmaku_model_emo", TABLE_KEYS.DANMU_MODEL_EMO],
+  ["comment_root_model_emo", TABLE_KEYS.COM_ROOT_MODEL_EMO],
+  ["comment_reply_model_emo", TABLE_KEYS.COM_REPLY_MODEL_EMO],
+  ["danmaku_emo", TABLE_KEYS.DANMU_EMO],
+  ["comment_root_emo", TABLE_KEYS.COM_ROOT_EMO],
+  ["comment_reply_emo", TABLE_KEYS.COM_REPLY_EMO],
+  ["danmaku_func", TABLE_KEYS.DANMU_FUNC],
+  ["comment_func", TABLE_KEYS.COM_ALL_FUNC],
+  ["comment_root_func", TABLE_KEYS.COM_ROOT_FUNC],
+  ["comment_reply_func", TABLE_KEYS.COM_REPLY_FUNC],
+];
+
+/** 默认规则有增补时加 1，已保存的映射在加载时会补上新的默认规则 */
+export const FILE_MAPPING_VERSION = 2;
+
+export const DEFAULT_FILE_MAPPING: FileMapping = {
+  rules: [
+    ...LEGACY_KEYS.map(([key, ext]) => ({ pattern: `${key}.*\\.${ext}$`, key })),
+    ...SHORT_KEYS.map(([short, key]) => ({ pattern: `${short}(_dist)?\\.csv$`, key })),
+    // 原始数据放在最后：已聚合的表名优先
+    { pattern: "\\.xml$", key: RAW_KEYS.DANMAKU },
+    { pattern: "(raw_danmaku|danmaku_raw).*\\.csv$", key: RAW_KEYS.DANMAKU },
+    { pattern: "(comments?|repl(y|ies)).*\\.json$", key: RAW_KEYS.COMMENTS },
+    { pattern: "(raw_comments?|comments?_raw).*\\.csv$", key: RAW_KEYS.COMMENTS },
+  ],
+  episodePatterns: [
+    "ep(\\d+)",
+    "s(?<season>\\d+)e(?<ep>\\d+)",
+    "第(\\d+)集",
+    // 以分隔符包围的两到三位集号（避免 BV 号/时间戳误判）
+    "(?:^|[-_])(\\d{2,3})[-_]",
+  ],
+  seasonPattern: "第(\\d+)季",
+  seriesPattern: "",
+  defaultSeries: "",
+  version: FILE_MAPPING_VERSION,
+};
+
+const sameRule = (a: FileMappingRule, b: FileMappingRule) => a.pattern === b.pattern && a.key === b.key;
+
+/**
+ * localStorage 里的映射是某个时点的完整快照：版本落后时把缺失的默认规则插回去，
+ * 位置紧跟在它前一条默认规则之后，保持“具体规则在前、原始数据在后”的顺序。
+ * 用户自己删掉的默认规则也会在版本升级时回来一次。
+ */
+export function upgradeFileMapping(saved: FileMapping): FileMapping {
+  if (saved?.version === FILE_MAPPING_VERSION) return saved;
+  const rules = Array.isArray(saved?.rules) ? saved.rules.slice() : [];
+  let at = 0;
+  for (const d of DEFAULT_FILE_MAPPING.rules) {
+    const idx = rules.findIndex((r) => sameRule(r, d));
+    if (idx >= 0) at = idx + 1;
+    else rules.splice(at++, 0, { ...d });
+  }
+  return {
+    ...DEFAULT_FILE_MAPPING,
+    ...saved,
+    rules,
+    episodePatterns: Array.isArray(saved?.episodePatterns) ? saved.episodePatterns : DEFAULT_FILE_MAPPING.episodePatterns,
+    version: FILE_MAPPING_VERSION,
+  };
+}
+
+export type CompiledFileMapping = {
+  rules: Array<{ re: RegExp; key: string }>;
+  episodeRes: RegExp[];
+  seasonRe: RegExp | null;
+  seriesRe: RegExp | null;
+  defaultSeries: string;
+  /** 无法编译的正则，已被跳过 */
+  errors: string[];
+};
+
+export function compileFileMapping(m: FileMapping): CompiledFileMapping {
+  const errors: string[] = [];
+  const compile = (pattern: string, where: string) => {
+    if (!pattern.trim()) return null;
+    try {
+      return new RegExp(pattern, "i");
+    } catch (err: any) {
+      errors.push(`${where}「${pattern}」无效：${err?.message ?? "正则语法错误"}`);
+      return null;
+    }
+  };
+  const rules: CompiledFileMapping["rules"] = [];
+  m.rules.forEach((r, i) => {
+    const re = compile(r.pattern, `规则 ${i + 1}`);
+    if (re && r.key) rules.push({ re, key: r.key });
+  });
+  const episodeRes = m.episodePatterns.map((p, i) => compile(p, `集号规则 ${i + 1}`)).filter((x): x is RegExp => !!x);
+  // 旧版本保存的设置里没有系列相关字段
+  return {
+    rules,
+    episodeRes,
+    seasonRe: compile(m.seasonPattern ?? "", "季号规则"),
+    seriesRe: compile(m.seriesPattern ?? "", "系列规则"),
+    defaultSeries: (m.defaultSeries ?? "").trim(),
+    errors,
+  };
+}
+
+export type FileClassification = { key: string | null; ep?: string; season?: string; series?: string };
+
+function firstGroup(re: RegExp | null, names: Array<string | undefined>, group: string) {
+  if (!re) return undefined;
+  for (const name of names) {
+    const m = name ? name.match(re) : null;
+    const hit = m?.groups?.[group] ?? m?.[1];
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+/** source 为所在 zip 的文件名：季号/系列在文件名里找不到时再看 zip 名 */
+export function classifyFileName(filename: string, compiled: CompiledFileMapping, source?: string): FileClassification {
+  const key = compiled.rules.find((r) => r.re.test(filename))?.key ?? null;
+  let ep: string | undefined;
+  let season: string | undefined;
+  for (const re of compiled.episodeRes) {
+    const m = filename.match(re);
+    const hit = m?.groups?.ep ?? m?.[1];
+    if (!hit) continue;
+    ep = hit;
+    season = m?.groups?.season;
+    break;
+  }
+  season = season ?? firstGroup(compiled.seasonRe, [filename, source], "season");
+  const series = firstGroup(compiled.seriesRe, [filename, source], "series") ?? compiled.defaultSeries;
+  return { key, ep, season: normalizeSeason(season) || undefined, series: series || undefined };
+}
@@ -0,0 +1,23 @@
+import { safeNumber } from "./tables";
+
+export function fmtNum(x: any, digits = 1) {
+  const n = safeNumber(x, NaN);
+  if (!Number.isFinite(n)) return "—";
+  return n.toFixed(digits);
+}
+
+export function toPercent(n: number) {
+  if (!Number.isFinite(n)) return "0%";
+  return `${(n * 100).toFixed(1)}%`;
+}
+
+export function niceKey(k: string) {
+  return k.replace(/_/g, " ").replace(/\b(emo|func|ep)\b/gi, (m: string) => m.toUpperCase());
+}
+
+/** 秒 → m:ss（视频内时间） */
+export function fmtClock(sec: number) {
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
@@ -0,0 +1,227 @@
+import JSZip from "jszip";
+
+import { type IngestReportEntry, type ValidationResult, tableLabel, validateJsonObject, validateTable } from "./schema";
+import { type CompiledFileMapping, type FileMapping, classifyFileName, compileFileMapping } from "./fileMapping";
+import { compareEpisodeIds, episodeGroupKey, episodeStatsId, makeEpisodeId } from "./episodes";
+import { isRawKey, parseAndAggregateRaw } from "./raw";
+import { parseCsv } from "./tables";
+import type { Store, TableMap } from "./types";
+
+// 上传解析管线：与 UI 无关，既可在 Worker 里跑（ingest.worker.ts），也可在主线程兜底。
+// 解析结果以 patch 列表返回，由调用方一次性合并进 Store，避免逐文件 setState。
+
+export type IngestPatch =
+  | { kind: "episode_stats"; rows: any[]; series: string; season: string }
+  | { kind: "basic_stats"; ep: string; obj: any }
+  | { kind: "table"; ep: string; key: string; rows: any[] };
+
+export type IngestProgress = { progress: number; label: string };
+
+export type IngestResult = { patches: IngestPatch[]; report: IngestReportEntry[] };
+
+export function mergeEpisodes(tablesByEp: Record<string, TableMap>, basicStatsByEp: Record<string, any>, episodeStats?: any[]) {
+  const eps = new Set<string>();
+  Object.keys(tablesByEp).forEach((ep) => eps.add(ep));
+  Object.keys(basicStatsByEp).forEach((ep) => eps.add(ep));
+  (episodeStats ?? []).forEach((r) => {
+    const ep = episodeStatsId(r);
+    if (ep) eps.add(ep);
+  });
+  return Array.from(eps).sort(compareEpisodeIds);
+}
+
+export function applyPatches(prev: Store, patches: IngestPatch[]): Store {
+  let episodeStats = prev.episodeStats;
+  const basicStatsByEp = { ...prev.basicStatsByEp };
+  const tablesByEp = { ...prev.tablesByEp };
+  for (const p of patches) {
+    if (p.kind === "episode_stats") {
+      // 每个系列/季各有一份 episode_stats：只替换同组的行
+      const group = episodeGroupKey(makeEpisodeId({ series: p.series, season: p.season, ep: "" }));
+      episodeStats = [...(episodeStats ?? []).filter((r) => episodeGroupKey(episodeStatsId(r)) !== group), ...p.rows];
+    } else if (p.kind === "basic_stats") basicStatsByEp[p.ep] = { ...(basicStatsByEp[p.ep] ?? {}), ...p.obj };
+    else tablesByEp[p.ep] = { ...(tablesByEp[p.ep] ?? {}), [p.key]: p.rows };
+  }
+  const episodes = mergeEpisodes(tablesByEp, basicStatsByEp, episodeStats);
+  return { ...prev, episodeStats, basicStatsByEp, tablesByEp, episodes };
+}
+
+const NO_RULE_REASON = "文件名不匹配任何映射规则（可在“文件映射”页添加）";
+
+export async function ingestText(
+  name: string,
+  text: string,
+  mapping: CompiledFileMapping,
+  source?: string
+): Promise<{ entry: IngestReportEntry; patches: IngestPatch[] }> {
+  const c = classifyFileName(name, mapping, source);
+  if (!c.key) return { entry: { name, source, status: "skipped", reasons: [NO_RULE_REASON] }, patches: [] };
+  const series = c.series ?? "";
+  const season = c.season ?? "";
+
+  const base: IngestReportEntry = { name, source, status: "accepted", key: c.key, ep: c.ep, season: c.season, series: c.series, reasons: [] };
+  const finish = (v: ValidationResult, rows?: number): IngestReportEntry => {
+    const reasons = [...v.errors, ...v.warnings];
+    const status = v.errors.length ? "rejected" : v.warnings.length ? "warning" : "accepted";
+    return { ...base, status, rows, reasons };
+  };
+
+  try {
+    if (c.key === "episode_stats") {
+      const parsed = await parseCsv(text);
+      const v = validateTable(c.key, parsed.rows, parsed.fields);
+      v.warnings.unshift(...parsed.errors);
+      const rows = parsed.rows.map((r) => ({ ...r, episode_key: makeEpisodeId({ series, season, ep: String(r?.episode_id ?? r?.episode ?? "") }) }));
+      const patches: IngestPatch[] = v.errors.length ? [] : [{ kind: "episode_stats", rows, series, season }];
+      return { entry: finish(v, parsed.rows.length), patches };
+    }
+
+    if (!c.ep) return { entry: finish({ errors: ["文件名中未识别到集号（请检查“文件映射”中的集号规则）"], warnings: [] }), patches: [] };
+
+    const ep = makeEpisodeId({ series, season, ep: c.ep });
+
+    if (c.key === "danmaku_basic_stats") {
+      const obj = JSON.parse(text);
+      const v = validateJsonObject(c.key, obj);
+      const patches: IngestPatch[] = v.errors.length ? [] : [{ kind: "basic_stats", ep, obj }];
+      return { entry: finish(v), patches };
+    }
+
+    if (isRawKey(c.key)) {
+      const csvRows = /\.csv$/i.test(name) ? (await parseCsv(text)).rows : null;
+      const { items: raw, agg } = parseAndAggregateRaw(c.key, text, csvRows);
+      if (!raw.length) return { entry: finish({ errors: ["未解析到任何记录（弹幕需要 <d p=\"...\"> 或时间+内容列；评论需要 content/message）"], warnings: [] }), patches: [] };
+      const derived = Object.keys(agg.tables);
+      const patches: IngestPatch[] = [
+        { kind: "table", ep, key: c.key, rows: raw },
+        ...derived.map((key): IngestPatch => ({ kind: "table", ep, key, rows: agg.tables[key] })),
+        { kind: "basic_stats", ep, obj: agg.basic },
+      ];
+      const generated = `已在浏览器中生成：${derived.map(tableLabel).join("、") || "—"}`;
+      const unlabeled = raw.some((r) => r.emo) ? [] : ["没有 emo 列，未生成情绪分布（情绪曲线只有 total 列）"];
+      const entry = finish({ errors: [], warnings: unlabeled }, raw.length);
+      return { entry: { ...entry, reasons: [generated, ...entry.reasons] }, patches };
+    }
+
+    const parsed = await parseCsv(text);
+    const v = validateTable(c.key, parsed.rows, parsed.fields);
+    v.warnings.unshift(...parsed.errors);
+    const patches: IngestPatch[] = v.errors.length ? [] : [{ kind: "table", ep, key: c.key, rows: parsed.rows }];
+    return { entry: finish(v, parsed.rows.length), patches };
+  } catch (err: any) {
+    const msg = err?.message ? String(err.message) : "文件解析失败，请检查 CSV/JSON 格式。";
+    return { entry: finish({ errors: [msg], warnings: [] }), patches: [] };
+  }
+}
+
+export class IngestCancelled extends Error {
+  constructor() {
+    super("已取消解析");
+    this.name = "IngestCancelled";
+  }
+}
+
+const isZip = (f: File) => f.name.toLowerCase().endsWith(".zip");
+const isDataFile = (name: string) => /\.(csv|json|xml)$/i.test(name);
+const baseName = (path: string) => path.split("/").pop() || path;
+
+async function zipEntries(zf: File) {
+  const zip = await JSZip.loadAsync(await zf.arrayBuffer());
+  return Object.values(zip.files).filter((e) => !e.dir);
+}
+
+export type FilePreviewStatus = "matched" | "no_ep" | "unmatched" | "not_data" | "bad_zip";
+
+export type FilePreview = { name: string; source?: string; key?: string; ep?: string; season?: string; series?: string; status: FilePreviewStatus };
+
+export const FILE_PREVIEW_LABEL: Record<FilePreviewStatus, string> = {
+  matched: "将导入",
+  no_ep: "缺集号",
+  unmatched: "未匹配",
+  not_data: "非数据文件",
+  bad_zip: "无法解压",
+};
+
+// 需要集号的表：episode_stats 是全季汇总，不按集拆分
+const needsEpisode = (key: string) => key !== "episode_stats";
+
+export function previewFileName(name: string, mapping: CompiledFileMapping, source?: string): FilePreview {
+  if (!isDataFile(name)) return { name, source, status: "not_data" };
+  const c = classifyFileName(name, mapping, source);
+  if (!c.key) return { name, source, ep: c.ep, season: c.season, series: c.series, status: "unmatched" };
+  const status = needsEpisode(c.key) && !c.ep ? "no_ep" : "matched";
+  return { name, source, key: c.key, ep: c.ep, season: c.season, series: c.series, status };
+}
+
+/** 只读文件名（zip 只读目录，不解压内容），用于导入前预览 */
+export async function previewFiles(files: File[], mapping: FileMapping): Promise<FilePreview[]> {
+  const compiled = compileFileMapping(mapping);
+  const out: FilePreview[] = [];
+  for (const f of files) {
+    if (!isZip(f)) {
+      out.push(previewFileName(f.name, compiled));
+      continue;
+    }
+    try {
+      for (const e of await zipEntries(f)) out.push(previewFileName(baseName(e.name), compiled, f.name));
+    } catch {
+      out.push({ name: f.name, status: "bad_zip" });
+    }
+  }
+  return out;
+}
+
+/** 解压 + 解析全部文件；isCancelled 在每个文件之间检查 */
+export async function runIngestPipeline(
+  files: File[],
+  mapping: FileMapping,
+  onProgress: (p: IngestProgress) => void,
+  isCancelled: () => boolean = () => false
+): Promise<IngestResult> {
+  const compiled = compileFileMapping(mapping);
+  const zipFiles = files.filter(isZip);
+  const normalFiles = files.filter((f) => !isZip(f));
+  const patches: IngestPatch[] = [];
+  const report: IngestReportEntry[] = [];
+  const check = () => {
+    if (isCancelled()) throw new IngestCancelled();
+  };
+
+  for (let zi = 0; zi < zipFiles.length; zi++) {
+    const zf = zipFiles[zi];
+    onProgress({ progress: 5, label: `解压 ${zf.name}` });
+    let entries: JSZip.JSZipObject[];
+    try {
+      entries = await zipEntries(zf);
+    } catch (err: any) {
+      const msg = err?.message ? String(err.message) : "zip 解压失败。";
+      report.push({ name: zf.name, status: "rejected", reasons: [`无法解压：${msg}`] });
+      continue;
+    }
+
+    for (let i = 0; i < entries.length; i++) {
+      check();
+      const e = entries[i];
+      const nm = baseName(e.name);
+      if (!isDataFile(nm)) {
+        report.push({ name: nm, source: zf.name, status: "skipped", reasons: ["非 CSV/JSON/XML 文件"] });
+        continue;
+      }
+      onProgress({ progress: Math.round((i / Math.max(1, entries.length)) * 90) + 5, label: `解析 ${nm}` });
+      const res = await ingestText(nm, await e.async("string"), compiled, zf.name);
+      report.push(res.entry);
+      patches.push(...res.patches);
+    }
+  }
+
+  for (let i = 0; i < normalFiles.length; i++) {
+    check();
+    const f = normalFiles[i];
+    onProgress({ progress: Math.round((i / Math.max(1, normalFiles.length)) * 80) + 10, label: `解析 ${f.name}` });
+    const res = await ingestText(f.name, await f.text(), compiled);
+    report.push(res.entry);
+    patches.push(...res.patches);
+  }
+
+  return { patches, report };
+}
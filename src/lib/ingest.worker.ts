@@ -0,0 +1,23 @@
+import { type IngestPatch, runIngestPipeline } from "./ingest";
+import type { FileMapping } from "./fileMapping";
+import type { IngestReportEntry } from "./schema";
+
+// 主线程 → { files, mapping }；Worker → progress*（若干） → done | error。取消由主线程 terminate() 完成。
+
+export type IngestWorkerRequest = { files: File[]; mapping: FileMapping };
+
+export type IngestWorkerMessage =
+  | { type: "progress"; progress: number; label: string }
+  | { type: "done"; patches: IngestPatch[]; report: IngestReportEntry[] }
+  | { type: "error"; message: string };
+
+const ctx = self as unknown as { postMessage: (msg: IngestWorkerMessage) => void; onmessage: ((e: MessageEvent<IngestWorkerRequest>) => void) | null };
+
+ctx.onmessage = async (e) => {
+  try {
+    const { patches, report } = await runIngestPipeline(e.data.files, e.data.mapping, (p) => ctx.postMessage({ type: "progress", ...p }));
+    ctx.postMessage({ type: "done", patches, report });
+  } catch (err: any) {
+    ctx.postMessage({ type: "error", message: err?.message ? String(err.message) : "解析失败。" });
+  }
+};
@@ -0,0 +1,42 @@
+import { type IngestProgress, type IngestResult, IngestCancelled, runIngestPipeline } from "./ingest";
+import type { IngestWorkerMessage, IngestWorkerRequest } from "./ingest.worker";
+import type { FileMapping } from "./fileMapping";
+
+export type IngestJob = { result: Promise<IngestResult>; cancel: () => void };
+
+/** 优先在 Worker 里解析；不支持 Worker 的环境退回主线程（仍可取消，但只在文件之间生效） */
+export function startIngest(files: File[], mapping: FileMapping, onProgress: (p: IngestProgress) => void): IngestJob {
+  if (typeof Worker === "undefined") {
+    let cancelled = false;
+    return { result: runIngestPipeline(files, mapping, onProgress, () => cancelled), cancel: () => (cancelled = true) };
+  }
+
+  const worker = new Worker(new URL("./ingest.worker.ts", import.meta.url), { type: "module" });
+  let reject: (err: Error) => void = () => {};
+  const result = new Promise<IngestResult>((resolve, rej) => {
+    reject = rej;
+    worker.onmessage = (e: MessageEvent<IngestWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === "progress") onProgress({ progress: msg.progress, label: msg.label });
+      else {
+        worker.terminate();
+        if (msg.type === "done") resolve({ patches: msg.patches, report: msg.report });
+        else rej(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      rej(new Error(e.message || "解析 Worker 出错。"));
+    };
+  });
+  const req: IngestWorkerRequest = { files, mapping };
+  worker.postMessage(req);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      reject(new IngestCancelled());
+    },
+  };
+}
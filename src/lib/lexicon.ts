@@ -0,0 +1,200 @@
+import { distRows } from "./dists";
+import { totalVariation } from "./divergence";
+import type { IngestPatch } from "./ingest";
+import { type RawComment, type RawDanmaku, RAW_KEYS, aggregateComments, aggregateDanmaku } from "./raw";
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+
+// 浏览器端词典打标：按类别配置关键词 / 正则 / 优先级，对原始弹幕与评论重新打 emo、func 标签，
+// 再用与导入相同的聚合逻辑（raw.ts）生成分布表和分钟曲线，与已上传的表做对比。
+
+export type LexiconDimension = "emo" | "func";
+
+export type LexiconCategory = {
+  label: string;
+  /** 以空格、逗号或顿号分隔；不区分大小写的子串匹配 */
+  keywords: string;
+  /** 可选正则（不区分大小写） */
+  pattern: string;
+  /** 多个类别同时命中时取优先级高的；相同时取列表中靠前的 */
+  priority: number;
+};
+
+export type Lexicon = Record<LexiconDimension, LexiconCategory[]>;
+
+/** 没有任何类别命中时的标签 */
+export const LEXICON_FALLBACK = "other";
+
+export const LEXICON_DIMENSIONS: LexiconDimension[] = ["emo", "func"];
+
+export const DEFAULT_LEXICON: Lexicon = {
+  emo: [
+    { label: "touching", keywords: "泪目 哭了 破防 感动 心疼 眼泪 呜呜 意难平", pattern: "", priority: 3 },
+    { label: "neg", keywords: "难看 烂 垃圾 崩了 失望 恶心 无语 退钱 拖沓", pattern: "", priority: 3 },
+    { label: "self_mock", keywords: "我也是 穷鬼 韭菜 打工人 我不配", pattern: "^我.{0,6}(废物|菜)", priority: 2 },
+    { label: "praise", keywords: "好看 帅 神作 牛 绝了 燃 精彩 良心 建模", pattern: "yyds|封神", priority: 2 },
+    { label: "laugh", keywords: "哈哈 笑死 乐 草 绷不住 蚌埠住", pattern: "2333+|h{3,}", priority: 1 },
+  ],
+  func: [
+    { label: "interaction", keywords: "打卡 来了 前排 签到 报道 第一", pattern: "^\\d+刷$", priority: 3 },
+    { label: "meme", keywords: "道友 韩跑跑 韩老魔 名场面 经典", pattern: "", priority: 2 },
+    { label: "plot", keywords: "剧情 原著 小说 伏笔 后面 下集 结局", pattern: "", priority: 2 },
+    { label: "character", keywords: "韩立 南宫婉 厉飞雨 墨大夫 紫灵", pattern: "", priority: 1 },
+    { label: "production", keywords: "画面 建模 特效 配乐 bgm 作画 配音", pattern: "", priority: 1 },
+  ],
+};
+
+type CompiledCategory = { label: string; priority: number; re: RegExp | null };
+
+export type CompiledLexicon = { emo: CompiledCategory[]; func: CompiledCategory[]; errors: string[] };
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function splitKeywords(s: string) {
+  return s
+    .split(/[\s,，、;；]+/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+}
+
+export function compileLexicon(lex: Lexicon): CompiledLexicon {
+  const errors: string[] = [];
+  const compileDim = (dim: LexiconDimension) =>
+    (lex[dim] ?? [])
+      .map((c, i) => {
+        const parts = splitKeywords(c.keywords).map(escapeRegExp);
+        if (c.pattern.trim()) {
+          try {
+            new RegExp(c.pattern, "i");
+            parts.push(`(?:${c.pattern})`);
+          } catch (err: any) {
+            errors.push(`${dim} · ${c.label || `类别 ${i + 1}`} 的正则「${c.pattern}」无效：${err?.message ?? "正则语法错误"}`);
+          }
+        }
+        return { label: c.label.trim(), priority: safeNumber(c.priority), order: i, re: parts.length ? new RegExp(parts.join("|"), "i") : null };
+      })
+      .filter((c) => c.label)
+      // 稳定排序：优先级降序，同级保持列表顺序
+      .sort((a, b) => b.priority - a.priority || a.order - b.order)
+      .map(({ label, priority, re }) => ({ label, priority, re }));
+  return { emo: compileDim("emo"), func: compileDim("func"), errors };
+}
+
+export type LabelHit = { label: string; /** 命中的关键词或正则片段；未命中为空 */ hit: string };
+
+export function labelText(text: string, cats: CompiledCategory[]): LabelHit {
+  const s = text.normalize("NFKC");
+  for (const c of cats) {
+    const m = c.re ? s.match(c.re) : null;
+    if (m) return { label: c.label, hit: m[0] };
+  }
+  return { label: LEXICON_FALLBACK, hit: "" };
+}
+
+/** 可由词典重新生成的表（模型极性、刷屏、词频等与词典无关，不在此列） */
+export const RELABEL_TABLE_KEYS = [
+  TABLE_KEYS.DANMU_EMO,
+  TABLE_KEYS.DANMU_FUNC,
+  TABLE_KEYS.DANMU_MIN_EMO,
+  TABLE_KEYS.DANMU_MIN_FUNC,
+  TABLE_KEYS.COM_ROOT_EMO,
+  TABLE_KEYS.COM_REPLY_EMO,
+  TABLE_KEYS.COM_ALL_FUNC,
+  TABLE_KEYS.COM_ROOT_FUNC,
+  TABLE_KEYS.COM_REPLY_FUNC,
+];
+
+const CURVE_KEYS = new Set<string>([TABLE_KEYS.DANMU_MIN_EMO, TABLE_KEYS.DANMU_MIN_FUNC]);
+
+export type RelabeledItem = {
+  source: "danmaku" | "comment";
+  time?: number;
+  content: string;
+  before: { emo?: string; func?: string };
+  emo: LabelHit;
+  func: LabelHit;
+};
+
+export type RelabelResult = {
+  ep: string;
+  items: RelabeledItem[];
+  /** 重新生成的表，只含 RELABEL_TABLE_KEYS 中有数据的 */
+  tables: Record<string, any[]>;
+  changed: Record<LexiconDimension, number>;
+};
+
+export function relabelEpisode(ep: string, tables: TableMap | undefined, compiled: CompiledLexicon): RelabelResult | null {
+  const danmaku = (tables?.[RAW_KEYS.DANMAKU] ?? []) as RawDanmaku[];
+  const comments = (tables?.[RAW_KEYS.COMMENTS] ?? []) as RawComment[];
+  if (!danmaku.length && !comments.length) return null;
+
+  const items: RelabeledItem[] = [];
+  const changed = { emo: 0, func: 0 };
+  const relabel = <T extends { content: string; emo?: string; func?: string }>(list: T[], source: RelabeledItem["source"], time: (x: T) => number | undefined) =>
+    list.map((x) => {
+      const emo = labelText(x.content, compiled.emo);
+      const func = labelText(x.content, compiled.func);
+      if (emo.label !== x.emo) changed.emo++;
+      if (func.label !== x.func) changed.func++;
+      items.push({ source, time: time(x), content: x.content, before: { emo: x.emo, func: x.func }, emo, func });
+      return { ...x, emo: emo.label, func: func.label };
+    });
+
+  const out: Record<string, any[]> = {};
+  if (danmaku.length) Object.assign(out, aggregateDanmaku(relabel(danmaku, "danmaku", (d) => d.time)).tables);
+  if (comments.length) Object.assign(out, aggregateComments(relabel(comments, "comment", () => undefined)).tables);
+  const regenerated = Object.fromEntries(RELABEL_TABLE_KEYS.filter((k) => out[k]?.length).map((k) => [k, out[k]]));
+  return { ep, items, tables: regenerated, changed };
+}
+
+export type CategoryShift = { label: string; before: number; after: number; delta: number };
+
+export type TableDiff = {
+  key: string;
+  /** 上传表里是否有这张表 */
+  hasBefore: boolean;
+  /** 占比的总变差距离；曲线表按各列总条数的构成计算 */
+  tvd: number;
+  shifts: CategoryShift[];
+};
+
+/** 分布表按 emo/func 列，曲线表把每列（除 minute）的总条数当作类别 */
+function shares(key: string, rows: any[] | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  if (CURVE_KEYS.has(key)) {
+    for (const r of rows ?? []) {
+      for (const [k, v] of Object.entries(r)) if (k !== "minute") counts.set(k, (counts.get(k) ?? 0) + safeNumber(v));
+    }
+  } else {
+    const family = key.includes("_func_") ? "func" : "emo";
+    const items = distRows(rows, family);
+    const hasCnt = items.some((r) => r.cnt > 0);
+    for (const r of items) counts.set(r.label, (counts.get(r.label) ?? 0) + (hasCnt ? r.cnt : r.ratio));
+  }
+  const total = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+  const out = new Map<string, number>();
+  if (total > 0) counts.forEach((v, k) => out.set(k, v / total));
+  return out;
+}
+
+export function diffTables(before: TableMap | undefined, after: Record<string, any[]>): TableDiff[] {
+  return Object.keys(after).map((key) => {
+    const a = shares(key, before?.[key]);
+    const b = shares(key, after[key]);
+    const labels = Array.from(new Set([...a.keys(), ...b.keys()]));
+    const shifts = labels
+      .map((label) => ({ label, before: a.get(label) ?? 0, after: b.get(label) ?? 0, delta: (b.get(label) ?? 0) - (a.get(label) ?? 0) }))
+      .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+    return {
+      key,
+      hasBefore: a.size > 0,
+      tvd: a.size ? totalVariation(shifts.map((s) => s.before), shifts.map((s) => s.after)) : 1,
+      shifts,
+    };
+  });
+}
+
+/** 写回看板：与导入走同一套 patch */
+export function relabelPatches(results: RelabelResult[]): IngestPatch[] {
+  return results.flatMap((r) => Object.entries(r.tables).map(([key, rows]) => ({ kind: "table" as const, ep: r.ep, key, rows })));
+}
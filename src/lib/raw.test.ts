@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { aggregateComments, parseCommentsJson } from "./raw";
+
+const reply = (rpid: number, parent: number, message: string, replies: any[] | null = null) => ({ rpid, parent, root: parent, content: { message }, replies });
+
+describe("parseCommentsJson", () => {
+  it("不把 API 信封 {code, message, data} 当成评论", () => {
+    const page = (replies: any[]) => ({ code: 0, message: "0", ttl: 1, data: { replies } });
+    const text = JSON.stringify([page([reply(1, 0, "韩立yyds", [reply(3, 1, "+1")])]), page([reply(2, 0, "厉飞雨")])]);
+
+    const comments = parseCommentsJson(text);
+    expect(comments.map((c) => c.content).sort()).toEqual(["+1", "厉飞雨", "韩立yyds"]);
+    expect(aggregateComments(comments).basic).toEqual({ root_cnt: 2, reply_cnt: 1 });
+  });
+
+  it("解析扁平的带标签评论导出（字符串 content + 标签列）", () => {
+    const text = JSON.stringify([
+      { id: 1, parent: 0, content: "韩立yyds", emo: "touching" },
+      { id: 2, parent: 0, content: "南宫婉好美", emo: "like" },
+      { id: 3, parent: 1, content: "+1", emo: "touching" },
+    ]);
+
+    const comments = parseCommentsJson(text);
+    expect(comments.map((c) => c.emo)).toEqual(["touching", "like", "touching"]);
+    expect(aggregateComments(comments).basic).toEqual({ root_cnt: 2, reply_cnt: 1 });
+  });
+});
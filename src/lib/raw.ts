@@ -0,0 +1,238 @@
+import { TABLE_KEYS } from "./tables";
+
+// 原始数据（B 站弹幕 XML / 评论 JSON、CSV）在浏览器里直接聚合成看板用的表，
+// 输出与 Python pipeline 同名同列，后续所有图表不区分来源。
+// 原始记录本身也以 raw_danmaku / raw_comments 表保存，供逐条下钻与重新打标使用。
+// 注意：会在 Worker 中运行，不能使用 DOMParser。
+
+export const RAW_KEYS = {
+  DANMAKU: "raw_danmaku",
+  COMMENTS: "raw_comments",
+} as const;
+
+export const RAW_KEY_LABEL: Record<string, string> = {
+  [RAW_KEYS.DANMAKU]: "原始弹幕（XML / CSV）",
+  [RAW_KEYS.COMMENTS]: "原始评论（JSON / CSV）",
+};
+
+export const isRawKey = (key: string) => key === RAW_KEYS.DANMAKU || key === RAW_KEYS.COMMENTS;
+
+export type RawDanmaku = { time: number; content: string; emo?: string; func?: string; model_emo?: string };
+
+export type RawComment = { id: string; parent: string; content: string; emo?: string; func?: string; model_emo?: string };
+
+/** 没有情绪/功能标签时，minute 曲线只有这一列（每分钟弹幕条数） */
+export const CURVE_TOTAL_KEY = "total";
+
+/** 2 秒窗内同一句出现次数达到该值才算刷屏 */
+export const BURST_MIN_CNT = 3;
+const BURST_BIN_SEC = 2;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+const pick = (r: any, names: string[]) => names.map((n) => r?.[n]).find((v) => v != null && v !== "");
+
+const label = (v: unknown) => (v == null || v === "" ? undefined : String(v));
+
+/** <d p="出现时间(秒),模式,字号,颜色,发送时间,弹幕池,用户hash,dmid">内容</d> */
+export function parseDanmakuXml(text: string): RawDanmaku[] {
+  const out: RawDanmaku[] = [];
+  const re = /<d\s[^>]*?p="([^"]*)"[^>]*>([\s\S]*?)<\/d>/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const time = Number(m[1].split(",")[0]);
+    if (!Number.isFinite(time)) continue;
+    out.push({ time, content: decodeXml(m[2]) });
+  }
+  return out;
+}
+
+/** CSV 弹幕：时间列 time/stime（秒）或 progress（毫秒），内容列 content/text/msg；emo/func 列可选 */
+export function danmakuFromRows(rows: any[]): RawDanmaku[] {
+  const out: RawDanmaku[] = [];
+  for (const r of rows) {
+    const sec = pick(r, ["time", "stime", "second", "sec"]);
+    const ms = pick(r, ["progress", "time_ms"]);
+    const time = sec != null ? Number(sec) : ms != null ? Number(ms) / 1000 : NaN;
+    if (!Number.isFinite(time)) continue;
+    out.push({
+      time,
+      content: String(pick(r, ["content", "text", "msg", "danmaku"]) ?? ""),
+      emo: label(pick(r, ["emo", "emotion"])),
+      func: label(r?.func),
+      model_emo: label(r?.model_emo),
+    });
+  }
+  return out;
+}
+
+/** textKeys：CSV 行可以用 message 列当正文；JSON 里顶层 message 是 API 信封的状态文本，不能当正文 */
+function commentFromObject(o: any, textKeys = ["content", "message", "text"]): RawComment {
+  const content = typeof o?.content === "object" ? o.content?.message : pick(o, textKeys);
+  return {
+    id: String(pick(o, ["rpid", "rpid_str", "id"]) ?? ""),
+    parent: String(pick(o, ["parent", "parent_id", "parent_str"]) ?? "0"),
+    content: String(content ?? ""),
+    emo: label(pick(o, ["emo", "emotion"])),
+    func: label(o?.func),
+    model_emo: label(o?.model_emo),
+  };
+}
+
+/** 兼容：reply 数组 / {data:{replies}} / {replies} / 多页数组；嵌套的 replies 会被展开 */
+export function parseCommentsJson(text: string): RawComment[] {
+  const root = JSON.parse(text);
+  const out: RawComment[] = [];
+  const seen = new Set<string>();
+  const visit = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+    const list = node.data?.replies ?? node.replies;
+    // 认 rpid、content.message，或扁平导出里字符串的 content / text；{code, message, data} 这样的 API 信封本身不是评论
+    const isEnvelope = node.code != null || node.data != null;
+    const isComment =
+      node.rpid != null ||
+      (node.content != null && typeof node.content === "object" && node.content.message != null) ||
+      (!isEnvelope && (typeof node.content === "string" || typeof node.text === "string"));
+    if (isComment) {
+      const c = commentFromObject(node, ["content", "text"]);
+      const key = c.id || `${out.length}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        out.push(c);
+      }
+    }
+    if (node.data?.top_replies) visit(node.data.top_replies);
+    if (Array.isArray(list)) visit(list);
+  };
+  visit(root);
+  return out;
+}
+
+export function commentsFromRows(rows: any[]): RawComment[] {
+  return rows.map((r) => commentFromObject(r));
+}
+
+const isRoot = (c: RawComment) => !c.parent || c.parent === "0";
+
+/** 与 pipeline 的去重口径保持宽松一致：去首尾空白、全角转半角、压缩重复字符 */
+export function normalizeContent(s: string) {
+  return s
+    .normalize("NFKC")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(/(.)\1{3,}/gu, "$1$1$1");
+}
+
+function distTable(labels: Array<string | undefined>, labelCol: string) {
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const l of labels) {
+    if (!l) continue;
+    counts.set(l, (counts.get(l) ?? 0) + 1);
+    total++;
+  }
+  if (!total) return null;
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([k, cnt]) => ({ [labelCol]: k, cnt, ratio: cnt / total }));
+}
+
+function minuteCurve(items: RawDanmaku[], field: "emo" | "func") {
+  const hasLabel = items.some((d) => d[field]);
+  const byMinute = new Map<number, Record<string, number>>();
+  const cols = new Set<string>();
+  for (const d of items) {
+    const minute = Math.floor(d.time / 60);
+    const row = byMinute.get(minute) ?? {};
+    const col = hasLabel ? d[field] ?? "other" : CURVE_TOTAL_KEY;
+    row[col] = (row[col] ?? 0) + 1;
+    cols.add(col);
+    byMinute.set(minute, row);
+  }
+  const last = Math.max(-1, ...byMinute.keys());
+  const out: any[] = [];
+  // 补齐空分钟，避免曲线跳过静默段
+  for (let minute = 0; minute <= last; minute++) {
+    const row = byMinute.get(minute) ?? {};
+    const r: Record<string, number> = { minute };
+    for (const c of cols) r[c] = row[c] ?? 0;
+    out.push(r);
+  }
+  return out;
+}
+
+function burstTable(items: RawDanmaku[]) {
+  const bins = new Map<string, { sec_bin: number; norm_content: string; cnt: number }>();
+  for (const d of items) {
+    const norm = normalizeContent(d.content);
+    if (!norm) continue;
+    const sec_bin = Math.floor(d.time / BURST_BIN_SEC) * BURST_BIN_SEC;
+    const key = `${sec_bin}\u0000${norm}`;
+    const hit = bins.get(key) ?? { sec_bin, norm_content: norm, cnt: 0 };
+    hit.cnt++;
+    bins.set(key, hit);
+  }
+  return Array.from(bins.values())
+    .filter((b) => b.cnt >= BURST_MIN_CNT)
+    .sort((a, b) => b.cnt - a.cnt || a.sec_bin - b.sec_bin);
+}
+
+export type RawAggregate = { tables: Record<string, any[]>; basic: Record<string, number> };
+
+export function aggregateDanmaku(items: RawDanmaku[]): RawAggregate {
+  const tables: Record<string, any[]> = {};
+  const lastTime = items.reduce((mx, d) => Math.max(mx, d.time), -Infinity);
+  const minutes = items.length ? Math.floor(lastTime / 60) + 1 : 0;
+  tables[TABLE_KEYS.DANMU_MIN_EMO] = minuteCurve(items, "emo");
+  if (items.some((d) => d.func)) tables[TABLE_KEYS.DANMU_MIN_FUNC] = minuteCurve(items, "func");
+  tables[TABLE_KEYS.BURST_2S] = burstTable(items);
+  const emo = distTable(items.map((d) => d.emo), "emo");
+  if (emo) tables[TABLE_KEYS.DANMU_EMO] = emo;
+  const func = distTable(items.map((d) => d.func), "func");
+  if (func) tables[TABLE_KEYS.DANMU_FUNC] = func;
+  const model = distTable(items.map((d) => d.model_emo), "model_emo");
+  if (model) tables[TABLE_KEYS.DANMU_MODEL_EMO] = model;
+  return { tables, basic: { danmu_total: items.length, minute_avg_density: minutes ? items.length / minutes : 0 } };
+}
+
+export function aggregateComments(items: RawComment[]): RawAggregate {
+  const tables: Record<string, any[]> = {};
+  const roots = items.filter(isRoot);
+  const replies = items.filter((c) => !isRoot(c));
+  const add = (key: string, rows: any[] | null) => {
+    if (rows) tables[key] = rows;
+  };
+  add(TABLE_KEYS.COM_ROOT_EMO, distTable(roots.map((c) => c.emo), "emo"));
+  add(TABLE_KEYS.COM_REPLY_EMO, distTable(replies.map((c) => c.emo), "emo"));
+  add(TABLE_KEYS.COM_ALL_FUNC, distTable(items.map((c) => c.func), "func"));
+  add(TABLE_KEYS.COM_ROOT_FUNC, distTable(roots.map((c) => c.func), "func"));
+  add(TABLE_KEYS.COM_REPLY_FUNC, distTable(replies.map((c) => c.func), "func"));
+  add(TABLE_KEYS.COM_ROOT_MODEL_EMO, distTable(roots.map((c) => c.model_emo), "model_emo"));
+  add(TABLE_KEYS.COM_REPLY_MODEL_EMO, distTable(replies.map((c) => c.model_emo), "model_emo"));
+  return { tables, basic: { root_cnt: roots.length, reply_cnt: replies.length } };
+}
+
+/** csvRows 为 null 时按 XML（弹幕）/ JSON（评论）解析 text */
+export function parseAndAggregateRaw(key: string, text: string, csvRows: any[] | null): { items: Array<RawDanmaku | RawComment>; agg: RawAggregate } {
+  if (key === RAW_KEYS.DANMAKU) {
+    const items = csvRows ? danmakuFromRows(csvRows) : parseDanmakuXml(text);
+    return { items, agg: aggregateDanmaku(items) };
+  }
+  const items = csvRows ? commentsFromRows(csvRows) : parseCommentsJson(text);
+  return { items, agg: aggregateComments(items) };
+}
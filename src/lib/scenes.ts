@@ -0,0 +1,71 @@
+import { stableColorFromKey } from "./colors";
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+
+// 剧情段落标注：每集一张 episode_scenes 表（start/end 为 minute，含两端），
+// 既可随 zip 导入，也可在看板里编辑；与其它表一样存进会话。
+
+export type Scene = { start: number; end: number; label: string; tag: string };
+
+export const SCENE_TAGS = ["开篇", "日常", "高能", "战斗", "情感", "回忆", "结尾"];
+
+const SCENE_TAG_COLOR: Record<string, string> = {
+  开篇: "#0ea5e9",
+  日常: "#64748b",
+  高能: "#dc2626",
+  战斗: "#ea580c",
+  情感: "#7c3aed",
+  回忆: "#0891b2",
+  结尾: "#16a34a",
+};
+
+export function sceneColor(tag: string) {
+  return SCENE_TAG_COLOR[tag] ?? stableColorFromKey("scene_" + tag);
+}
+
+/** 保持原有顺序（编辑器里边输入边排序会让行跳动） */
+export function scenesFromRows(rows: any[] | undefined): Scene[] {
+  return (rows ?? [])
+    .map((r) => ({
+      start: safeNumber(r?.start ?? r?.start_minute ?? r?.start_min, NaN),
+      end: safeNumber(r?.end ?? r?.end_minute ?? r?.end_min, NaN),
+      label: String(r?.label ?? r?.scene ?? r?.name ?? ""),
+      tag: String(r?.tag ?? r?.type ?? r?.function ?? ""),
+    }))
+    .filter((s) => Number.isFinite(s.start) && Number.isFinite(s.end));
+}
+
+/** 用于绘图与报告：起止颠倒的纠正过来，按开始时间排序 */
+export function episodeScenes(tables: TableMap | undefined): Scene[] {
+  return scenesFromRows(tables?.[TABLE_KEYS.SCENES])
+    .map((s) => ({ start: Math.min(s.start, s.end), end: Math.max(s.start, s.end), label: s.label.trim(), tag: s.tag.trim() }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+export type SceneOverlap = { scene: Scene; /** 重叠的分钟数（含两端） */ minutes: number };
+
+export function overlappingScenes(scenes: Scene[], start: number, end: number): SceneOverlap[] {
+  return scenes
+    .map((scene) => ({ scene, minutes: Math.min(end, scene.end) - Math.max(start, scene.start) + 1 }))
+    .filter((o) => o.minutes > 0)
+    .sort((a, b) => b.minutes - a.minutes);
+}
+
+export function fmtScene(s: Scene) {
+  return `「${s.label || "未命名"}」${s.tag ? `（${s.tag}）` : ""}${s.start}–${s.end}m`;
+}
+
+export function fmtOverlaps(list: SceneOverlap[]) {
+  return list.map((o) => fmtScene(o.scene)).join("、") || "无标注段落";
+}
+
+/** 曲线 X 轴是类目轴：把段落起止吸附到数据里实际存在的 minute 上，完全落在数据外的段落不画 */
+export function snapScenesToMinutes(scenes: Scene[], minutes: number[]) {
+  if (!minutes.length) return [];
+  const sorted = minutes.slice().sort((a, b) => a - b);
+  return scenes.flatMap((scene) => {
+    const x1 = sorted.find((m) => m >= scene.start);
+    const x2 = [...sorted].reverse().find((m) => m <= scene.end);
+    return x1 != null && x2 != null && x1 <= x2 ? [{ scene, x1, x2 }] : [];
+  });
+}
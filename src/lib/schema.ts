@@ -0,0 +1,276 @@
+import { RAW_KEY_LABEL } from "./raw";
+import { TABLE_KEYS } from "./tables";
+
+// ---------- 表结构声明 ----------
+// 每个可识别的表都在这里声明列、类型与取值范围；上传时据此给出逐文件的接收/拒收原因。
+type ColumnType = "number" | "string";
+
+type ColumnSpec = {
+  name: string;
+  type: ColumnType;
+  required?: boolean;
+  /** 文件里可接受的同义列名（与看板读取时的回退字段保持一致） */
+  aliases?: string[];
+  min?: number;
+  max?: number;
+};
+
+export type TableSchema = {
+  label: string;
+  columns: ColumnSpec[];
+  /** 该列之和应≈1（分布表的 ratio） */
+  sumToOne?: string;
+  /** 声明列之外的列都应为数值（minute 曲线的各维度列） */
+  extraNumeric?: boolean;
+};
+
+const RATIO_SUM_TOLERANCE = 0.02;
+
+function distSchema(label: string, labelCol: string, aliases: string[]): TableSchema {
+  return {
+    label,
+    columns: [
+      { name: labelCol, type: "string", required: true, aliases },
+      { name: "ratio", type: "number", required: true, min: 0, max: 1 },
+      { name: "cnt", type: "number", min: 0 },
+    ],
+    sumToOne: "ratio",
+  };
+}
+
+export const TABLE_SCHEMAS: Record<string, TableSchema> = {
+  episode_stats: {
+    label: "分集统计",
+    columns: [
+      { name: "episode_id", type: "string", required: true, aliases: ["episode"] },
+      { name: "danmu_total", type: "number", min: 0 },
+      { name: "minute_avg_density", type: "number", min: 0 },
+      { name: "root_cnt", type: "number", min: 0 },
+      { name: "reply_cnt", type: "number", min: 0 },
+    ],
+  },
+  danmaku_basic_stats: {
+    label: "弹幕基础统计（JSON）",
+    columns: [
+      { name: "danmu_total", type: "number", min: 0 },
+      { name: "minute_avg_density", type: "number", min: 0 },
+    ],
+  },
+  [TABLE_KEYS.DANMU_EMO]: distSchema("弹幕情绪分布", "emo", ["label"]),
+  [TABLE_KEYS.COM_ROOT_EMO]: distSchema("根评论情绪分布", "emo", ["label"]),
+  [TABLE_KEYS.COM_REPLY_EMO]: distSchema("回复情绪分布", "emo", ["label"]),
+  [TABLE_KEYS.DANMU_FUNC]: distSchema("弹幕功能分布", "func", ["label"]),
+  [TABLE_KEYS.COM_ALL_FUNC]: distSchema("评论功能分布（总体）", "func", ["label"]),
+  [TABLE_KEYS.COM_ROOT_FUNC]: distSchema("根评论功能分布", "func", ["label"]),
+  [TABLE_KEYS.COM_REPLY_FUNC]: distSchema("回复功能分布", "func", ["label"]),
+  [TABLE_KEYS.DANMU_MODEL_EMO]: distSchema("弹幕模型极性", "model_emo", ["emo", "label"]),
+  [TABLE_KEYS.COM_ROOT_MODEL_EMO]: distSchema("根评论模型极性", "model_emo", ["emo", "label"]),
+  [TABLE_KEYS.COM_REPLY_MODEL_EMO]: distSchema("回复模型极性", "model_emo", ["emo", "label"]),
+  [TABLE_KEYS.MODEL_USAGE]: {
+    label: "模型调用覆盖",
+    columns: [
+      { name: "dataset", type: "string", required: true },
+      { name: "ratio", type: "number", required: true, min: 0, max: 1 },
+    ],
+  },
+  [TABLE_KEYS.DANMU_MIN_EMO]: {
+    label: "弹幕 minute 情绪曲线",
+    columns: [{ name: "minute", type: "number", required: true, min: 0 }],
+    extraNumeric: true,
+  },
+  [TABLE_KEYS.DANMU_MIN_FUNC]: {
+    label: "弹幕 minute 功能曲线",
+    columns: [{ name: "minute", type: "number", required: true, min: 0 }],
+    extraNumeric: true,
+  },
+  [TABLE_KEYS.BURST_2S]: {
+    label: "2秒窗刷屏句",
+    columns: [
+      { name: "sec_bin", type: "number", required: true, min: 0 },
+      { name: "norm_content", type: "string", required: true },
+      { name: "cnt", type: "number", required: true, min: 0 },
+    ],
+  },
+  [TABLE_KEYS.TOP_TERMS_DANMU]: {
+    label: "弹幕高频词",
+    columns: [
+      { name: "term", type: "string", required: true },
+      { name: "cnt", type: "number", required: true, min: 0 },
+    ],
+  },
+  [TABLE_KEYS.TOP_TERMS_COMMENT]: {
+    label: "评论高频词",
+    columns: [
+      { name: "term", type: "string", required: true },
+      { name: "cnt", type: "number", required: true, min: 0 },
+    ],
+  },
+  [TABLE_KEYS.CLEANING_REPORT]: {
+    label: "清洗报告",
+    columns: [
+      { name: "step", type: "string", required: true, aliases: ["stage", "name"] },
+      { name: "dataset", type: "string", aliases: ["source"] },
+      { name: "before", type: "number", min: 0, aliases: ["rows_before", "n_before", "in"] },
+      { name: "after", type: "number", min: 0, aliases: ["rows_after", "n_after", "out"] },
+      { name: "dropped", type: "number", min: 0, aliases: ["removed", "n_dropped"] },
+    ],
+  },
+  [TABLE_KEYS.SCENES]: {
+    label: "剧情段落标注",
+    columns: [
+      { name: "start", type: "number", required: true, min: 0, aliases: ["start_minute", "start_min"] },
+      { name: "end", type: "number", required: true, min: 0, aliases: ["end_minute", "end_min"] },
+      { name: "label", type: "string", required: true, aliases: ["scene", "name"] },
+      { name: "tag", type: "string", aliases: ["type", "function"] },
+    ],
+  },
+  [TABLE_KEYS.ANCHORS]: {
+    label: "对齐锚点",
+    columns: [
+      { name: "anchor", type: "string", required: true },
+      { name: "minute", type: "number", required: true, min: 0 },
+    ],
+  },
+};
+
+/** 表的中文名；原始数据（raw_*）不做列校验，但同样需要在映射/报告里显示 */
+export function tableLabel(key: string) {
+  return TABLE_SCHEMAS[key]?.label ?? RAW_KEY_LABEL[key] ?? key;
+}
+
+// ---------- 校验 ----------
+export type ValidationResult = { errors: string[]; warnings: string[] };
+
+const IGNORED_EXTRA_COLUMNS = new Set(["episode_id", "episode"]);
+
+function isBlank(v: unknown) {
+  return v == null || (typeof v === "string" && v.trim() === "");
+}
+
+function isType(v: unknown, type: ColumnType) {
+  if (type === "number") return typeof v === "number" && Number.isFinite(v);
+  // dynamicTyping 会把纯数字标签解析成 number，字符串列对此宽容
+  return typeof v === "string" || typeof v === "number" || typeof v === "boolean";
+}
+
+function rowRef(idx: number[]) {
+  const shown = idx.slice(0, 3).map((i) => `第${i + 2}行`).join("、");
+  return idx.length > 3 ? `${shown} 等 ${idx.length} 行` : shown;
+}
+
+/** 按声明的 schema 校验一张表；errors 非空表示应拒收。rows 为 Papa.parse(header) 结果。 */
+export function validateTable(key: string, rows: any[], fields?: string[]): ValidationResult {
+  const schema = TABLE_SCHEMAS[key];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!schema) return { errors, warnings };
+
+  const cols = fields ?? (rows.length ? Object.keys(rows[0] ?? {}) : []);
+  if (!rows.length) {
+    warnings.push("表为空（只有表头或无内容）");
+    return { errors, warnings };
+  }
+
+  const resolved: Record<string, string> = {};
+  for (const c of schema.columns) {
+    const hit = [c.name, ...(c.aliases ?? [])].find((n) => cols.includes(n));
+    if (hit) {
+      resolved[c.name] = hit;
+      continue;
+    }
+    if (c.required) {
+      const alias = c.aliases?.length ? `（可用别名：${c.aliases.join(" / ")}）` : "";
+      errors.push(`缺少必需列 ${c.name}${alias}；实际列：${cols.join(", ") || "—"}`);
+    }
+  }
+  if (errors.length) return { errors, warnings };
+
+  for (const c of schema.columns) {
+    const col = resolved[c.name];
+    if (!col) continue;
+    const blank: number[] = [];
+    const badType: number[] = [];
+    const outOfRange: number[] = [];
+    rows.forEach((r, i) => {
+      const v = r?.[col];
+      if (isBlank(v)) {
+        blank.push(i);
+        return;
+      }
+      if (!isType(v, c.type)) {
+        badType.push(i);
+        return;
+      }
+      if (c.type === "number" && ((c.min != null && v < c.min) || (c.max != null && v > c.max))) outOfRange.push(i);
+    });
+    const nonBlank = rows.length - blank.length;
+    if (c.required && nonBlank > 0 && badType.length === nonBlank) {
+      errors.push(`列 ${col} 应为${c.type === "number" ? "数值" : "文本"}，但所有行都不是`);
+      continue;
+    }
+    if (c.required && blank.length === rows.length) {
+      errors.push(`必需列 ${col} 全部为空`);
+      continue;
+    }
+    if (blank.length && c.required) warnings.push(`列 ${col} 有空值：${rowRef(blank)}`);
+    if (badType.length) warnings.push(`列 ${col} 应为${c.type === "number" ? "数值" : "文本"}：${rowRef(badType)}`);
+    if (outOfRange.length) {
+      const range = `[${c.min ?? "-∞"}, ${c.max ?? "+∞"}]`;
+      warnings.push(`列 ${col} 超出范围 ${range}：${rowRef(outOfRange)}`);
+    }
+  }
+
+  if (schema.extraNumeric) {
+    const declared = new Set(schema.columns.flatMap((c) => [c.name, ...(c.aliases ?? [])]));
+    for (const col of cols) {
+      if (declared.has(col) || IGNORED_EXTRA_COLUMNS.has(col)) continue;
+      const bad = rows.map((r, i) => (isBlank(r?.[col]) || isType(r[col], "number") ? -1 : i)).filter((i) => i >= 0);
+      if (bad.length) warnings.push(`曲线列 ${col} 应为数值：${rowRef(bad)}`);
+    }
+  }
+
+  if (schema.sumToOne && resolved[schema.sumToOne]) {
+    const col = resolved[schema.sumToOne];
+    const sum = rows.reduce((s, r) => s + (isType(r?.[col], "number") ? (r[col] as number) : 0), 0);
+    if (Math.abs(sum - 1) > RATIO_SUM_TOLERANCE) warnings.push(`${col} 合计为 ${sum.toFixed(3)}（应≈1，容差 ±${RATIO_SUM_TOLERANCE}）`);
+  }
+
+  return { errors, warnings };
+}
+
+/** JSON 统计文件：顶层需为对象，其余按列声明做宽松检查。 */
+export function validateJsonObject(key: string, obj: unknown): ValidationResult {
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return { errors: ["JSON 顶层应为对象"], warnings: [] };
+  const schema = TABLE_SCHEMAS[key];
+  const warnings: string[] = [];
+  for (const c of schema?.columns ?? []) {
+    const v = (obj as any)[c.name];
+    if (v == null) continue;
+    if (!isType(v, c.type)) warnings.push(`字段 ${c.name} 应为${c.type === "number" ? "数值" : "文本"}`);
+    else if (c.type === "number" && c.min != null && v < c.min) warnings.push(`字段 ${c.name} 小于 ${c.min}`);
+  }
+  return { errors: [], warnings };
+}
+
+// ---------- 上传报告 ----------
+export type IngestStatus = "accepted" | "warning" | "rejected" | "skipped";
+
+export type IngestReportEntry = {
+  name: string;
+  /** 来自哪个 zip（直接上传的文件为空） */
+  source?: string;
+  status: IngestStatus;
+  key?: string;
+  ep?: string;
+  season?: string;
+  series?: string;
+  rows?: number;
+  reasons: string[];
+};
+
+export const INGEST_STATUS_LABEL: Record<IngestStatus, string> = {
+  accepted: "已接收",
+  warning: "已接收（有警告）",
+  rejected: "已拒收",
+  skipped: "未识别，已跳过",
+};
@@ -0,0 +1,106 @@
+import { TABLE_KEYS } from "./tables";
+import type { TableMap } from "./types";
+import { EMO_ORDER } from "./colors";
+import { distRows } from "./dists";
+import { episodeStatsId } from "./episodes";
+
+// 全季逐集指标：episode_stats 的所有数值列（缺失时回退到 danmaku_basic_stats），
+// 加上派生指标（回复/根评比、弹幕各情绪占比），用于趋势图、排名表与离群标记。
+
+export type SeasonMetric = { key: string; label: string; derived: boolean; percent: boolean };
+
+export type SeasonRow = { ep: string } & Record<string, number | string>;
+
+const ID_COLUMNS = new Set(["episode_id", "episode_key", "episode", "ep"]);
+
+const BASE_LABEL: Record<string, string> = {
+  danmu_total: "弹幕总数",
+  minute_avg_density: "每分钟弹幕密度",
+  root_cnt: "根评论数",
+  reply_cnt: "回复数",
+};
+
+export const REPLY_ROOT_KEY = "reply_root_ratio";
+const EMO_SHARE_PREFIX = "emo_share_";
+
+function numericFields(obj: any, out: Record<string, number>) {
+  for (const [k, v] of Object.entries(obj ?? {})) {
+    if (ID_COLUMNS.has(k) || k in out || v === "" || v == null || typeof v === "object" || typeof v === "boolean") continue;
+    const n = Number(v);
+    if (Number.isFinite(n)) out[k] = n;
+  }
+}
+
+function emoShares(rows: any[] | undefined) {
+  const items = distRows(rows, "emo");
+  const useCnt = items.some((r) => r.cnt > 0);
+  const total = items.reduce((s, r) => s + (useCnt ? r.cnt : r.ratio), 0);
+  const out: Record<string, number> = {};
+  if (!(total > 0)) return out;
+  for (const r of items) out[r.label] = (out[r.label] ?? 0) + (useCnt ? r.cnt : r.ratio) / total;
+  return out;
+}
+
+export function seasonRows(episodes: string[], episodeStats: any[] | undefined, basicStatsByEp: Record<string, any>, tablesByEp: Record<string, TableMap>): SeasonRow[] {
+  return episodes.map((ep) => {
+    const values: Record<string, number> = {};
+    numericFields(episodeStats?.find((r) => episodeStatsId(r) === ep), values);
+    numericFields(basicStatsByEp[ep], values);
+    const root = values.root_cnt;
+    const reply = values.reply_cnt;
+    if (root > 0 && Number.isFinite(reply)) values[REPLY_ROOT_KEY] = reply / root;
+    const shares = emoShares(tablesByEp[ep]?.[TABLE_KEYS.DANMU_EMO]);
+    for (const [k, v] of Object.entries(shares)) values[EMO_SHARE_PREFIX + k] = v;
+    return { ep, ...values };
+  });
+}
+
+export function seasonMetrics(rows: SeasonRow[]): SeasonMetric[] {
+  const keys = new Set<string>();
+  for (const r of rows) Object.keys(r).forEach((k) => k !== "ep" && keys.add(k));
+  const base = Array.from(keys).filter((k) => k !== REPLY_ROOT_KEY && !k.startsWith(EMO_SHARE_PREFIX));
+  const known = Object.keys(BASE_LABEL);
+  base.sort((a, b) => (known.includes(a) ? known.indexOf(a) : 99) - (known.includes(b) ? known.indexOf(b) : 99) || a.localeCompare(b));
+  const emoOrder = new Map<string, number>(EMO_ORDER.map((k, i) => [EMO_SHARE_PREFIX + k, i]));
+  const shares = Array.from(keys)
+    .filter((k) => k.startsWith(EMO_SHARE_PREFIX))
+    .sort((a, b) => (emoOrder.get(a) ?? 99) - (emoOrder.get(b) ?? 99) || a.localeCompare(b));
+  return [
+    ...base.map((k) => ({ key: k, label: BASE_LABEL[k] ?? k, derived: false, percent: false })),
+    ...(keys.has(REPLY_ROOT_KEY) ? [{ key: REPLY_ROOT_KEY, label: "回复/根评比", derived: true, percent: false }] : []),
+    ...shares.map((k) => ({ key: k, label: `弹幕 ${k.slice(EMO_SHARE_PREFIX.length)} 占比`, derived: true, percent: true })),
+  ];
+}
+
+export function metricValue(row: SeasonRow, key: string) {
+  const v = row[key];
+  return typeof v === "number" && Number.isFinite(v) ? v : NaN;
+}
+
+function median(values: number[]) {
+  const s = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/**
+ * 修正 z 分数（Iglewicz–Hoaglin）：0.6745·(x − 中位数) / MAD，常用阈值 3.5。
+ * 少于 4 集或 MAD 为 0 时不判离群。
+ */
+export function robustZ(rows: SeasonRow[], key: string): Map<string, number> {
+  const pts = rows.map((r) => ({ ep: r.ep, v: metricValue(r, key) })).filter((p) => Number.isFinite(p.v));
+  const out = new Map<string, number>();
+  if (pts.length < 4) return out;
+  const med = median(pts.map((p) => p.v));
+  const mad = median(pts.map((p) => Math.abs(p.v - med)));
+  if (!(mad > 0)) return out;
+  for (const p of pts) out.set(p.ep, (0.6745 * (p.v - med)) / mad);
+  return out;
+}
+
+export function fmtMetric(v: number, m: SeasonMetric | undefined) {
+  if (!Number.isFinite(v)) return "—";
+  if (m?.percent) return `${(v * 100).toFixed(1)}%`;
+  if (Number.isInteger(v)) return String(v);
+  return Math.abs(v) >= 100 ? v.toFixed(0) : v.toFixed(2);
+}
@@ -0,0 +1,140 @@
+import type { Store } from "./types";
+
+// IndexedDB 会话持久化：meta 与 data 分开存，列表页只读 meta，避免把整季表格都读进内存
+const DB_NAME = "fanren-bili-emo-dashboard";
+const DB_VERSION = 1;
+const META_STORE = "session_meta";
+const DATA_STORE = "session_data";
+const LAST_SESSION_KEY = "fanren.lastSessionId";
+
+export type SessionMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  episodeCount: number;
+  fileCount: number;
+};
+
+type SessionData = { id: string; store: Store };
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("当前浏览器不支持 IndexedDB，无法保存会话。"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("打开 IndexedDB 失败"));
+  });
+}
+
+function reqToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB 请求失败"));
+  });
+}
+
+async function withStores<T>(mode: IDBTransactionMode, fn: (meta: IDBObjectStore, data: IDBObjectStore) => Promise<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([META_STORE, DATA_STORE], mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error ?? new Error("IndexedDB 事务中止"));
+      tx.onerror = () => reject(tx.error ?? new Error("IndexedDB 事务失败"));
+    });
+    const out = await fn(tx.objectStore(META_STORE), tx.objectStore(DATA_STORE));
+    await done;
+    return out;
+  } finally {
+    db.close();
+  }
+}
+
+function newSessionId() {
+  return `s_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function metaFor(id: string, name: string, store: Store, createdAt: number): SessionMeta {
+  return {
+    id,
+    name,
+    createdAt,
+    updatedAt: Date.now(),
+    episodeCount: store.episodes.length,
+    fileCount: store.loadedFiles.length,
+  };
+}
+
+export async function listSessions(): Promise<SessionMeta[]> {
+  const rows = await withStores("readonly", (meta) => reqToPromise(meta.getAll() as IDBRequest<SessionMeta[]>));
+  return rows.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<{ meta: SessionMeta; store: Store } | null> {
+  return withStores("readonly", async (meta, data) => {
+    const m = (await reqToPromise(meta.get(id))) as SessionMeta | undefined;
+    const d = (await reqToPromise(data.get(id))) as SessionData | undefined;
+    if (!m || !d) return null;
+    return { meta: m, store: d.store };
+  });
+}
+
+/** 写入会话；id 为空时新建。返回写入后的 meta。 */
+export async function saveSession(id: string | null, name: string, store: Store): Promise<SessionMeta> {
+  return withStores("readwrite", async (meta, data) => {
+    const sid = id ?? newSessionId();
+    const prev = id ? ((await reqToPromise(meta.get(sid))) as SessionMeta | undefined) : undefined;
+    const m = metaFor(sid, name, store, prev?.createdAt ?? Date.now());
+    meta.put(m);
+    data.put({ id: sid, store } satisfies SessionData);
+    return m;
+  });
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  await withStores("readwrite", async (meta) => {
+    const m = (await reqToPromise(meta.get(id))) as SessionMeta | undefined;
+    if (!m) return;
+    meta.put({ ...m, name, updatedAt: Date.now() });
+  });
+}
+
+export async function duplicateSession(id: string, name: string): Promise<SessionMeta | null> {
+  const src = await loadSession(id);
+  if (!src) return null;
+  return saveSession(null, name, src.store);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStores("readwrite", async (meta, data) => {
+    meta.delete(id);
+    data.delete(id);
+  });
+  if (getLastSessionId() === id) setLastSessionId(null);
+}
+
+export function getLastSessionId(): string | null {
+  try {
+    return localStorage.getItem(LAST_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastSessionId(id: string | null) {
+  try {
+    if (id) localStorage.setItem(LAST_SESSION_KEY, id);
+    else localStorage.removeItem(LAST_SESSION_KEY);
+  } catch {
+    // localStorage 不可用（隐私模式等）时仅失去“自动恢复上次会话”
+  }
+}
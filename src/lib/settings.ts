@@ -0,0 +1,31 @@
+import { type Dispatch, type SetStateAction, useEffect, useState } from "react";
+
+// 看板设置（映射、阈值等）存 localStorage；数据本身走 IndexedDB 会话（见 sessions.ts）
+const SETTINGS_PREFIX = "fanren.settings.";
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(SETTINGS_PREFIX + key);
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(SETTINGS_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // 存储不可用时设置只在本次页面内生效
+  }
+}
+
+/** migrate：加载已保存的值后先过一遍（如补上新版本的默认项） */
+export function usePersistentState<T>(key: string, fallback: T, migrate?: (saved: T) => T): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => {
+    const saved = loadSetting(key, fallback);
+    return migrate ? migrate(saved) : saved;
+  });
+  useEffect(() => saveSetting(key, value), [key, value]);
+  return [value, setValue];
+}
@@ -0,0 +1,158 @@
+// ---------- 分布函数 ----------
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export function lnGamma(z: number): number {
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - lnGamma(1 - z);
+  z -= 1;
+  let x = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) x += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x);
+}
+
+/** 正则化上不完全伽马函数 Q(a, x)（级数 / Lentz 连分式，Numerical Recipes 6.2） */
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const lnPre = -x + a * Math.log(x) - lnGamma(a);
+  if (x < a + 1) {
+    let ap = a;
+    let del = 1 / a;
+    let sum = del;
+    for (let n = 0; n < 500; n++) {
+      ap += 1;
+      del *= x / ap;
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * 1e-14) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(lnPre));
+  }
+  const TINY = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-14) break;
+  }
+  return Math.min(1, Math.exp(lnPre) * h);
+}
+
+export function chiSquarePValue(chi2: number, df: number) {
+  if (!(df > 0) || !Number.isFinite(chi2)) return NaN;
+  return gammaQ(df / 2, chi2 / 2);
+}
+
+/** 标准正态分布函数（Abramowitz–Stegun 7.1.26 的 erf 近似，误差 < 1.5e-7） */
+export function normalCdf(z: number) {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + y) / 2 : (1 - y) / 2;
+}
+
+// ---------- 卡方同质性检验 ----------
+export type ChiSquareResult = {
+  chi2: number;
+  df: number;
+  p: number;
+  n: number;
+  cramersV: number;
+  /** 期望频数 < 5 的格子占比（Cochran 规则：> 20% 时结论需谨慎） */
+  lowExpectedShare: number;
+  expected: number[][];
+  /** 调整标准化残差 (O−E)/√(E·(1−r/n)·(1−c/n))，|r|>1.96 即 p<.05 */
+  residuals: number[][];
+  /** 参与检验的行/列下标（全零行列会被剔除） */
+  rowIdx: number[];
+  colIdx: number[];
+};
+
+export function chiSquareHomogeneity(table: number[][]): ChiSquareResult | null {
+  const rowSumsAll = table.map((r) => r.reduce((a, b) => a + b, 0));
+  const nCols = Math.max(0, ...table.map((r) => r.length));
+  const colSumsAll = Array.from({ length: nCols }, (_, j) => table.reduce((s, r) => s + (r[j] ?? 0), 0));
+  const rowIdx = rowSumsAll.map((v, i) => (v > 0 ? i : -1)).filter((i) => i >= 0);
+  const colIdx = colSumsAll.map((v, j) => (v > 0 ? j : -1)).filter((j) => j >= 0);
+  if (rowIdx.length < 2 || colIdx.length < 2) return null;
+
+  const obs = rowIdx.map((i) => colIdx.map((j) => table[i][j] ?? 0));
+  const rowSums = rowIdx.map((i) => rowSumsAll[i]);
+  const colSums = colIdx.map((j) => colSumsAll[j]);
+  const n = rowSums.reduce((a, b) => a + b, 0);
+
+  let chi2 = 0;
+  let lowCells = 0;
+  const expected = obs.map((row, i) => row.map((_, j) => (rowSums[i] * colSums[j]) / n));
+  const residuals = obs.map((row, i) =>
+    row.map((o, j) => {
+      const e = expected[i][j];
+      chi2 += ((o - e) * (o - e)) / e;
+      if (e < 5) lowCells++;
+      const denom = Math.sqrt(e * (1 - rowSums[i] / n) * (1 - colSums[j] / n));
+      return denom > 0 ? (o - e) / denom : 0;
+    })
+  );
+  const df = (rowIdx.length - 1) * (colIdx.length - 1);
+  const k = Math.min(rowIdx.length, colIdx.length) - 1;
+  return {
+    chi2,
+    df,
+    p: chiSquarePValue(chi2, df),
+    n,
+    cramersV: k > 0 ? Math.sqrt(chi2 / (n * k)) : 0,
+    lowExpectedShare: lowCells / (rowIdx.length * colIdx.length),
+    expected,
+    residuals,
+    rowIdx,
+    colIdx,
+  };
+}
+
+// ---------- 多重比较校正 ----------
+export type PAdjustMethod = "holm" | "bonferroni" | "bh";
+
+export const P_ADJUST_LABEL: Record<PAdjustMethod, string> = {
+  holm: "Holm",
+  bonferroni: "Bonferroni",
+  bh: "Benjamini–Hochberg (FDR)",
+};
+
+export function adjustPValues(ps: number[], method: PAdjustMethod): number[] {
+  const m = ps.length;
+  if (!m) return [];
+  const order = ps.map((p, i) => [p, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(m);
+  if (method === "bonferroni") return ps.map((p) => Math.min(1, p * m));
+  if (method === "holm") {
+    let running = 0;
+    order.forEach(([p, i], rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      out[i] = running;
+    });
+    return out;
+  }
+  let running = 1;
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const [p, i] = order[rank];
+    running = Math.min(running, Math.min(1, (p * m) / (rank + 1)));
+    out[i] = running;
+  }
+  return out;
+}
+
+export function fmtP(p: number) {
+  if (!Number.isFinite(p)) return "—";
+  if (p < 0.001) return "p<.001";
+  return `p=${p.toFixed(3).replace(/^0/, "")}`;
+}
@@ -0,0 +1,129 @@
+import type { Store } from "./types";
+import { episodeLabel } from "./episodes";
+import { niceKey } from "./format";
+
+// 通用表格查看器：任意已加载的表（各集 tablesByEp、episode_stats、每集 basic_stats）的排序 / 筛选 / 列统计。
+
+export type TableSource = { id: string; label: string; group: string; rows: Record<string, any>[] };
+
+export const EPISODE_STATS_ID = "__episode_stats";
+export const BASIC_STATS_ID = "__basic_stats";
+
+export const tableSourceId = (ep: string, key: string) => `${ep}::${key}`;
+
+export function tableSources(store: Store): TableSource[] {
+  const out: TableSource[] = [];
+  if (store.episodeStats?.length) out.push({ id: EPISODE_STATS_ID, label: "episode_stats（全季）", group: "全季", rows: store.episodeStats });
+  const basic = store.episodes.filter((ep) => store.basicStatsByEp[ep]).map((ep) => ({ episode: ep, ...store.basicStatsByEp[ep] }));
+  if (basic.length) out.push({ id: BASIC_STATS_ID, label: "basic_stats（每集一行）", group: "全季", rows: basic });
+  for (const ep of store.episodes)
+    for (const [key, rows] of Object.entries(store.tablesByEp[ep] ?? {}))
+      out.push({ id: tableSourceId(ep, key), label: `${niceKey(key)}（${rows?.length ?? 0}）`, group: episodeLabel(ep), rows: (rows as any[]) ?? [] });
+  return out;
+}
+
+/** 列按首次出现顺序合并（各行字段可能不一致） */
+export function tableColumns(rows: Record<string, any>[]) {
+  const seen = new Set<string>();
+  for (const r of rows) for (const k of Object.keys(r ?? {})) seen.add(k);
+  return Array.from(seen);
+}
+
+const isNull = (v: any) => v == null || v === "" || (typeof v === "number" && !Number.isFinite(v));
+
+function asNumber(v: any) {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v === "string" && v.trim() !== "") {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+const COMPARE: Record<string, (a: number, b: number) => boolean> = {
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  "=": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+};
+
+const CMP = /^(>=|<=|!=|>|<|=)\s*(-?[\d.]+(?:e-?\d+)?)$/i;
+
+/**
+ * 单列筛选：`>5`、`<=0.3`、`=2`、`!=0` 按数值比较；`empty` / `!empty` 匹配空值 / 非空；
+ * 其余按不区分大小写的子串匹配。
+ */
+export function matchesFilter(v: any, filter: string) {
+  const q = filter.trim();
+  if (!q) return true;
+  if (q === "empty") return isNull(v);
+  if (q === "!empty") return !isNull(v);
+  const m = CMP.exec(q);
+  if (m) {
+    const n = asNumber(v);
+    return n != null && COMPARE[m[1]](n, Number(m[2]));
+  }
+  return !isNull(v) && String(v).toLowerCase().includes(q.toLowerCase());
+}
+
+export function filterRows(rows: Record<string, any>[], filters: Record<string, string>) {
+  const active = Object.entries(filters).filter(([, f]) => f.trim());
+  return active.length ? rows.filter((r) => active.every(([col, f]) => matchesFilter(r?.[col], f))) : rows;
+}
+
+export type SortDir = "asc" | "desc";
+
+/** 数值列按数值、其余按字符串（中文按 locale）；空值总在最后 */
+export function sortRows(rows: Record<string, any>[], col: string, dir: SortDir) {
+  const sign = dir === "asc" ? 1 : -1;
+  return rows.slice().sort((a, b) => {
+    const va = a?.[col];
+    const vb = b?.[col];
+    if (isNull(va) || isNull(vb)) return isNull(va) === isNull(vb) ? 0 : isNull(va) ? 1 : -1;
+    const na = asNumber(va);
+    const nb = asNumber(vb);
+    if (na != null && nb != null) return sign * (na - nb);
+    return sign * String(va).localeCompare(String(vb), "zh-CN");
+  });
+}
+
+export type ColumnStats = { nulls: number; numeric: boolean; min: number | null; max: number | null; mean: number | null; distinct: number };
+
+/** 非空值全部可解析为数值时视为数值列，给出 min/max/mean；否则只给空值数和不同值个数 */
+export function columnStats(rows: Record<string, any>[], col: string): ColumnStats {
+  let nulls = 0;
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let count = 0;
+  let numeric = true;
+  const distinct = new Set<string>();
+  for (const r of rows) {
+    const v = r?.[col];
+    if (isNull(v)) {
+      nulls++;
+      continue;
+    }
+    distinct.add(String(v));
+    const n = typeof v === "boolean" ? null : asNumber(v);
+    if (n == null) {
+      numeric = false;
+      continue;
+    }
+    count++;
+    sum += n;
+    min = Math.min(min, n);
+    max = Math.max(max, n);
+  }
+  numeric = numeric && count > 0;
+  return { nulls, numeric, min: numeric ? min : null, max: numeric ? max : null, mean: numeric ? sum / count : null, distinct: distinct.size };
+}
+
+export function fmtCell(v: any) {
+  if (v == null) return "";
+  if (typeof v === "number") return Number.isInteger(v) ? String(v) : String(Number(v.toPrecision(6)));
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
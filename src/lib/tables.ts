@@ -0,0 +1,47 @@
+import Papa from "papaparse";
+
+export function safeNumber(x: any, fallback = 0) {
+  const n = typeof x === "number" ? x : Number(x);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export const TABLE_KEYS = {
+  DANMU_EMO: "danmaku_emo_dist",
+  COM_ROOT_EMO: "comment_root_emo_dist",
+  COM_REPLY_EMO: "comment_reply_emo_dist",
+  DANMU_FUNC: "danmaku_func_dist",
+  COM_ALL_FUNC: "comment_func_dist",
+  COM_ROOT_FUNC: "comment_root_func_dist",
+  COM_REPLY_FUNC: "comment_reply_func_dist",
+  DANMU_MIN_EMO: "danmaku_minute_emo_curve",
+  DANMU_MIN_FUNC: "danmaku_minute_func_curve",
+  BURST_2S: "danmaku_burst_2s",
+  TOP_TERMS_DANMU: "top_terms_danmaku",
+  TOP_TERMS_COMMENT: "top_terms_comment",
+  DANMU_MODEL_EMO: "danmaku_model_emo_dist",
+  COM_ROOT_MODEL_EMO: "comment_root_model_emo_dist",
+  COM_REPLY_MODEL_EMO: "comment_reply_model_emo_dist",
+  MODEL_USAGE: "model_usage",
+  CLEANING_REPORT: "cleaning_report",
+  SCENES: "episode_scenes",
+  ANCHORS: "episode_anchors",
+} as const;
+
+export type ParsedCsv = { rows: any[]; fields: string[]; errors: string[] };
+
+export function parseCsv(text: string): Promise<ParsedCsv> {
+  return new Promise((resolve, reject) => {
+    Papa.parse(text, {
+      header: true,
+      dynamicTyping: true,
+      skipEmptyLines: true,
+      complete: (res) =>
+        resolve({
+          rows: (res.data as any[]) ?? [],
+          fields: res.meta?.fields ?? [],
+          errors: (res.errors ?? []).map((e) => (e.row != null ? `第${e.row + 2}行：${e.message}` : e.message)),
+        }),
+      error: (err: unknown) => reject(err),
+    });
+  });
+}
@@ -0,0 +1,94 @@
+import type { TableMap } from "./types";
+import { type TermSource, termCounts } from "./terms";
+import { stableColorFromKey } from "./colors";
+
+// 团队共享的词项编码表：自定义类别（身份词 / 仪式词 / 情绪词……）+ 词 → 类别的映射。
+// 一个词只归入一个类别；编码表存 localStorage，并可导出 / 导入 JSON。
+
+export type TermCategory = { id: string; label: string };
+
+export type TermDictionary = {
+  categories: TermCategory[];
+  /** term → category id */
+  terms: Record<string, string>;
+};
+
+export const DEFAULT_TERM_DICT: TermDictionary = {
+  categories: [
+    { id: "identity", label: "身份词" },
+    { id: "ritual", label: "仪式词" },
+    { id: "emotion", label: "情绪词" },
+  ],
+  terms: {},
+};
+
+export const UNTAGGED = "untagged";
+
+export function categoryColor(id: string) {
+  return id === UNTAGGED ? "#cbd5e1" : stableColorFromKey("termcat_" + id);
+}
+
+export function newCategoryId(dict: TermDictionary) {
+  let i = dict.categories.length + 1;
+  while (dict.categories.some((c) => c.id === `cat${i}`)) i++;
+  return `cat${i}`;
+}
+
+/** 删除类别时一并移除归入该类别的词 */
+export function removeCategory(dict: TermDictionary, id: string): TermDictionary {
+  return {
+    categories: dict.categories.filter((c) => c.id !== id),
+    terms: Object.fromEntries(Object.entries(dict.terms).filter(([, c]) => c !== id)),
+  };
+}
+
+export function tagTerm(dict: TermDictionary, term: string, categoryId: string): TermDictionary {
+  const terms = { ...dict.terms };
+  if (categoryId && dict.categories.some((c) => c.id === categoryId)) terms[term] = categoryId;
+  else delete terms[term];
+  return { ...dict, terms };
+}
+
+/** 校验导入的 JSON；也接受 { 类别名: [词, ...] } 的简写形式 */
+export function parseTermDict(raw: any): TermDictionary {
+  if (Array.isArray(raw?.categories)) {
+    const categories: TermCategory[] = raw.categories
+      .map((c: any) => ({ id: String(c?.id ?? c?.label ?? "").trim(), label: String(c?.label ?? c?.id ?? "").trim() }))
+      .filter((c: TermCategory) => c.id);
+    if (!categories.length) throw new Error("categories 为空");
+    if (new Set(categories.map((c) => c.id)).size !== categories.length) throw new Error("类别 id 重复");
+    const ids = new Set(categories.map((c) => c.id));
+    const terms: Record<string, string> = {};
+    for (const [term, id] of Object.entries(raw?.terms ?? {})) if (term.trim() && ids.has(String(id))) terms[term.trim()] = String(id);
+    return { categories, terms };
+  }
+  if (raw && typeof raw === "object" && !Array.isArray(raw) && Object.values(raw).every(Array.isArray)) {
+    const categories = Object.keys(raw).map((label, i) => ({ id: `cat${i + 1}`, label }));
+    const terms: Record<string, string> = {};
+    categories.forEach((c) => (raw[c.label] as any[]).forEach((t) => String(t).trim() && (terms[String(t).trim()] = c.id)));
+    if (!categories.length) throw new Error("没有类别");
+    return { categories, terms };
+  }
+  throw new Error("格式应为 { categories: [{id,label}], terms: {词: 类别id} }，或 { 类别名: [词, ...] }");
+}
+
+export type CategoryCountRow = { ep: string; source: TermSource; total: number; counts: Record<string, number> };
+
+/** 每集 × 来源：各类别（含未归类）在词表中的出现次数合计 */
+export function categoryCounts(episodes: string[], tablesByEp: Record<string, TableMap>, dict: TermDictionary, sources: TermSource[]): CategoryCountRow[] {
+  const out: CategoryCountRow[] = [];
+  for (const ep of episodes)
+    for (const source of sources) {
+      const m = termCounts(tablesByEp[ep], source);
+      if (!m.size) continue;
+      const counts: Record<string, number> = Object.fromEntries([...dict.categories.map((c) => [c.id, 0]), [UNTAGGED, 0]]);
+      let total = 0;
+      m.forEach((cnt, term) => {
+        const id = dict.terms[term] ?? UNTAGGED;
+        counts[id] = (counts[id] ?? 0) + cnt;
+        total += cnt;
+      });
+      out.push({ ep, source, total, counts });
+    }
+  return out;
+}
@@ -0,0 +1,138 @@
+import { TABLE_KEYS, safeNumber } from "./tables";
+import type { TableMap } from "./types";
+
+// 高频词表（top_terms_danmaku / top_terms_comment）的探索：词云布局、跨集轨迹、本集特色词、弹幕 vs 评论对比。
+// 注意词表本身是截断的 TopN，所有占比都相对于“本集词表合计”，不是相对于全部弹幕。
+
+export type TermSource = "danmaku" | "comment";
+
+export const TERM_SOURCE_LABEL: Record<TermSource, string> = { danmaku: "弹幕", comment: "评论" };
+
+export const TERM_TABLE: Record<TermSource, string> = {
+  danmaku: TABLE_KEYS.TOP_TERMS_DANMU,
+  comment: TABLE_KEYS.TOP_TERMS_COMMENT,
+};
+
+export type TermCounts = Map<string, number>;
+
+export function termCounts(tables: TableMap | undefined, source: TermSource): TermCounts {
+  const out: TermCounts = new Map();
+  for (const r of tables?.[TERM_TABLE[source]] ?? []) {
+    const term = String((r as any)?.term ?? "").trim();
+    const cnt = safeNumber((r as any)?.cnt);
+    if (term && cnt > 0) out.set(term, (out.get(term) ?? 0) + cnt);
+  }
+  return out;
+}
+
+function total(m: TermCounts) {
+  let s = 0;
+  m.forEach((v) => (s += v));
+  return s;
+}
+
+export type TrajectoryMeasure = "cnt" | "permille";
+
+export const TRAJECTORY_MEASURE_OPTIONS: Array<{ label: string; value: TrajectoryMeasure }> = [
+  { label: "出现次数", value: "cnt" },
+  { label: "占本集词表 ‰", value: "permille" },
+];
+
+/** 每集一行：ep + 各词的值；没有该来源词表的集为 null（断线而不是 0） */
+export function termTrajectory(episodes: string[], tablesByEp: Record<string, TableMap>, source: TermSource, terms: string[], measure: TrajectoryMeasure) {
+  return episodes.map((ep) => {
+    const counts = termCounts(tablesByEp[ep], source);
+    const n = total(counts);
+    const row: Record<string, any> = { ep };
+    for (const t of terms) row[t] = n > 0 ? (measure === "permille" ? ((counts.get(t) ?? 0) / n) * 1000 : counts.get(t) ?? 0) : null;
+    return row;
+  });
+}
+
+export type TermScore = { term: string; cnt: number; other: number; score: number };
+
+/**
+ * 带信息先验的对数几率比 z 分数（Monroe et al. 2008）：先验取两侧合计，
+ * z > 0 表示更偏向 a。
+ */
+export function logOddsZ(a: TermCounts, b: TermCounts): TermScore[] {
+  const na = total(a);
+  const nb = total(b);
+  const prior: TermCounts = new Map();
+  a.forEach((v, k) => prior.set(k, v));
+  b.forEach((v, k) => prior.set(k, (prior.get(k) ?? 0) + v));
+  const a0 = total(prior);
+  if (!(na > 0) || !(nb > 0)) return [];
+  const out: TermScore[] = [];
+  prior.forEach((alpha, term) => {
+    const ya = a.get(term) ?? 0;
+    const yb = b.get(term) ?? 0;
+    const la = Math.log((ya + alpha) / (na + a0 - ya - alpha));
+    const lb = Math.log((yb + alpha) / (nb + a0 - yb - alpha));
+    const variance = 1 / (ya + alpha) + 1 / (yb + alpha);
+    out.push({ term, cnt: ya, other: yb, score: (la - lb) / Math.sqrt(variance) });
+  });
+  return out.sort((x, y) => y.score - x.score);
+}
+
+export type DistinctMethod = "logodds" | "tfidf";
+
+export const DISTINCT_METHOD_OPTIONS: Array<{ label: string; value: DistinctMethod }> = [
+  { label: "对数几率比 z（vs 其余各集）", value: "logodds" },
+  { label: "TF-IDF（词频 × 逆集频）", value: "tfidf" },
+];
+
+/** 本集相对全季其余各集的特色词（只返回偏向本集的一侧） */
+export function distinctiveTerms(episodes: string[], tablesByEp: Record<string, TableMap>, source: TermSource, ep: string, method: DistinctMethod): TermScore[] {
+  const mine = termCounts(tablesByEp[ep], source);
+  if (!mine.size) return [];
+  const rest: TermCounts = new Map();
+  const others = episodes.filter((x) => x !== ep).map((x) => termCounts(tablesByEp[x], source)).filter((m) => m.size);
+  for (const m of others) m.forEach((v, k) => rest.set(k, (rest.get(k) ?? 0) + v));
+
+  if (method === "logodds") return rest.size ? logOddsZ(mine, rest).filter((s) => s.score > 0) : [];
+
+  const docs = others.length + 1;
+  const n = total(mine);
+  const out: TermScore[] = [];
+  mine.forEach((cnt, term) => {
+    const df = 1 + others.filter((m) => m.has(term)).length;
+    // 每集都出现的词 idf 为 0，不算特色
+    const idf = Math.log((1 + docs) / (1 + df));
+    if (idf > 0) out.push({ term, cnt, other: rest.get(term) ?? 0, score: (cnt / n) * idf * 1000 });
+  });
+  return out.sort((x, y) => y.score - x.score);
+}
+
+export type CloudWord = { term: string; cnt: number; x: number; y: number; size: number };
+
+/** 估算文本宽度：中日韩字符按 1em，其余按 0.6em */
+function textWidth(term: string, size: number) {
+  let w = 0;
+  for (const ch of term) w += /[⺀-鿿가-힯＀-￯]/.test(ch) ? 1 : 0.6;
+  return w * size;
+}
+
+/** 阿基米德螺线布局：按频次从大到小放置，与已放置的词包围盒不重叠；放不下的词跳过 */
+export function layoutCloud(words: Array<{ term: string; cnt: number }>, width: number, height: number, minSize = 12, maxSize = 44): CloudWord[] {
+  const sorted = words.slice().sort((a, b) => b.cnt - a.cnt);
+  if (!sorted.length) return [];
+  const lo = Math.log(sorted[sorted.length - 1].cnt);
+  const hi = Math.log(sorted[0].cnt);
+  const placed: Array<CloudWord & { w: number; h: number }> = [];
+  for (const { term, cnt } of sorted) {
+    const size = hi > lo ? minSize + ((Math.log(cnt) - lo) / (hi - lo)) * (maxSize - minSize) : (minSize + maxSize) / 2;
+    const w = textWidth(term, size) + 4;
+    const h = size * 1.1;
+    // 步长随半径缩小，使螺线上相邻采样点间距约 6px
+    for (let t = 0; 0.9 * t < Math.hypot(width, height); t += Math.max(0.02, Math.min(0.25, 6 / (1 + 0.9 * t)))) {
+      const x = width / 2 + 0.9 * t * Math.cos(t) * (width / height) - w / 2;
+      const y = height / 2 + 0.9 * t * Math.sin(t) - h / 2;
+      if (x < 0 || y < 0 || x + w > width || y + h > height) continue;
+      if (placed.some((p) => x < p.x + p.w && x + w > p.x && y < p.y + p.h && y + h > p.y)) continue;
+      placed.push({ term, cnt, x, y, size, w, h });
+      break;
+    }
+  }
+  return placed.map(({ term, cnt, x, y, size }) => ({ term, cnt, x, y, size }));
+}
@@ -0,0 +1,9 @@
+export type TableMap = Record<string, any[]>;
+
+export type Store = {
+  episodes: string[];
+  episodeStats?: any[];
+  basicStatsByEp: Record<string, any>;
+  tablesByEp: Record<string, TableMap>;
+  loadedFiles: { name: string; size: number; type: string }[];
+};